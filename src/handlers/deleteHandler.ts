@@ -0,0 +1,160 @@
+import { Request, Response } from 'express';
+import { M3u8TrackingInfo, MasterPlaylistInfo, SegmentInfo } from '../types';
+import path from 'path';
+import fs from 'fs';
+import { Logger } from 'winston';
+import logger from '../utils/logger';
+import { getStorageDir, getTrackingKey, isOutsidePipelineRoot, normalizeIngestPath, parseIngestPath } from '../utils/ingestPath';
+import { findSessionSegment } from '../utils/segmentLedger';
+
+export class DeleteHandler {
+    private streamTracker: Map<string, M3u8TrackingInfo>;
+    private masterTracker: Map<string, MasterPlaylistInfo>;
+    private mockStoragePath: string;
+    private logger: Logger;
+
+    constructor(
+        streamTracker: Map<string, M3u8TrackingInfo>,
+        masterTracker: Map<string, MasterPlaylistInfo>,
+        mockStoragePath: string,
+        loggerInstance?: Logger
+    ) {
+        this.streamTracker = streamTracker;
+        this.masterTracker = masterTracker;
+        this.mockStoragePath = mockStoragePath;
+        this.logger = loggerInstance || logger;
+    }
+
+    public handleDelete = (req: Request, res: Response): void => {
+        const fullPath = req.path;
+        const pathInfo = parseIngestPath(fullPath);
+
+        if (!pathInfo) {
+            this.logger.error(`Could not extract file path from DELETE URL: ${fullPath}`);
+            res.status(400).send('Bad Request: Could not determine file path');
+            return;
+        }
+
+        if (pathInfo.fileType === 'unknown') {
+            this.logger.warn(`Unhandled file type for DELETE: ${req.originalUrl}`);
+            res.status(400).send('Unsupported file type');
+            return;
+        }
+
+        const { channelId, redundantId } = pathInfo;
+
+        // 파일은 채널(파이프라인) 루트 기준 경로 그대로 저장됨
+        const storedFilename = normalizeIngestPath(pathInfo.filename);
+        if (isOutsidePipelineRoot(storedFilename)) {
+            this.logger.error(`Refusing DELETE outside of the channel directory: ${fullPath}`);
+            res.status(400).send('Bad Request: Could not determine file path');
+            return;
+        }
+        const filePath = path.join(getStorageDir(this.mockStoragePath, channelId, redundantId), storedFilename);
+
+        let fileExisted = false;
+        try {
+            if (fs.existsSync(filePath)) {
+                fs.unlinkSync(filePath);
+                fileExisted = true;
+                this.logger.debug(`Removed file: ${filePath}`);
+            } else {
+                this.logger.debug(`DELETE for non-existent file: ${filePath}`);
+            }
+        } catch (error) {
+            this.logger.error(`[${channelId}] Failed to delete file ${filePath}`, error);
+            res.status(500).send('Internal Server Error: Failed to delete file');
+            return;
+        }
+
+        const tracked = pathInfo.fileType === 'playlist'
+            ? this.markPlaylistDeleted(channelId, redundantId, storedFilename)
+            : this.markSegmentDeleted(channelId, redundantId, storedFilename, fileExisted);
+
+        // 트래커가 아는 파일(업로드에 실패한 채 윈도우에서 빠진 세그먼트 등)은 파일이 없어도 성공으로 응답 (인코더 에러 로그 방지)
+        if (!fileExisted && !tracked) {
+            this.logger.warn(`[${channelId}] DELETE for unknown file: ${storedFilename}`);
+            res.status(404).send('Not Found');
+            return;
+        }
+        res.status(204).send();
+    };
+
+    // 트래커에 있는 플레이리스트이면 true 반환
+    private markPlaylistDeleted(channelId: string, redundantId: string | undefined, filename: string): boolean {
+        const m3u8Key = getTrackingKey(channelId, redundantId, filename);
+        const trackingInfo = this.streamTracker.get(m3u8Key);
+
+        const masterInfo = this.masterTracker.get(m3u8Key);
+        if (masterInfo) {
+            masterInfo.deletedAt = Date.now();
+            this.logger.info(`[${channelId}] Master playlist ${masterInfo.m3u8Uri} deleted.`);
+            return true;
+        }
+
+        if (!trackingInfo) {
+            this.logger.info(`[${channelId}] Received DELETE for untracked M3U8: ${filename}`);
+            return false;
+        }
+
+        trackingInfo.deletedAt = Date.now();
+        if (trackingInfo.timeoutId) {
+            clearTimeout(trackingInfo.timeoutId);
+            trackingInfo.timeoutId = undefined;
+            this.logger.debug(`Cleared timeout for ${m3u8Key} as the M3U8 was deleted.`);
+        }
+
+        this.logger.info(`[${channelId}] M3U8 ${trackingInfo.m3u8Uri} deleted.`);
+        return true;
+    }
+
+    // 삭제를 집계했으면 true 반환 (파일도 없고 어떤 M3U8에도 알려지지 않은 세그먼트는 집계하지 않음)
+    private markSegmentDeleted(channelId: string, redundantId: string | undefined, segmentUri: string, fileExisted: boolean): boolean {
+        let trackingInfo: M3u8TrackingInfo | undefined;
+        let segmentInfo: SegmentInfo | undefined;
+
+        for (const info of this.streamTracker.values()) {
+            if (info.channelId !== channelId || info.redundantId !== redundantId) {
+                continue;
+            }
+            const candidate = findSessionSegment(info, segmentUri);
+            if (candidate) {
+                trackingInfo = info;
+                segmentInfo = candidate;
+                break;
+            }
+        }
+
+        if (!trackingInfo && !fileExisted) {
+            return false;
+        }
+
+        // 어떤 M3U8에도 알려지지 않은 세그먼트는 채널의 첫 번째 M3U8에 집계
+        if (!trackingInfo) {
+            trackingInfo = Array.from(this.streamTracker.values())
+                .find(info => info.channelId === channelId && info.redundantId === redundantId);
+        }
+
+        if (!trackingInfo) {
+            this.logger.info(`[${channelId}] Received DELETE for segment ${segmentUri} but no M3U8 is tracked for this channel.`);
+            return false;
+        }
+
+        const wasReceived = fileExisted || segmentInfo?.received === true;
+
+        trackingInfo.deletedSegments++;
+        if (!wasReceived) {
+            trackingInfo.deletedUnreceivedSegments++;
+        }
+        if (segmentInfo) {
+            segmentInfo.deletedAt = Date.now();
+        }
+
+        if (wasReceived) {
+            this.logger.info(`[${channelId}] Segment ${segmentUri} deleted.`);
+        } else {
+            this.logger.warn(`[${channelId}] Segment ${segmentUri} deleted but it was never received.`);
+        }
+        return true;
+    }
+}
@@ -0,0 +1,246 @@
+import { Request, Response } from 'express';
+import { M3u8TrackingInfo, MasterPlaylistInfo, SegmentInfo } from '../types';
+import path from 'path';
+import fs from 'fs';
+import { Logger } from 'winston';
+import logger from '../utils/logger';
+import { getContentType, getIngestFileType, getStorageDir, PLAYLIST_CONTENT_TYPE } from '../utils/ingestPath';
+import { getSessionSegments } from '../utils/segmentLedger';
+
+export interface EgressPlaylistOptions {
+    windowSeconds: number;
+    start?: number;     // Time-shift window start (epoch ms)
+    end?: number;       // Time-shift window end (epoch ms)
+    now?: number;
+}
+
+interface EgressSegment {
+    mediaSequence: number;
+    duration: number;
+    uri: string;        // URI relative to the egress playlist
+    time: number;       // Wall-clock time of the segment (ms)
+}
+
+// ISO 8601 또는 epoch 초 형식의 start/end 파라미터 파싱
+export function parseTimeShiftParam(value: unknown): number | undefined | null {
+    if (value === undefined || value === '') {
+        return undefined;
+    }
+    if (typeof value !== 'string') {
+        return null;
+    }
+    if (/^\d+(\.\d+)?$/.test(value)) {
+        return parseFloat(value) * 1000;
+    }
+    const parsed = Date.parse(value);
+    return isNaN(parsed) ? null : parsed;
+}
+
+// 플레이어용 오리진 엔드포인트: 실제로 수신된 세그먼트만으로 라이브 슬라이딩 윈도우 플레이리스트 생성
+export class EgressHandler {
+    private streamTracker: Map<string, M3u8TrackingInfo>;
+    private masterTracker: Map<string, MasterPlaylistInfo>;
+    private mockStoragePath: string;
+    private windowSeconds: number;
+    private logger: Logger;
+
+    constructor(
+        streamTracker: Map<string, M3u8TrackingInfo>,
+        masterTracker: Map<string, MasterPlaylistInfo>,
+        mockStoragePath: string,
+        windowSeconds: number,
+        loggerInstance?: Logger
+    ) {
+        this.streamTracker = streamTracker;
+        this.masterTracker = masterTracker;
+        this.mockStoragePath = mockStoragePath;
+        this.windowSeconds = windowSeconds;
+        this.logger = loggerInstance || logger;
+    }
+
+    public handleGet = (req: Request, res: Response): void => {
+        const channelId = req.params.channelId;
+        const filename: string = req.params[0] || '';
+
+        if (getIngestFileType(filename) === 'playlist') {
+            this.servePlaylist(req, res, channelId, filename);
+        } else {
+            this.serveSegment(res, channelId, filename);
+        }
+    };
+
+    private servePlaylist(req: Request, res: Response, channelId: string, filename: string): void {
+        const start = parseTimeShiftParam(req.query.start);
+        const end = parseTimeShiftParam(req.query.end);
+
+        if (start === null || end === null || (start !== undefined && end !== undefined && start >= end)) {
+            res.status(400).send('Bad Request: Invalid start/end parameter');
+            return;
+        }
+
+        const playlist = this.buildPlaylist(channelId, filename, { windowSeconds: this.windowSeconds, start, end });
+        if (playlist === null) {
+            this.logger.warn(`[EGRESS] No tracked playlist for ${channelId}/${filename}`);
+            res.status(404).send('Playlist not found');
+            return;
+        }
+
+        res.setHeader('Content-Type', PLAYLIST_CONTENT_TYPE);
+        res.setHeader('Cache-Control', end !== undefined ? 'max-age=60' : 'no-cache');
+        res.status(200).send(playlist);
+    }
+
+    private serveSegment(res: Response, channelId: string, filename: string): void {
+        const channelDir = path.resolve(this.mockStoragePath, channelId);
+        const filePath = path.resolve(channelDir, filename);
+
+        // 채널 디렉토리 밖의 파일 접근 차단
+        if (!filePath.startsWith(channelDir + path.sep) || !fs.existsSync(filePath)) {
+            this.logger.warn(`[EGRESS] Segment not found: ${channelId}/${filename}`);
+            res.status(404).send('File not found');
+            return;
+        }
+
+        res.setHeader('Content-Type', getContentType(filePath));
+        res.sendFile(filePath);
+    }
+
+    // 트래킹 중인 플레이리스트(모든 리던던트 파이프라인 포함)의 세션 원장에서 수신된 세그먼트로 플레이리스트 생성
+    // 인코더가 현재 알리는 윈도우보다 오래된 세그먼트도 원장에 남아 있으므로 start/end 타임시프트와 windowSeconds로 제공 가능
+    public buildPlaylist(channelId: string, filename: string, options: EgressPlaylistOptions): string | null {
+        // 마스터 플레이리스트는 수신된 내용을 그대로 제공
+        const master = this.findMasterPlaylist(channelId, filename);
+        if (master) {
+            const storedPath = path.join(getStorageDir(this.mockStoragePath, channelId, master.redundantId), filename);
+            return fs.existsSync(storedPath) ? fs.readFileSync(storedPath, 'utf-8') : null;
+        }
+
+        const sources = this.findTrackingInfos(channelId, filename);
+        if (sources.length === 0) {
+            return null;
+        }
+
+        const now = options.now ?? Date.now();
+        const bySequence = new Map<number, EgressSegment>();
+        let initSegmentUri: string | undefined;
+        let targetDuration = 0;
+
+        for (const trackingInfo of sources) {
+            targetDuration = Math.max(targetDuration, trackingInfo.targetDuration);
+
+            for (const segment of getSessionSegments(trackingInfo)) {
+                // 인코더가 DELETE한 세그먼트는 파일이 없으므로 제외
+                if (!segment.received || segment.receivedAt === undefined || segment.deletedAt !== undefined) {
+                    continue;
+                }
+                const uri = this.getEgressUri(filename, trackingInfo, segment);
+
+                if (segment.kind === 'init') {
+                    initSegmentUri = initSegmentUri || uri;
+                    continue;
+                }
+                if (segment.mediaSequence === undefined) {
+                    continue;
+                }
+
+                // 여러 파이프라인이 같은 시퀀스를 전달한 경우 먼저 도착한 세그먼트 사용
+                const existing = bySequence.get(segment.mediaSequence);
+                if (!existing || segment.receivedAt < existing.time) {
+                    bySequence.set(segment.mediaSequence, {
+                        mediaSequence: segment.mediaSequence,
+                        duration: segment.duration,
+                        uri,
+                        time: segment.receivedAt
+                    });
+                }
+            }
+        }
+
+        const isTimeShifted = options.start !== undefined || options.end !== undefined;
+        const candidates = Array.from(bySequence.values())
+            .filter(segment => options.start === undefined || segment.time >= options.start)
+            .filter(segment => options.end === undefined || segment.time <= options.end)
+            .sort((a, b) => a.mediaSequence - b.mediaSequence);
+
+        // 최신 세그먼트부터 역순으로 연속된 구간만 포함 (미디어 시퀀스 번호가 어긋나지 않도록)
+        const windowMs = options.windowSeconds * 1000;
+        const included: EgressSegment[] = [];
+        let totalDuration = 0;
+        for (let i = candidates.length - 1; i >= 0; i--) {
+            const segment = candidates[i];
+            if (included.length > 0 && included[0].mediaSequence !== segment.mediaSequence + 1) {
+                break;
+            }
+            if (!isTimeShifted && included.length > 0 && totalDuration + segment.duration * 1000 > windowMs) {
+                break;
+            }
+            included.unshift(segment);
+            totalDuration += segment.duration * 1000;
+        }
+
+        for (const segment of included) {
+            targetDuration = Math.max(targetDuration, Math.ceil(segment.duration));
+        }
+
+        const lines = [
+            '#EXTM3U',
+            `#EXT-X-VERSION:${initSegmentUri ? 6 : 3}`,
+            `#EXT-X-TARGETDURATION:${targetDuration}`,
+            `#EXT-X-MEDIA-SEQUENCE:${included.length > 0 ? included[0].mediaSequence : 0}`
+        ];
+
+        const isEnded = options.end !== undefined && options.end <= now;
+        if (isEnded) {
+            lines.push('#EXT-X-PLAYLIST-TYPE:VOD');
+        }
+        if (initSegmentUri) {
+            lines.push(`#EXT-X-MAP:URI="${initSegmentUri}"`);
+        }
+        for (const segment of included) {
+            lines.push(`#EXT-X-PROGRAM-DATE-TIME:${new Date(segment.time).toISOString()}`);
+            lines.push(`#EXTINF:${segment.duration.toFixed(3)},`);
+            lines.push(segment.uri);
+        }
+        if (isEnded) {
+            lines.push('#EXT-X-ENDLIST');
+        }
+
+        return lines.join('\n') + '\n';
+    }
+
+    private findTrackingInfos(channelId: string, filename: string): M3u8TrackingInfo[] {
+        return this.findByPlaylist(this.streamTracker, channelId, filename);
+    }
+
+    private findMasterPlaylist(channelId: string, filename: string): MasterPlaylistInfo | undefined {
+        return this.findByPlaylist(this.masterTracker, channelId, filename)[0];
+    }
+
+    // 모든 리던던트 파이프라인에서 같은 플레이리스트 경로의 트래커 조회
+    private findByPlaylist<T extends { channelId: string; redundantId?: string; deletedAt?: number }>(
+        tracker: Map<string, T>,
+        channelId: string,
+        filename: string
+    ): T[] {
+        const baseFilename = filename.replace(/\.[^.]+$/, '');
+        const suffix = `/${baseFilename}.m3u8`;
+
+        return Array.from(tracker.entries())
+            .filter(([key, info]) => {
+                if (info.channelId !== channelId || info.deletedAt !== undefined) {
+                    return false;
+                }
+                const expectedKey = info.redundantId
+                    ? `${channelId}/${info.redundantId}${suffix}`
+                    : `${channelId}${suffix}`;
+                return key === expectedKey;
+            })
+            .map(([, info]) => info);
+    }
+
+    private getEgressUri(playlistFilename: string, trackingInfo: M3u8TrackingInfo, segment: SegmentInfo): string {
+        // 세그먼트는 채널(리던던트 파이프라인) 디렉토리에 루트 기준 경로로 저장되므로 이그레스 플레이리스트 위치 기준 상대 경로로 변환
+        const storedPath = trackingInfo.redundantId ? `${trackingInfo.redundantId}/${segment.uri}` : segment.uri;
+        return path.posix.relative(path.posix.dirname(playlistFilename), storedPath);
+    }
+}
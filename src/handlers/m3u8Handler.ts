@@ -1,90 +1,189 @@
 import { Request, Response } from 'express';
-import { M3u8TrackingInfo, SegmentInfo } from '../types';
+import { HlsMasterPlaylist, HlsPlaylist, M3u8TrackingInfo, MasterPlaylistInfo, SegmentInfo } from '../types';
 import path from 'path';
 import fs from 'fs';
-import { parseM3u8 } from '../utils/m3u8Parser';
-import axios from 'axios';
+import { buildTrackingInfo, parsePlaylist } from '../utils/m3u8Parser';
+import { buildMasterPlaylistInfo } from '../utils/masterPlaylist';
+import { HlsValidator } from '../utils/hlsValidator';
+import { DEFAULT_MAX_LEDGER_ENTRIES, markSegmentMissing, recordSegmentArrival, updateLedger } from '../utils/segmentLedger';
+import { PendingSegmentPool } from '../utils/pendingSegmentPool';
+import { ChannelLifecycleTracker } from '../utils/channelLifecycle';
+import { IngestEventBus } from '../utils/eventBus';
+import { getStorageDir, getTrackingKey } from '../utils/ingestPath';
+import { RemoteFetchError, RemotePlaylistFetcher, resolvePlaylistUris } from '../utils/remotePlaylistFetcher';
 import { Logger } from 'winston';
 import logger from '../utils/logger';
 
 export class M3u8Handler {
     private streamTracker: Map<string, M3u8TrackingInfo>;
+    private masterTracker: Map<string, MasterPlaylistInfo>;
     private mockStoragePath: string;
     private segmentArrivalTimeoutBufferMs: number;
     private logger: Logger;
+    private hlsValidator?: HlsValidator;
+    private rejectInvalidPlaylists: boolean;
+    private pendingSegmentPool?: PendingSegmentPool;
+    private channelLifecycle?: ChannelLifecycleTracker;
+    private eventBus?: IngestEventBus;
+    private remotePlaylistFetcher: RemotePlaylistFetcher;
+    private maxLedgerEntries: number;
 
     constructor(
         streamTracker: Map<string, M3u8TrackingInfo>,
+        masterTracker: Map<string, MasterPlaylistInfo>,
         mockStoragePath: string,
         segmentArrivalTimeoutBufferMs: number,
-        loggerInstance?: Logger
+        loggerInstance?: Logger,
+        options: {
+            hlsValidator?: HlsValidator;
+            rejectInvalidPlaylists?: boolean;
+            pendingSegmentPool?: PendingSegmentPool;
+            channelLifecycle?: ChannelLifecycleTracker;
+            eventBus?: IngestEventBus;
+            remotePlaylistFetcher?: RemotePlaylistFetcher;
+            maxLedgerEntries?: number;
+        } = {}
     ) {
         this.streamTracker = streamTracker;
+        this.masterTracker = masterTracker;
         this.mockStoragePath = mockStoragePath;
         this.segmentArrivalTimeoutBufferMs = segmentArrivalTimeoutBufferMs;
         this.logger = loggerInstance || logger;
+        this.hlsValidator = options.hlsValidator;
+        this.rejectInvalidPlaylists = options.rejectInvalidPlaylists ?? false;
+        this.pendingSegmentPool = options.pendingSegmentPool;
+        this.channelLifecycle = options.channelLifecycle;
+        this.eventBus = options.eventBus;
+        this.remotePlaylistFetcher = options.remotePlaylistFetcher || new RemotePlaylistFetcher({}, this.logger);
+        this.maxLedgerEntries = options.maxLedgerEntries ?? DEFAULT_MAX_LEDGER_ENTRIES;
     }
 
-    private checkSegmentArrival = (m3u8Key: string): void => {
+    // 마감 시각이 지난 미수신 세그먼트를 missing으로 전환 (세그먼트당 한 번만 타임아웃 집계)
+    private checkSegmentDeadlines = (m3u8Key: string): void => {
         const trackingInfo = this.streamTracker.get(m3u8Key);
-        if (!trackingInfo || trackingInfo.allSegmentsReceived) {
+        if (!trackingInfo) {
             return;
         }
 
-        const now = Date.now();
-        let allReceived = true;
-        const missingSegments: string[] = [];
+        trackingInfo.timeoutId = undefined;
+        trackingInfo.nextDeadlineAt = undefined;
 
-        this.logger.info(`[${trackingInfo.channelId}] Timeout check for M3U8: ${trackingInfo.m3u8Uri}`);
+        const now = Date.now();
+        const timedOutSegments: string[] = [];
 
         for (const [segmentUri, segmentInfo] of trackingInfo.segments.entries()) {
-            if (!segmentInfo.received) {
-                allReceived = false;
-                missingSegments.push(segmentUri);
-                // Mark segment as timed out for metrics
-                segmentInfo.timeoutOccurred = true;
-                // Increment timeout counters
-                trackingInfo.timeoutEvents++;
-                trackingInfo.successiveTimeouts++;
-                // Update max successive timeouts if needed
-                if (trackingInfo.successiveTimeouts > trackingInfo.maxSuccessiveTimeouts) {
-                    trackingInfo.maxSuccessiveTimeouts = trackingInfo.successiveTimeouts;
-                }
+            if (segmentInfo.deadlineAt === undefined || segmentInfo.deadlineAt > now || !markSegmentMissing(segmentInfo)) {
+                continue;
+            }
+            timedOutSegments.push(segmentUri);
+            this.eventBus?.emit('segment-deadline-missed', {
+                channelId: trackingInfo.channelId,
+                redundantId: trackingInfo.redundantId,
+                at: now,
+                m3u8Key,
+                m3u8Uri: trackingInfo.m3u8Uri,
+                uri: segmentUri,
+                mediaSequence: segmentInfo.mediaSequence,
+                deadlineAt: segmentInfo.deadlineAt
+            });
+            // Increment timeout counters
+            trackingInfo.timeoutEvents++;
+            trackingInfo.successiveTimeouts++;
+            // Update max successive timeouts if needed
+            if (trackingInfo.successiveTimeouts > trackingInfo.maxSuccessiveTimeouts) {
+                trackingInfo.maxSuccessiveTimeouts = trackingInfo.successiveTimeouts;
             }
         }
 
-        if (allReceived) {
-            this.logger.info(`[${trackingInfo.channelId}] OK: All ${trackingInfo.segments.size} segments for ${trackingInfo.m3u8Uri} received.`);
-            trackingInfo.allSegmentsReceived = true;
-            // Reset successive timeouts counter on success
-            trackingInfo.successiveTimeouts = 0;
-        } else {
-            this.logger.warn(`[${trackingInfo.channelId}] TIMEOUT: Missing ${missingSegments.length} segment(s) for ${trackingInfo.m3u8Uri}: ${missingSegments.join(', ')}`);
+        if (timedOutSegments.length > 0) {
+            this.logger.warn(`[${trackingInfo.channelId}] TIMEOUT: ${timedOutSegments.length} segment(s) for ${trackingInfo.m3u8Uri} missed their deadline: ${timedOutSegments.join(', ')}`);
         }
 
-        trackingInfo.timeoutId = undefined;
+        this.scheduleDeadlineCheck(m3u8Key, trackingInfo);
     };
 
-    private async fetchM3u8Content(url: string): Promise<string> {
-        try {
-            this.logger.debug(`Fetching M3U8 content from URL: ${url}`);
-            const response = await axios.get<string>(url);
-            this.logger.debug(`Response status: ${response.status}`);
-            this.logger.debug(`Response headers:`, response.headers);
-            this.logger.debug(`Response data length: ${response.data.length}`);
-            return response.data;
-        } catch (error) {
-            this.logger.error(`Failed to fetch M3U8 content from ${url}`, error);
-            throw error;
+    // 가장 이른 미수신 세그먼트 마감 시각에 검사 예약 - 플레이리스트 갱신만으로는 예약된 검사가 밀리지 않음
+    private scheduleDeadlineCheck(m3u8Key: string, trackingInfo: M3u8TrackingInfo): void {
+        let nextDeadlineAt: number | undefined;
+        for (const segmentInfo of trackingInfo.segments.values()) {
+            if (segmentInfo.received || segmentInfo.deadlineAt === undefined
+                || segmentInfo.state === 'missing' || segmentInfo.state === 'expired') {
+                continue;
+            }
+            nextDeadlineAt = nextDeadlineAt === undefined ? segmentInfo.deadlineAt : Math.min(nextDeadlineAt, segmentInfo.deadlineAt);
+        }
+
+        if (trackingInfo.timeoutId && trackingInfo.nextDeadlineAt === nextDeadlineAt) {
+            return;
         }
+        if (trackingInfo.timeoutId) {
+            clearTimeout(trackingInfo.timeoutId);
+            trackingInfo.timeoutId = undefined;
+        }
+
+        trackingInfo.nextDeadlineAt = nextDeadlineAt;
+        if (nextDeadlineAt !== undefined) {
+            const delay = Math.max(0, nextDeadlineAt - Date.now());
+            trackingInfo.timeoutId = setTimeout(() => this.checkSegmentDeadlines(m3u8Key), delay);
+            // 백그라운드 검사이므로 프로세스(테스트 러너 포함) 종료를 막지 않음
+            trackingInfo.timeoutId.unref();
+            this.logger.debug(`Scheduled segment deadline check for ${m3u8Key} in ${delay}ms`);
+        }
+    }
+
+    // 복원된 트래커의 마감 시각 검사 재예약 (서버 재시작 중 지난 마감 시각은 즉시 검사)
+    public resumeDeadlineChecks(): void {
+        for (const [m3u8Key, trackingInfo] of this.streamTracker.entries()) {
+            this.scheduleDeadlineCheck(m3u8Key, trackingInfo);
+        }
+    }
+
+    private updateMasterPlaylist(
+        m3u8Key: string,
+        m3u8Uri: string,
+        channelId: string,
+        redundantId: string | undefined,
+        playlist: HlsMasterPlaylist
+    ): void {
+        const masterInfo = buildMasterPlaylistInfo(playlist, m3u8Uri, channelId, redundantId, this.masterTracker.get(m3u8Key));
+        this.masterTracker.set(m3u8Key, masterInfo);
+
+        // 이전에 미디어 플레이리스트로 추적되던 경우 정리
+        const previous = this.streamTracker.get(m3u8Key);
+        if (previous) {
+            if (previous.timeoutId) {
+                clearTimeout(previous.timeoutId);
+            }
+            this.streamTracker.delete(m3u8Key);
+        }
+
+        this.eventBus?.emit('master-playlist-updated', {
+            channelId,
+            redundantId,
+            at: masterInfo.receivedAt,
+            m3u8Key,
+            m3u8Uri,
+            variants: playlist.variants.length,
+            renditions: playlist.renditions.length
+        });
+        this.logger.info(`[${channelId}] Master playlist ${m3u8Uri} declares ${playlist.variants.length} variant(s) and ${playlist.renditions.length} rendition(s)`);
+    }
+
+    // 원격 플레이리스트의 상대 URI는 (리다이렉트 후) 가져온 URL 기준으로 해석
+    private async fetchM3u8Content(channelId: string, url: string): Promise<string> {
+        this.logger.debug(`Fetching M3U8 content from URL: ${url}`);
+        const result = await this.remotePlaylistFetcher.fetch(channelId, url);
+        this.logger.debug(`Fetched ${result.content.length} bytes from ${result.url} in ${result.latencyMs}ms (${result.attempts} attempt(s))`);
+        return resolvePlaylistUris(result.content, result.url);
     }
 
     public handlePut = async (req: Request, res: Response): Promise<void> => {
         const channelId = req.params.channelId;
+        const redundantId: string | undefined = req.params.redundantId;
         const fullPath = req.path;
         
         this.logger.debug(`Processing PUT request for path: ${fullPath}`);
-        this.logger.debug(`Channel ID from params: ${channelId}`);
+        this.logger.debug(`Channel ID from params: ${channelId}, Redundant ID: ${redundantId || '-'}`);
         this.logger.debug(`Original URL: ${req.originalUrl}`);
         this.logger.debug(`Request params: ${JSON.stringify(req.params)}`);
         
@@ -135,8 +234,8 @@ export class M3u8Handler {
         // 파일 이름에서 확장자 제거 후 baseFilename 추출
         const baseFilename = filename.replace(/\.[^.]+$/, '');
         
-        // m3u8 트래킹 키 생성: 항상 channelId/filename.m3u8 형식 사용
-        const m3u8Key = `${channelId}/${baseFilename}.m3u8`;
+        // m3u8 트래킹 키 생성: channelId/filename.m3u8 (v2 스타일은 파이프라인별로 channelId/redundantId/filename.m3u8)
+        const m3u8Key = getTrackingKey(channelId, redundantId, filename);
         
         // MediaPackage v2 스타일 URL인 경우 추가 로깅
         if (isMediaPackageV2) {
@@ -145,7 +244,7 @@ export class M3u8Handler {
             this.logger.debug(`Generated tracking key: ${m3u8Key}`);
         }
         
-        const rawBody = (req as any).rawBody;
+        const rawBody = req.rawBody;
 
         this.logger.debug(`WebDAV PUT request received for ${fullPath}`);
         this.logger.debug(`File will be saved as: ${filename}`);
@@ -167,20 +266,54 @@ export class M3u8Handler {
 
             if (bodyContent.startsWith('http://') || bodyContent.startsWith('https://')) {
                 this.logger.debug(`Detected URL in request body, fetching content...`);
-                m3u8Content = await this.fetchM3u8Content(bodyContent);
+                m3u8Content = await this.fetchM3u8Content(channelId, bodyContent.trim());
                 this.logger.debug(`Successfully fetched M3U8 content length: ${m3u8Content?.length}`);
             } else {
                 m3u8Content = bodyContent;
                 this.logger.debug(`Using direct M3U8 content length: ${m3u8Content?.length}`);
             }
         } catch (error) {
+            if (error instanceof RemoteFetchError) {
+                res.status(502).send(`Bad Gateway: Failed to fetch M3U8 content (${error.message})`);
+                return;
+            }
             this.logger.error(`Failed to get M3U8 content:`, error);
             res.status(500).send('Internal Server Error: Failed to get M3U8 content');
             return;
         }
 
+        let playlist: HlsPlaylist;
+        try {
+            playlist = parsePlaylist(m3u8Content);
+        } catch (error) {
+            this.logger.error(`Failed to parse M3U8 for ${fullPath}`, error);
+            res.status(500).send('Internal Server Error: Failed to parse M3U8');
+            return;
+        }
+
+        // RFC 8216 적합성 검사 - 위반 사항은 채널별로 기록하고 설정에 따라 거부
+        if (this.hlsValidator) {
+            const { violations, snapshot } = this.hlsValidator.validate(m3u8Key, fullPath, channelId, redundantId, m3u8Content, playlist);
+            if (violations.length > 0) {
+                this.eventBus?.emit('validation-failed', {
+                    channelId,
+                    redundantId,
+                    at: Date.now(),
+                    m3u8Key,
+                    m3u8Uri: fullPath,
+                    violations,
+                    rejected: this.rejectInvalidPlaylists
+                });
+            }
+            if (violations.length > 0 && this.rejectInvalidPlaylists) {
+                res.status(400).send(`Bad Request: Playlist violates RFC 8216 (${violations.map(violation => violation.rule).join(', ')})`);
+                return;
+            }
+            this.hlsValidator.commit(m3u8Key, snapshot);
+        }
+
         // Store the M3U8 file
-        const filePath = path.join(this.mockStoragePath, channelId, filename);
+        const filePath = path.join(getStorageDir(this.mockStoragePath, channelId, redundantId), filename);
         this.logger.debug(`Storing M3U8 file at: ${filePath}`);
         try {
             fs.mkdirSync(path.dirname(filePath), { recursive: true });
@@ -191,9 +324,16 @@ export class M3u8Handler {
             return;
         }
 
-        // Parse M3U8 content and update tracking info
+        // Update tracking info from the parsed playlist
         try {
-            const parsedData = parseM3u8(m3u8Content, fullPath, channelId);
+            // 마스터 플레이리스트는 세그먼트가 아닌 렌디션 목록이므로 별도로 추적
+            if (playlist.type === 'master') {
+                this.updateMasterPlaylist(m3u8Key, fullPath, channelId, redundantId, playlist);
+                res.status(200).send('OK');
+                return;
+            }
+
+            const parsedData = buildTrackingInfo(playlist, fullPath, channelId);
             this.logger.debug(`Parsed M3U8 data:`, parsedData);
             if (parsedData) {
                 const now = Date.now();
@@ -214,60 +354,120 @@ export class M3u8Handler {
                     m3u8Uri: fullPath,
                     targetDuration: parsedData.targetDuration,
                     segments: new Map(),
-                    allSegmentsReceived: parsedData.allSegmentsReceived,
+                    ledger: existingTrackingInfo?.ledger || new Map(),
+                    ledgerIndex: existingTrackingInfo?.ledgerIndex || new Map(),
+                    compactedSegments: existingTrackingInfo?.compactedSegments,
+                    allSegmentsReceived: false,
                     receivedAt: now,
                     channelId: channelId,
+                    redundantId,
                     lastSegmentReceivedTime: existingTrackingInfo?.lastSegmentReceivedTime || now,
+                    firstSegmentReceivedAt: existingTrackingInfo?.firstSegmentReceivedAt,
+                    lastSegmentReceivedAt: existingTrackingInfo?.lastSegmentReceivedAt,
                     segmentArrivalTimeoutBufferMs: this.segmentArrivalTimeoutBufferMs,
-                    timeoutId: undefined,
+                    timeoutId: existingTrackingInfo?.timeoutId,
+                    nextDeadlineAt: existingTrackingInfo?.nextDeadlineAt,
                     previousM3u8Updates: previousM3u8Updates,
                     timeoutEvents: existingTrackingInfo?.timeoutEvents || 0,
                     successiveTimeouts: existingTrackingInfo?.successiveTimeouts || 0,
                     maxSuccessiveTimeouts: existingTrackingInfo?.maxSuccessiveTimeouts || 0,
-                    segmentArrivalIntervals: existingTrackingInfo?.segmentArrivalIntervals || []
+                    segmentArrivalIntervals: existingTrackingInfo?.segmentArrivalIntervals || [],
+                    deletedSegments: existingTrackingInfo?.deletedSegments || 0,
+                    deletedUnreceivedSegments: existingTrackingInfo?.deletedUnreceivedSegments || 0,
+                    inexactMatches: existingTrackingInfo?.inexactMatches || [],
+                    sequenceMatches: existingTrackingInfo?.sequenceMatches || 0,
+                    fuzzyMatches: existingTrackingInfo?.fuzzyMatches || 0,
+                    playlist: parsedData.playlist
                 };
                 
                 // Process segments from the parsed data
-                // We need to preserve existing segment info for metrics
+                // 이전 윈도우 또는 원장에 있던 세그먼트는 같은 객체를 재사용해 수신 상태와 메트릭 유지
                 for (const [segmentUri, parsedSegment] of parsedData.segments.entries()) {
-                    const existingSegment = existingTrackingInfo?.segments.get(segmentUri);
-                    
-                    const segmentInfo: SegmentInfo = {
-                        uri: parsedSegment.uri,
-                        duration: parsedSegment.duration,
-                        received: existingSegment?.received || false,
-                        receivedAt: existingSegment?.receivedAt,
-                        size: existingSegment?.size,
-                        firstSeenAt: existingSegment?.firstSeenAt || now,
-                        timeoutOccurred: existingSegment?.timeoutOccurred || false
-                    };
-                    
+                    const ledgerSegment = parsedSegment.mediaSequence !== undefined
+                        ? trackingInfo.ledger.get(parsedSegment.mediaSequence)
+                        : undefined;
+                    const existingSegment = existingTrackingInfo?.segments.get(segmentUri)
+                        || (ledgerSegment?.uri === segmentUri ? ledgerSegment : undefined);
+
+                    const segmentInfo: SegmentInfo = existingSegment
+                        ? Object.assign(existingSegment, {
+                            duration: parsedSegment.duration,
+                            kind: parsedSegment.kind,
+                            mediaSequence: parsedSegment.mediaSequence
+                        })
+                        : { ...parsedSegment, firstSeenAt: now };
+
+                    // 마감 시각은 처음 등장한 시점 기준으로 한 번만 정해지고 플레이리스트 갱신 후에도 유지
+                    if (segmentInfo.deadlineAt === undefined) {
+                        segmentInfo.deadlineAt = (segmentInfo.firstSeenAt ?? now) + (trackingInfo.targetDuration * 1000) + this.segmentArrivalTimeoutBufferMs;
+                    }
+
                     trackingInfo.segments.set(segmentUri, segmentInfo);
                 }
 
-                // Clear existing timeout if any (e.g., if M3U8 is updated)
-                if (existingTrackingInfo?.timeoutId) {
-                    clearTimeout(existingTrackingInfo.timeoutId);
-                    this.logger.debug(`Cleared existing timeout for ${m3u8Key}`);
+                // 플레이리스트보다 먼저 업로드된 세그먼트 매칭 (실제 업로드 시각 기준으로 수신 처리)
+                if (this.pendingSegmentPool) {
+                    for (const [segmentUri, segmentInfo] of trackingInfo.segments.entries()) {
+                        const upload = segmentInfo.received ? undefined : this.pendingSegmentPool.take(channelId, redundantId, segmentUri);
+                        if (upload) {
+                            segmentInfo.preAnnounced = true;
+                            const state = recordSegmentArrival(trackingInfo, segmentInfo, upload);
+                            this.eventBus?.emit('segment-received', {
+                                channelId,
+                                redundantId,
+                                at: upload.receivedAt,
+                                m3u8Key,
+                                m3u8Uri: fullPath,
+                                uri: segmentUri,
+                                mediaSequence: segmentInfo.mediaSequence,
+                                state,
+                                size: upload.size,
+                                preAnnounced: true,
+                                uploadDurationMs: upload.uploadDurationMs
+                            });
+                            this.logger.info(`[${channelId}] Segment ${segmentUri} was uploaded ${now - upload.receivedAt}ms before ${fullPath} referenced it.`);
+                        }
+                    }
                 }
 
-                // Set timeout check only if segments are expected
-                if (!trackingInfo.allSegmentsReceived && trackingInfo.segments.size > 0) {
-                    const deadline = now + (trackingInfo.targetDuration * 1000) + this.segmentArrivalTimeoutBufferMs;
-                    trackingInfo.timeoutId = setTimeout(() => this.checkSegmentArrival(m3u8Key), deadline - now);
-                    this.logger.info(`Set segment arrival timeout for ${m3u8Key} (${deadline - now}ms)`);
+                // 세션 원장 갱신 - 윈도우에서 빠진 미수신 세그먼트는 expired, 상한을 넘은 오래된 항목은 합계로 압축
+                const expiredSegments = updateLedger(trackingInfo, existingTrackingInfo?.segments, now, this.maxLedgerEntries);
+                if (expiredSegments.length > 0) {
+                    this.logger.warn(`[${channelId}] ${expiredSegments.length} segment(s) left the window of ${fullPath} without being received: ${expiredSegments.map(segment => segment.uri).join(', ')}`);
                 }
+                expiredSegments.forEach(segment => this.eventBus?.emit('segment-expired', {
+                    channelId,
+                    redundantId,
+                    at: now,
+                    m3u8Key,
+                    m3u8Uri: fullPath,
+                    uri: segment.uri,
+                    mediaSequence: segment.mediaSequence
+                }));
+                trackingInfo.allSegmentsReceived = Array.from(trackingInfo.segments.values()).every(segment => segment.received);
 
                 this.streamTracker.set(m3u8Key, trackingInfo);
+                this.scheduleDeadlineCheck(m3u8Key, trackingInfo);
+                const endList = playlist.type === 'media' && playlist.endList;
+                this.channelLifecycle?.recordPlaylist(channelId, m3u8Key, parsedData.targetDuration, endList, now);
+                this.eventBus?.emit('playlist-updated', {
+                    channelId,
+                    redundantId,
+                    at: now,
+                    m3u8Key,
+                    m3u8Uri: fullPath,
+                    targetDuration: trackingInfo.targetDuration,
+                    mediaSequence: playlist.type === 'media' ? playlist.mediaSequence : undefined,
+                    segmentCount: trackingInfo.segments.size,
+                    endList
+                });
                 this.logger.debug(`Updated streamTracker for ${m3u8Key}`);
             } else {
                 this.logger.warn(`Could not parse M3U8 content for ${fullPath}`);
             }
         } catch (error) {
-            this.logger.error(`Failed to parse M3U8 or update tracker for ${fullPath}`, error);
-            // Decide if we should send 500 or if partial success is okay
-            // Let's assume parsing failure means we can't proceed reliably
-            res.status(500).send('Internal Server Error: Failed to parse M3U8');
+            this.logger.error(`Failed to update tracker for ${fullPath}`, error);
+            res.status(500).send('Internal Server Error: Failed to update tracker');
             return;
         }
 
@@ -1,208 +1,209 @@
 import { Request, Response } from 'express';
-import { M3u8TrackingInfo } from '../types';
+import { M3u8TrackingInfo, SegmentInfo, SegmentMatchMode, TsInspection, UploadedFile } from '../types';
 import path from 'path';
 import fs from 'fs';
+import crypto from 'crypto';
 import { Logger } from 'winston';
 import logger from '../utils/logger';
+import {
+    getStorageDir,
+    isOutsidePipelineRoot,
+    isSegmentFilename,
+    normalizeIngestPath,
+    parseIngestPath
+} from '../utils/ingestPath';
+import { findSessionSegment, recordSegmentArrival } from '../utils/segmentLedger';
+import { PendingSegmentPool } from '../utils/pendingSegmentPool';
+import { getDurationMismatch, inspectTransportStream } from '../utils/tsInspector';
+import { UploadHistory } from '../utils/uploadHistory';
+import { ChannelLifecycleTracker } from '../utils/channelLifecycle';
+import { IngestEventBus } from '../utils/eventBus';
+
+// 플레이리스트별로 보관하는 최근 부정확 매칭 수 (전체 횟수는 sequenceMatches/fuzzyMatches로 집계)
+const MAX_RECORDED_INEXACT_MATCHES = 100;
 
 export class SegmentHandler {
     private streamTracker: Map<string, M3u8TrackingInfo>;
     private mockStoragePath: string;
+    private segmentMatching: SegmentMatchMode;
+    private pendingSegmentPool?: PendingSegmentPool;
+    private inspectSegments: boolean;
+    private uploadHistory?: UploadHistory;
+    private channelLifecycle?: ChannelLifecycleTracker;
+    private eventBus?: IngestEventBus;
     private logger: Logger;
 
-    constructor(streamTracker: Map<string, M3u8TrackingInfo>, mockStoragePath: string, loggerInstance: Logger) {
+    constructor(
+        streamTracker: Map<string, M3u8TrackingInfo>,
+        mockStoragePath: string,
+        loggerInstance: Logger,
+        options: {
+            segmentMatching?: SegmentMatchMode;
+            pendingSegmentPool?: PendingSegmentPool;
+            inspectSegments?: boolean;
+            uploadHistory?: UploadHistory;
+            channelLifecycle?: ChannelLifecycleTracker;
+            eventBus?: IngestEventBus;
+        } = {}
+    ) {
         this.streamTracker = streamTracker;
         this.mockStoragePath = mockStoragePath;
+        this.segmentMatching = options.segmentMatching ?? 'exact';
+        this.pendingSegmentPool = options.pendingSegmentPool;
+        this.inspectSegments = options.inspectSegments ?? false;
+        this.uploadHistory = options.uploadHistory;
+        this.channelLifecycle = options.channelLifecycle;
+        this.eventBus = options.eventBus;
         this.logger = loggerInstance || logger;
     }
 
-    public handlePut = (req: Request, res: Response): void => {
+    public handlePut = async (req: Request, res: Response): Promise<void> => {
         const channelId = req.params.channelId;
+        const redundantId: string | undefined = req.params.redundantId;
         const fullPath = req.path;
         
         this.logger.debug(`Full path: ${fullPath}`);
-        this.logger.debug(`Channel ID: ${channelId}`);
+        this.logger.debug(`Channel ID: ${channelId}, Redundant ID: ${redundantId || '-'}`);
         this.logger.debug(`Original URL: ${req.originalUrl}`);
         this.logger.debug(`Request params: ${JSON.stringify(req.params)}`);
         
-        // 세그먼트 상대 경로 추출 - MediaPackage v2 스타일과 일반 스타일 모두 지원
-        let segmentPathFull = '';
-        let isMediaPackageV2 = false;
-        
-        if (fullPath.startsWith('/in/v2/')) {
-            isMediaPackageV2 = true;
-            // MediaPackage v2 스타일 URL: /in/v2/{channelId}/{redundantId}/{segmentPath}
-            if (req.params.segmentPath) {
-                segmentPathFull = req.params.segmentPath;
-                this.logger.debug(`MediaPackage v2 style path detected, segment path: ${segmentPathFull}`);
-            } else {
-                // segmentPath 매개변수가 없는 경우 (채널 엔드포인트인 경우)
-                this.logger.error(`MediaPackage v2 style URL without segment path: ${fullPath}`);
-                res.status(400).send('Bad Request: Missing segment path');
-                return;
-            }
-        } else {
-            // 기존 스타일 URL: /live/{channelId}/{segmentPath}
-            const segmentPathRegex = new RegExp(`^/live/${channelId}/(.+)$`);
-            const match = fullPath.match(segmentPathRegex);
-            segmentPathFull = match ? match[1] : '';
-            this.logger.debug(`Standard style path detected, segment path: ${segmentPathFull}`);
-        }
-        
-        if (!segmentPathFull) {
+        // 세그먼트 경로 추출 (채널/파이프라인 루트 기준) - MediaPackage v2 스타일과 일반 스타일 모두 지원
+        const pathInfo = parseIngestPath(fullPath);
+        const segmentUriRelative = pathInfo ? normalizeIngestPath(pathInfo.filename) : '';
+
+        if (!segmentUriRelative || isOutsidePipelineRoot(segmentUriRelative)) {
             this.logger.error(`Could not extract segment path from URL: ${fullPath}`);
             res.status(400).send('Bad Request: Could not determine segment path');
             return;
         }
-        
-        // 파일명만 추출 (경로에서 마지막 부분만 사용)
-        const segmentUriRelative = segmentPathFull.includes('/') 
-            ? segmentPathFull.split('/').pop() || segmentPathFull
-            : segmentPathFull;
-            
-        this.logger.debug(`Final segment relative path: ${segmentUriRelative}`);
-        this.logger.debug(`Full segment path: ${segmentPathFull}`);
-        
-        const rawBody = (req as any).rawBody;
 
-        if (!rawBody) {
+        this.logger.debug(`Segment path relative to the ${redundantId ? 'pipeline' : 'channel'} root: ${segmentUriRelative}`);
+
+        const uploadedFile = req.uploadedFile;
+        const rawBody = req.rawBody;
+
+        if (!uploadedFile && !rawBody) {
             this.logger.error(`[${channelId}] Received PUT for ${fullPath} but no body found.`);
             res.status(400).send('Bad Request: Missing body');
             return;
         }
 
-        this.logger.info(`[${channelId}] Received PUT for TS: ${fullPath} (${rawBody.length} bytes)`);
+        const size = uploadedFile ? uploadedFile.size : rawBody!.length;
+        const uploadDurationMs = uploadedFile?.durationMs;
 
-        // Store the TS file
-        const filePath = path.join(this.mockStoragePath, channelId, segmentUriRelative);
+        this.logger.info(`[${channelId}] Received PUT for segment: ${fullPath} (${size} bytes)`);
+
+        // Store the segment file - 스트리밍된 임시 파일은 최종 경로로 원자적으로 rename (하위 경로 유지)
+        const filePath = path.join(getStorageDir(this.mockStoragePath, channelId, redundantId), segmentUriRelative);
         this.logger.debug(`Storing file at: ${filePath}`);
         
         try {
-            fs.mkdirSync(path.dirname(filePath), { recursive: true });
-            fs.writeFileSync(filePath, rawBody);
+            await fs.promises.mkdir(path.dirname(filePath), { recursive: true });
+            if (uploadedFile) {
+                await fs.promises.rename(uploadedFile.tempPath, filePath);
+            } else {
+                await fs.promises.writeFile(filePath, rawBody!);
+            }
             this.logger.debug(`Successfully wrote file to: ${filePath}`);
         } catch (error) {
             this.logger.error(`[${channelId}] Failed to write segment file to ${filePath}`, error);
+            if (uploadedFile) {
+                fs.unlink(uploadedFile.tempPath, () => undefined);
+            }
             res.status(500).send('Internal Server Error: Failed to write file');
             return;
         }
 
+        this.channelLifecycle?.recordSegment(channelId, segmentUriRelative);
+
+        // MPEG-TS 페이로드 검사 (패킷 동기, PAT/PMT, continuity counter, PTS 기반 실제 길이, 키프레임)
+        const payload = this.inspectPayload(channelId, segmentUriRelative, uploadedFile, rawBody);
+
+        // 모든 업로드 시도를 내용 해시와 함께 기록 (재시도, 동일한 재업로드, 내용이 바뀐 덮어쓰기 구분)
+        const hash = uploadedFile ? uploadedFile.sha256 : crypto.createHash('sha256').update(rawBody!).digest('hex');
+        const uploadedAt = Date.now();
+        const attempt = this.uploadHistory?.record({
+            uri: segmentUriRelative,
+            channelId,
+            redundantId,
+            hash,
+            size,
+            receivedAt: uploadedAt,
+            uploadDurationMs
+        });
+        this.eventBus?.emit('segment-uploaded', {
+            channelId,
+            redundantId,
+            at: uploadedAt,
+            uri: segmentUriRelative,
+            size,
+            hash,
+            outcome: attempt?.outcome,
+            uploadDurationMs
+        });
+
         // Find and update the corresponding M3U8 tracking info
         let foundSegment = false;
-        
-        // 세그먼트 매칭을 위한 키 추출
-        let baseFilename = '';
-        const possibleKeys = new Set<string>();
-        
-        // 기본 키 추가 (최초 플레이리스트)
-        possibleKeys.add(`${channelId}/playlist.m3u8`);
-        
-        // 세그먼트 파일명에서 베이스 파일명 추출
-        if (segmentUriRelative.endsWith('.ts')) {
-            const filenameWithoutExt = segmentUriRelative.replace(/\.[^.]+$/, '');
-            
-            if (filenameWithoutExt.includes('_')) {
-                // channel_845548_23.ts -> channel_845548
-                const parts = filenameWithoutExt.split('_');
-                if (parts.length >= 2) {
-                    baseFilename = parts.slice(0, parts.length - 1).join('_');
-                    possibleKeys.add(`${channelId}/${baseFilename}.m3u8`);
-                }
-                
-                // 추가 패턴 시도 (첫 부분만, 등)
-                if (parts.length >= 1) {
-                    possibleKeys.add(`${channelId}/${parts[0]}.m3u8`);
-                }
-            } else {
-                // 단순 파일명
-                baseFilename = filenameWithoutExt;
-                possibleKeys.add(`${channelId}/${baseFilename}.m3u8`);
+
+        // 같은 채널/파이프라인의 M3U8 (현재 윈도우가 모두 수신되었더라도 윈도우에서 빠진 세그먼트가 늦게 도착할 수 있음)
+        const candidates = Array.from(this.streamTracker.entries()).filter(([, info]) =>
+            info.channelId === channelId && info.redundantId === redundantId
+        );
+
+        // 1. 정확한 경로 매칭 (플레이리스트 URL 기준으로 해석된 세그먼트 경로 == 업로드 경로, 세션 원장 포함)
+        for (const [m3u8Key, trackingInfo] of candidates) {
+            const segmentInfo = findSessionSegment(trackingInfo, segmentUriRelative);
+            if (segmentInfo && !segmentInfo.received) {
+                this.updateSegmentInfo(trackingInfo, m3u8Key, segmentInfo, segmentUriRelative, size, uploadDurationMs, payload);
+                foundSegment = true;
+                break;
             }
         }
-        
-        this.logger.debug(`Looking for segment ${segmentUriRelative} in possible M3U8 keys: [${Array.from(possibleKeys).join(', ')}]`);
-        
-        // 가능한 모든 키에 대해 세그먼트 매칭 시도
-        for (const m3u8Key of possibleKeys) {
-            const trackingInfo = this.streamTracker.get(m3u8Key);
-            if (!trackingInfo || trackingInfo.channelId !== channelId || trackingInfo.allSegmentsReceived) {
-                continue;
-            }
-            
-            this.logger.debug(`Checking tracking info for ${m3u8Key} - has ${trackingInfo.segments.size} segments`);
-            
-            // 직접 매칭 시도
-            if (trackingInfo.segments.has(segmentUriRelative)) {
-                const segmentInfo = trackingInfo.segments.get(segmentUriRelative);
-                if (segmentInfo && !segmentInfo.received) {
-                    // 세그먼트 정보 업데이트
-                    this.updateSegmentInfo(trackingInfo, m3u8Key, segmentInfo, segmentUriRelative, rawBody.length);
+
+        // 2. 명시적으로 설정된 경우에만 미디어 시퀀스 번호 또는 유사 이름으로 매칭
+        if (!foundSegment && this.segmentMatching !== 'exact') {
+            for (const [m3u8Key, trackingInfo] of candidates) {
+                const matchedSegmentKey = this.segmentMatching === 'sequence'
+                    ? this.findSegmentBySequence(segmentUriRelative, trackingInfo)
+                    : this.findSimilarSegment(segmentUriRelative, trackingInfo);
+                if (matchedSegmentKey) {
+                    const segmentInfo = trackingInfo.segments.get(matchedSegmentKey)!;
+                    this.recordInexactMatch(trackingInfo, segmentUriRelative, matchedSegmentKey);
+                    this.updateSegmentInfo(trackingInfo, m3u8Key, segmentInfo, matchedSegmentKey, size, uploadDurationMs, payload);
                     foundSegment = true;
                     break;
                 }
             }
-            
-            // 직접 매칭이 실패하면 유사 세그먼트 찾기 시도
-            if (!foundSegment && isMediaPackageV2) {
-                const matchedSegmentKey = this.findSimilarSegment(segmentUriRelative, trackingInfo);
-                if (matchedSegmentKey) {
-                    const segmentInfo = trackingInfo.segments.get(matchedSegmentKey);
-                    if (segmentInfo && !segmentInfo.received) {
-                        this.logger.debug(`Found similar segment ${matchedSegmentKey} for received segment ${segmentUriRelative}`);
-                        this.updateSegmentInfo(trackingInfo, m3u8Key, segmentInfo, matchedSegmentKey, rawBody.length);
-                        foundSegment = true;
-                        break;
-                    }
-                }
-            }
         }
-        
-        // 매칭되는 세그먼트를 찾지 못했지만 추가할 수 있는 트래킹 정보가 있는 경우
-        if (!foundSegment && possibleKeys.size > 0) {
-            for (const m3u8Key of possibleKeys) {
-                const trackingInfo = this.streamTracker.get(m3u8Key);
-                if (trackingInfo && trackingInfo.channelId === channelId && !trackingInfo.allSegmentsReceived) {
-                    // 새 세그먼트 추가
-                    const now = Date.now();
-                    const segmentInfo = {
-                        uri: segmentUriRelative,
-                        duration: 2, // 기본 지속시간
-                        received: true,
-                        receivedAt: now,
-                        size: rawBody.length,
-                        firstSeenAt: now
-                    };
-                    
-                    trackingInfo.segments.set(segmentUriRelative, segmentInfo);
-                    
-                    // 세그먼트 수신 간격 추적
-                    if (trackingInfo.lastSegmentReceivedTime > 0) {
-                        const interval = now - trackingInfo.lastSegmentReceivedTime;
-                        if (!trackingInfo.segmentArrivalIntervals) {
-                            trackingInfo.segmentArrivalIntervals = [];
-                        }
-                        trackingInfo.segmentArrivalIntervals.push(interval);
-                        if (trackingInfo.segmentArrivalIntervals.length > 20) {
-                            trackingInfo.segmentArrivalIntervals.shift();
-                        }
-                    }
-                    
-                    trackingInfo.lastSegmentReceivedTime = now;
-                    
-                    this.logger.info(`[${channelId}] Added new segment ${segmentUriRelative} to M3U8 ${trackingInfo.m3u8Uri}.`);
-                    foundSegment = true;
-                    break;
+
+        // 플레이리스트보다 먼저 도착한 세그먼트는 이후 플레이리스트가 알릴 때까지 보관
+        if (!foundSegment) {
+            const receivedSegment = candidates
+                .map(([, info]) => findSessionSegment(info, segmentUriRelative))
+                .find(segment => segment?.received);
+            if (receivedSegment) {
+                // 수신 시각은 첫 업로드 기준으로 유지하고, 내용이 바뀐 경우 크기/페이로드는 저장된 파일 기준으로 갱신
+                if (attempt?.outcome === 'replaced') {
+                    receivedSegment.size = size;
+                    receivedSegment.payload = payload;
+                } else if (!attempt) {
+                    this.logger.warn(`[${channelId}] Received segment ${segmentUriRelative} again after it was already received.`);
                 }
+                foundSegment = true;
+            } else if (this.pendingSegmentPool) {
+                this.pendingSegmentPool.add({ uri: segmentUriRelative, channelId, redundantId, size, receivedAt: Date.now(), uploadDurationMs, payload });
+                this.logger.info(`[${channelId}] Segment ${segmentUriRelative} is not in any playlist yet, holding it until a playlist references it.`);
+                foundSegment = true;
             }
         }
 
         if (!foundSegment) {
-            this.logger.warn(`[${channelId}] Received TS segment ${segmentUriRelative} but it was not expected or already timed out/completed.`);
+            this.logger.warn(`[${channelId}] Received segment ${segmentUriRelative} but it was not expected or already timed out/completed.`);
             // 디버깅을 위한 추가 정보 로깅
             this.logger.debug(`Available M3U8 keys in tracker: [${Array.from(this.streamTracker.keys()).join(', ')}]`);
             
             for (const [key, info] of this.streamTracker.entries()) {
-                if (info.channelId === channelId) {
+                if (info.channelId === channelId && info.redundantId === redundantId) {
                     this.logger.debug(`Segments in ${key}: [${Array.from(info.segments.keys()).slice(0, 5).join(', ')}${info.segments.size > 5 ? '...' : ''}]`);
                 }
             }
@@ -212,40 +213,51 @@ export class SegmentHandler {
     };
     
     // 세그먼트 정보 업데이트
-    private updateSegmentInfo(trackingInfo: M3u8TrackingInfo, m3u8Key: string, segmentInfo: any, segmentKey: string, size: number): void {
+    private updateSegmentInfo(
+        trackingInfo: M3u8TrackingInfo,
+        m3u8Key: string,
+        segmentInfo: SegmentInfo,
+        segmentKey: string,
+        size: number,
+        uploadDurationMs?: number,
+        payload?: TsInspection
+    ): void {
         const now = Date.now();
         
         // 전송 지연 계산 (플레이리스트에 등장한 시점부터 수신까지)
         const transferDelay = now - (segmentInfo.firstSeenAt || now);
         this.logger.debug(`[${trackingInfo.channelId}] Segment ${segmentKey} transfer delay: ${transferDelay}ms`);
         
-        // 세그먼트 정보 업데이트
-        segmentInfo.received = true;
-        segmentInfo.receivedAt = now;
-        segmentInfo.size = size;
-        
-        // 연속 타임아웃 카운터 초기화
-        trackingInfo.successiveTimeouts = 0;
+        // 세그먼트 정보, 연속 타임아웃 카운터, 도착 간격(지터 계산용) 업데이트
+        const state = recordSegmentArrival(trackingInfo, segmentInfo, { receivedAt: now, size, uploadDurationMs, payload });
+
+        const durationMismatch = getDurationMismatch(segmentInfo);
+        if (durationMismatch !== undefined) {
+            this.logger.warn(`[${trackingInfo.channelId}] Segment ${segmentKey} contains ${segmentInfo.payload!.durationSeconds!.toFixed(3)}s of media but #EXTINF declares ${segmentInfo.duration}s`);
+        }
         
-        // 마지막 세그먼트 수신 시간 업데이트
-        const previousTime = trackingInfo.lastSegmentReceivedTime;
-        trackingInfo.lastSegmentReceivedTime = now;
+        const segmentEvent = {
+            channelId: trackingInfo.channelId,
+            redundantId: trackingInfo.redundantId,
+            at: now,
+            m3u8Key,
+            m3u8Uri: trackingInfo.m3u8Uri,
+            uri: segmentKey,
+            mediaSequence: segmentInfo.mediaSequence
+        };
+        this.eventBus?.emit('segment-received', { ...segmentEvent, state, size, preAnnounced: false, transferDelayMs: transferDelay, uploadDurationMs });
         
-        // 세그먼트 도착 간격 계산 및 저장 (지터 계산용)
-        if (previousTime > 0) {
-            const arrivalInterval = now - previousTime;
-            if (!trackingInfo.segmentArrivalIntervals) {
-                trackingInfo.segmentArrivalIntervals = [];
-            }
-            trackingInfo.segmentArrivalIntervals.push(arrivalInterval);
-            if (trackingInfo.segmentArrivalIntervals.length > 20) {
-                trackingInfo.segmentArrivalIntervals.shift();
-            }
+        if (state === 'late') {
+            this.eventBus?.emit('segment-late', { ...segmentEvent, lateByMs: segmentInfo.lateByMs });
+            this.logger.warn(`[${trackingInfo.channelId}] Segment ${segmentKey} for M3U8 ${trackingInfo.m3u8Uri} arrived late (${segmentInfo.lateByMs ?? 0}ms past its deadline, ${transferDelay}ms after it was announced).`);
+        } else {
+            this.logger.info(`[${trackingInfo.channelId}] Marked segment ${segmentKey} as received for M3U8 ${trackingInfo.m3u8Uri}.`);
         }
         
-        this.logger.info(`[${trackingInfo.channelId}] Marked segment ${segmentKey} as received for M3U8 ${trackingInfo.m3u8Uri}.`);
-        
-        // 모든 세그먼트가 수신되었는지 확인
+        // 현재 윈도우의 모든 세그먼트가 수신되었는지 확인 (윈도우에서 빠진 세그먼트의 늦은 도착은 제외)
+        if (trackingInfo.allSegmentsReceived) {
+            return;
+        }
         let allReceived = true;
         for (const segInfo of trackingInfo.segments.values()) {
             if (!segInfo.received) {
@@ -260,25 +272,56 @@ export class SegmentHandler {
             if (trackingInfo.timeoutId) {
                 clearTimeout(trackingInfo.timeoutId);
                 trackingInfo.timeoutId = undefined;
-                this.logger.debug(`Cleared timeout for ${m3u8Key} as all segments received.`);
+                trackingInfo.nextDeadlineAt = undefined;
+                this.logger.debug(`Cleared deadline check for ${m3u8Key} as all segments received.`);
             }
         }
     }
     
-    // 유사한 세그먼트 찾기 (패턴 매칭)
+    // 스트리밍된 업로드는 미들웨어가 수신 중에 검사한 결과를 사용 (파일을 다시 읽지 않음), 버퍼링된 본문은 메모리에서 검사
+    private inspectPayload(channelId: string, segmentUri: string, uploadedFile?: UploadedFile, rawBody?: Buffer): TsInspection | undefined {
+        if (!this.inspectSegments || path.posix.extname(segmentUri).toLowerCase() !== '.ts') {
+            return undefined;
+        }
+        const payload = uploadedFile ? uploadedFile.payload : inspectTransportStream(rawBody!);
+        if (payload && payload.problems.length > 0) {
+            this.logger.warn(`[${channelId}] Segment ${segmentUri} payload problems: ${payload.problems.join('; ')}`);
+        }
+        return payload;
+    }
+
+    // 업로드 파일명의 마지막 숫자를 미디어 시퀀스 번호로 보고 같은 디렉토리의 미수신 세그먼트와 매칭
+    private findSegmentBySequence(segmentUri: string, trackingInfo: M3u8TrackingInfo): string | null {
+        const numberMatch = path.posix.basename(segmentUri).replace(/\.[^.]+$/, '').match(/(\d+)(?!.*\d)/);
+        if (!numberMatch) {
+            return null;
+        }
+        const sequence = parseInt(numberMatch[1], 10);
+        const segmentDir = path.posix.dirname(segmentUri);
+
+        for (const [key, info] of trackingInfo.segments.entries()) {
+            if (info.kind !== 'init' && !info.received && info.mediaSequence === sequence
+                && path.posix.dirname(key) === segmentDir) {
+                return key;
+            }
+        }
+        return null;
+    }
+
+    // 유사한 세그먼트 찾기 (패턴 매칭) - segmentMatching: fuzzy 모드 전용
     private findSimilarSegment(segmentUri: string, trackingInfo: M3u8TrackingInfo): string | null {
-        if (!segmentUri.endsWith('.ts')) {
+        if (!isSegmentFilename(segmentUri)) {
             return null;
         }
         
-        const segmentName = segmentUri.replace(/\.[^.]+$/, ''); // 확장자 제거
+        const segmentName = path.posix.basename(segmentUri).replace(/\.[^.]+$/, ''); // 확장자 제거
         
         for (const [key, info] of trackingInfo.segments.entries()) {
-            if (!key.endsWith('.ts') || info.received) {
+            if (!isSegmentFilename(key) || info.received) {
                 continue;
             }
             
-            const keyName = key.replace(/\.[^.]+$/, '');
+            const keyName = path.posix.basename(key).replace(/\.[^.]+$/, '');
             
             // 패턴 1: 마지막 숫자만 다른 경우 (channel_845548_23.ts vs channel_845548_24.ts)
             if (segmentName.includes('_') && keyName.includes('_')) {
@@ -304,4 +347,15 @@ export class SegmentHandler {
         
         return null;
     }
-} 
\ No newline at end of file
+
+    // 정확하지 않은 매칭은 모두 집계하고 최근 항목을 보고 (잘못된 세그먼트가 수신 처리될 수 있음)
+    private recordInexactMatch(trackingInfo: M3u8TrackingInfo, uploadedUri: string, matchedUri: string): void {
+        const mode = this.segmentMatching === 'sequence' ? 'sequence' : 'fuzzy';
+        trackingInfo[mode === 'sequence' ? 'sequenceMatches' : 'fuzzyMatches']++;
+        trackingInfo.inexactMatches.push({ mode, uploadedUri, matchedUri, at: Date.now() });
+        if (trackingInfo.inexactMatches.length > MAX_RECORDED_INEXACT_MATCHES) {
+            trackingInfo.inexactMatches.shift();
+        }
+        this.logger.warn(`[${trackingInfo.channelId}] ${mode} match: uploaded segment ${uploadedUri} marked ${matchedUri} as received in ${trackingInfo.m3u8Uri}`);
+    }
+}
@@ -1,11 +1,29 @@
 import express, { Request, Response, NextFunction } from 'express';
 import path from 'path';
 import fs from 'fs';
-import { M3u8TrackingInfo } from './types';
+import { M3u8TrackingInfo, MasterPlaylistInfo } from './types';
 import { M3u8Handler } from './handlers/m3u8Handler';
 import { SegmentHandler } from './handlers/segmentHandler';
-import { ReportGenerator } from './utils/reportGenerator';
+import { DeleteHandler } from './handlers/deleteHandler';
+import { EgressHandler } from './handlers/egressHandler';
+import { REPORT_METRIC_GROUPS, ReportFilter, ReportGenerator, ReportMetricGroup } from './utils/reportGenerator';
 import { CleanupManager } from './utils/cleanupManager';
+import { createUploadMiddleware } from './utils/uploadStream';
+import { FaultInjector, FaultRuleError } from './utils/faultInjector';
+import { IngestAuthenticator } from './utils/ingestAuth';
+import { ChannelRegistry, ChannelRegistryError } from './utils/channelRegistry';
+import { HlsValidator } from './utils/hlsValidator';
+import { PendingSegmentPool } from './utils/pendingSegmentPool';
+import { UploadHistory } from './utils/uploadHistory';
+import { TrackerStore } from './utils/trackerStore';
+import { ChannelLifecycleTracker } from './utils/channelLifecycle';
+import { IngestEventBus } from './utils/eventBus';
+import { loadPlugins } from './utils/pluginLoader';
+import { RemotePlaylistFetcher } from './utils/remotePlaylistFetcher';
+import { MetricsExporter } from './utils/metricsExporter';
+import { LatencyPercentileTracker } from './utils/latencySketch';
+import { MetricsHistory } from './utils/metricsHistory';
+import { getContentType, getIngestFileType, getTrackingKey, isSegmentFilename } from './utils/ingestPath';
 import logger from './utils/logger';
 import { ConfigLoader } from './utils/configLoader';
 import { reloadLoggerConfig } from './utils/logger';
@@ -17,6 +35,15 @@ const storageConfig = configLoader.getStorageConfig();
 const streamingConfig = configLoader.getStreamingConfig();
 const cleanupConfig = configLoader.getCleanupConfig();
 const reportsConfig = configLoader.getReportsConfig();
+const faultInjectionConfig = configLoader.getFaultInjectionConfig();
+const authConfig = configLoader.getAuthConfig();
+const egressConfig = configLoader.getEgressConfig();
+const provisioningConfig = configLoader.getProvisioningConfig();
+const validationConfig = configLoader.getValidationConfig();
+const persistenceConfig = configLoader.getPersistenceConfig();
+const historyConfig = configLoader.getHistoryConfig();
+const remoteFetchConfig = configLoader.getRemoteFetchConfig();
+const pluginsConfig = configLoader.getPluginsConfig();
 
 const storagePath = storageConfig.path;
 
@@ -27,23 +54,94 @@ if (!fs.existsSync(storagePath)) {
 
 // Initialize stream tracker
 const streamTracker: Map<string, M3u8TrackingInfo> = new Map();
+const masterTracker: Map<string, MasterPlaylistInfo> = new Map();
+
+// Initialize event bus for ingest and tracking events (handlers publish, report/exporters/plugins subscribe)
+const eventBus = new IngestEventBus(logger);
+
+// Initialize HLS conformance validator
+const hlsValidator = validationConfig.enabled ? new HlsValidator(logger) : undefined;
+
+// Initialize pool for segments uploaded before the playlist that references them
+const pendingSegmentPool = new PendingSegmentPool(streamingConfig.pendingSegmentWindow, logger);
+const uploadHistory = new UploadHistory(logger);
+
+// Initialize channel lifecycle tracking (idle -> active -> stalled -> recovered -> ended)
+const channelLifecycle = new ChannelLifecycleTracker(streamingConfig.stallTargetDurations, logger, { eventBus });
+
+// Initialize latency percentile sketches (transfer delay, arrival interval, M3U8 update interval)
+const latencyPercentiles = new LatencyPercentileTracker(streamingConfig.latencyWindowsSeconds, logger, { eventBus });
+const metricsExporter = new MetricsExporter(logger);
+
+// Initialize fetcher for playlist URLs sent as PUT bodies
+const remotePlaylistFetcher = new RemotePlaylistFetcher(remoteFetchConfig, logger);
 
 // Initialize handlers
 const m3u8Handler = new M3u8Handler(
     streamTracker,
+    masterTracker,
     storagePath,
     streamingConfig.segmentTimeout,
-    logger
+    logger,
+    {
+        hlsValidator,
+        rejectInvalidPlaylists: validationConfig.rejectInvalidPlaylists,
+        pendingSegmentPool,
+        channelLifecycle,
+        eventBus,
+        remotePlaylistFetcher,
+        maxLedgerEntries: streamingConfig.maxLedgerEntries
+    }
 );
 
 const segmentHandler = new SegmentHandler(
     streamTracker,
     storagePath,
+    logger,
+    {
+        segmentMatching: streamingConfig.segmentMatching,
+        pendingSegmentPool,
+        inspectSegments: streamingConfig.inspectSegments,
+        uploadHistory,
+        channelLifecycle,
+        eventBus
+    }
+);
+
+const deleteHandler = new DeleteHandler(
+    streamTracker,
+    masterTracker,
+    storagePath,
     logger
 );
 
+const egressHandler = new EgressHandler(
+    streamTracker,
+    masterTracker,
+    storagePath,
+    egressConfig.windowSeconds,
+    logger
+);
+
+// Initialize fault injector
+const faultInjector = new FaultInjector(faultInjectionConfig, logger);
+
+// Initialize ingest authenticator
+const ingestAuthenticator = new IngestAuthenticator(authConfig, logger);
+
+// Initialize channel registry (MediaPackage-style provisioning API)
+const channelRegistry = new ChannelRegistry({
+    requireProvisionedChannels: provisioningConfig.requireProvisionedChannels,
+    ingestAuthenticator,
+    channelLifecycle,
+    loggerInstance: logger
+});
+
 // Initialize report generator
-const reportGenerator = new ReportGenerator(storagePath, streamTracker, logger);
+const reportGenerator = new ReportGenerator(storagePath, streamTracker, logger, { faultInjector, ingestAuthenticator, masterTracker, hlsValidator, pendingSegmentPool, uploadHistory, channelLifecycle, eventBus, remotePlaylistFetcher, latencyPercentiles });
+
+// Load user plugins subscribed to the event bus
+loadPlugins(pluginsConfig.modules, eventBus, logger);
 
 // Initialize cleanup manager
 const cleanupManager = new CleanupManager(
@@ -52,10 +150,38 @@ const cleanupManager = new CleanupManager(
         isEnabled: cleanupConfig.enabled,
         retentionPeriodMs: cleanupConfig.retentionPeriodHours * 60 * 60 * 1000, // Convert hours to ms
         cleanupIntervalMs: cleanupConfig.intervalMinutes * 60 * 1000, // Convert minutes to ms
+        streamTracker,
         loggerInstance: logger
     }
 );
 
+// Initialize tracker state persistence and restore the state saved before the last restart
+const trackerStore = new TrackerStore(
+    storagePath,
+    streamTracker,
+    masterTracker,
+    {
+        isEnabled: persistenceConfig.enabled,
+        saveIntervalMs: persistenceConfig.intervalSeconds * 1000,
+        loggerInstance: logger
+    }
+);
+trackerStore.restore();
+m3u8Handler.resumeDeadlineChecks();
+
+// Record per-channel metric snapshots for GET /history (kept across restarts)
+const metricsHistory = new MetricsHistory(
+    storagePath,
+    reportGenerator,
+    {
+        isEnabled: historyConfig.enabled,
+        resolutionMs: historyConfig.resolutionSeconds * 1000,
+        retentionMs: historyConfig.retentionHours * 60 * 60 * 1000,
+        loggerInstance: logger
+    }
+);
+metricsHistory.restore();
+
 // Create Express app
 const app = express();
 
@@ -65,22 +191,17 @@ setInterval(() => {
     reportGenerator.saveReport(reportPath);
 }, reportsConfig.intervalMinutes * 60 * 1000); // Convert minutes to ms
 
-// Middleware to get raw body for PUT requests
-app.use((req: Request, res: Response, next: NextFunction) => {
-    if (req.method === 'PUT') {
-        const data: Buffer[] = [];
-        req.on('data', chunk => {
-            data.push(chunk);
-        });
-        req.on('end', () => {
-            (req as any).rawBody = Buffer.concat(data);
-            logger.http(`[${req.method}] ${req.originalUrl} - Body length: ${(req as any).rawBody?.length || 0}`);
-            next();
-        });
-    } else {
-        next();
-    }
-});
+// Reject ingest for unprovisioned channels (when enabled)
+app.use(channelRegistry.middleware());
+
+// Ingest authentication (Basic / Digest) for channels with credentials
+app.use(ingestAuthenticator.middleware());
+
+// Fault injection (must run before the body is consumed so connections can be dropped mid-body)
+app.use(faultInjector.middleware());
+
+// Middleware to get body for PUT requests (segments are streamed to disk, M3U8 is buffered)
+app.use(createUploadMiddleware(storagePath, logger, { inspectSegments: streamingConfig.inspectSegments }));
 
 // Log all requests
 app.use((req: Request, res: Response, next: NextFunction) => {
@@ -109,7 +230,7 @@ app.put('/in/v2/:channelId/:redundantId/channel', (req: Request, res: Response)
     logger.debug(`This is a playlist endpoint request (channel)`);
     
     // 트래킹 키 로깅 (디버깅용)
-    const trackingKey = `${req.params.channelId}/playlist.m3u8`;
+    const trackingKey = getTrackingKey(req.params.channelId, req.params.redundantId, 'playlist.m3u8');
     logger.debug(`Expected tracking key for channel endpoint: ${trackingKey}`);
     
     m3u8Handler.handlePut(req, res);
@@ -119,33 +240,8 @@ app.put('/in/v2/:channelId/:redundantId/channel', (req: Request, res: Response)
 app.put('/in/v2/:channelId/:redundantId/:segmentPath(*)', (req: Request, res: Response) => {
     logger.debug(`Request params for MediaPackage v2 style URL: ${JSON.stringify(req.params)}`);
     
-    // 트래킹 키 생성 로직 (디버깅용)
-    if (req.params.segmentPath.endsWith('.m3u8')) {
-        const m3u8Filename = req.params.segmentPath;
-        const baseFilename = m3u8Filename.replace(/\.[^.]+$/, '');
-        const trackingKey = `${req.params.channelId}/${baseFilename}.m3u8`;
-        logger.debug(`M3U8 request - expected tracking key: ${trackingKey}`);
-    } else if (req.params.segmentPath.endsWith('.ts')) {
-        const tsFilename = req.params.segmentPath;
-        const tsFilenameWithoutExt = tsFilename.replace(/\.[^.]+$/, '');
-        
-        // 가능한 트래킹 키 패턴들 생성
-        const possibleKeys = [];
-        
-        if (tsFilenameWithoutExt.includes('_')) {
-            const segmentNameParts = tsFilenameWithoutExt.split('_');
-            if (segmentNameParts.length >= 2) {
-                // 마지막 숫자 부분 제거 (예: channel_845548_23 -> channel_845548)
-                const baseNameWithoutNumber = segmentNameParts.slice(0, -1).join('_');
-                possibleKeys.push(`${req.params.channelId}/${baseNameWithoutNumber}.m3u8`);
-            }
-        }
-        
-        logger.debug(`TS segment request - possible tracking keys: ${possibleKeys.join(', ')}`);
-    }
-    
-    if (req.params.segmentPath.endsWith('.ts')) {
-        logger.debug(`TS segment handler triggered for MediaPackage v2 style URL: ${req.originalUrl}`);
+    if (isSegmentFilename(req.params.segmentPath)) {
+        logger.debug(`Segment handler triggered for MediaPackage v2 style URL: ${req.originalUrl}`);
         segmentHandler.handlePut(req, res);
     } else if (req.params.segmentPath.endsWith('.m3u8')) {
         logger.debug(`M3U8 handler triggered for MediaPackage v2 style URL: ${req.originalUrl}`);
@@ -162,9 +258,30 @@ app.put('/live/:channelId/:filename([^/]+\\.m3u8)', (req: Request, res: Response
     m3u8Handler.handlePut(req, res);
 });
 
-app.put('/live/:channelId/*.ts', (req: Request, res: Response) => {
-    logger.debug(`Segment handler triggered for: ${req.originalUrl}`);
-    segmentHandler.handlePut(req, res);
+// 세그먼트 업로드 (MPEG-TS, fMP4/CMAF: .ts, .m4s, .mp4, .cmfv, .cmfa, .aac)
+app.put('/live/:channelId/*', (req: Request, res: Response) => {
+    const fileType = getIngestFileType(req.params[0]);
+    if (fileType === 'segment') {
+        logger.debug(`Segment handler triggered for: ${req.originalUrl}`);
+        segmentHandler.handlePut(req, res);
+    } else if (fileType === 'playlist') {
+        logger.debug(`M3U8 handler triggered for: ${req.originalUrl}`);
+        m3u8Handler.handlePut(req, res);
+    } else {
+        logger.warn(`Unhandled file type for URL: ${req.originalUrl}`);
+        res.status(400).send('Unsupported file type');
+    }
+});
+
+// WebDAV DELETE 지원 - 윈도우에서 빠진 세그먼트 및 플레이리스트 삭제
+app.delete('/in/v2/:channelId/:redundantId/:segmentPath(*)', (req: Request, res: Response) => {
+    logger.debug(`Delete handler triggered for MediaPackage v2 style URL: ${req.originalUrl}`);
+    deleteHandler.handleDelete(req, res);
+});
+
+app.delete('/live/:channelId/*', (req: Request, res: Response) => {
+    logger.debug(`Delete handler triggered for: ${req.originalUrl}`);
+    deleteHandler.handleDelete(req, res);
 });
 
 // Basic GET handler for root
@@ -172,7 +289,7 @@ app.get('/', (req: Request, res: Response) => {
     res.send('MediaPackage Mock Server is running.');
 });
 
-// GET handler for M3U8 and TS files
+// GET handler for M3U8 and segment files
 app.get('/live/:channelId/*', (req: Request, res: Response) => {
     const filePath = path.join(storagePath, req.params.channelId, req.params[0]);
     logger.info(`[GET] Serving file: ${filePath}`);
@@ -182,21 +299,91 @@ app.get('/live/:channelId/*', (req: Request, res: Response) => {
         return res.status(404).send('File not found');
     }
 
-    const contentType = filePath.endsWith('.m3u8') 
-        ? 'application/vnd.apple.mpegurl' 
-        : 'video/mp2t';
-    
-    res.setHeader('Content-Type', contentType);
+    res.setHeader('Content-Type', getContentType(filePath));
     res.sendFile(filePath);
 });
 
-// Report generation endpoint
+// Player-facing egress endpoint (origin-style live playlist generated from received segments)
+app.get('/out/v1/:channelId/*', (req: Request, res: Response) => {
+    logger.debug(`Egress handler triggered for: ${req.originalUrl}`);
+    egressHandler.handleGet(req, res);
+});
+
+// Report generation endpoint (?format=json for the versioned JSON report; both formats filtered by channel/pipeline/playlist, JSON also by groups)
 app.get('/report', (req: Request, res: Response) => {
-    const report = reportGenerator.generateReport();
+    const { channel, pipeline, playlist, groups } = req.query;
+    const filter: ReportFilter = {
+        channelId: typeof channel === 'string' ? channel : undefined,
+        redundantId: typeof pipeline === 'string' ? pipeline : undefined,
+        playlist: typeof playlist === 'string' ? playlist : undefined
+    };
+
+    if (req.query.format === 'json') {
+        const requestedGroups = typeof groups === 'string' ? groups.split(',').map(group => group.trim()).filter(group => group) : undefined;
+        const unknownGroups = (requestedGroups || []).filter(group => !(group in REPORT_METRIC_GROUPS));
+        if (unknownGroups.length > 0) {
+            return res.status(400).json({
+                error: 'Invalid report query',
+                message: `Unknown metric group(s): ${unknownGroups.join(', ')} (valid: ${Object.keys(REPORT_METRIC_GROUPS).join(', ')})`
+            });
+        }
+
+        return res.status(200).json(reportGenerator.generateJsonReport({ ...filter, groups: requestedGroups as ReportMetricGroup[] | undefined }));
+    }
+
+    const report = reportGenerator.generateReport(filter);
     res.setHeader('Content-Type', 'text/plain');
     res.send(report);
 });
 
+// Prometheus metrics endpoint (segment counts from the live stream tracker, histograms accumulated from ingest events)
+app.get('/metrics', (req: Request, res: Response) => {
+    res.setHeader('Content-Type', 'text/plain; version=0.0.4; charset=utf-8');
+    res.send(metricsExporter.render(streamTracker));
+});
+
+// Metric history endpoint - from/to는 epoch 밀리초 또는 ISO 8601, step은 초 단위
+const parseHistoryTime = (value: unknown): number | undefined => {
+    if (typeof value !== 'string' || value === '') {
+        return undefined;
+    }
+    return /^\d+$/.test(value) ? Number(value) : Date.parse(value);
+};
+
+app.get('/history', (req: Request, res: Response) => {
+    if (!historyConfig.enabled) {
+        return res.status(404).json({ error: 'Metrics history is disabled' });
+    }
+
+    const { channel, from, to, step } = req.query;
+    const fromMs = parseHistoryTime(from);
+    const toMs = parseHistoryTime(to);
+    const stepSeconds = typeof step === 'string' && step !== '' ? Number(step) : undefined;
+    if (Number.isNaN(fromMs) || Number.isNaN(toMs)) {
+        return res.status(400).json({ error: 'Invalid history query', message: '"from" and "to" must be epoch milliseconds or ISO 8601 timestamps' });
+    }
+    if (stepSeconds !== undefined && !(stepSeconds > 0)) {
+        return res.status(400).json({ error: 'Invalid history query', message: '"step" must be a positive number of seconds' });
+    }
+    if (fromMs !== undefined && toMs !== undefined && fromMs > toMs) {
+        return res.status(400).json({ error: 'Invalid history query', message: '"from" must not be after "to"' });
+    }
+
+    const series = metricsHistory.query({
+        channelId: typeof channel === 'string' ? channel : undefined,
+        from: fromMs,
+        to: toMs,
+        stepMs: stepSeconds !== undefined ? stepSeconds * 1000 : undefined
+    });
+    return res.status(200).json({
+        from: fromMs ?? null,
+        to: toMs ?? null,
+        step: stepSeconds ?? null,
+        resolutionSeconds: metricsHistory.getResolutionMs() / 1000,
+        series
+    });
+});
+
 // Add a log level configuration endpoint
 app.post('/config/loglevel', (req: Request, res: Response) => {
     try {
@@ -229,6 +416,140 @@ app.post('/config/loglevel', (req: Request, res: Response) => {
     }
 });
 
+// Channel provisioning API (mirrors MediaPackage CreateChannel/ListChannels/DescribeChannel/DeleteChannel)
+const sendChannelRegistryError = (res: Response, error: unknown) => {
+    if (error instanceof ChannelRegistryError) {
+        res.setHeader('x-amzn-ErrorType', error.errorType);
+        return res.status(error.statusCode).json({ message: error.message });
+    }
+    logger.error('Error handling channel request:', error);
+    return res.status(500).json({ message: 'Internal server error' });
+};
+
+const getBaseUrl = (req: Request) => `${req.protocol}://${req.get('host')}`;
+
+app.post('/channels', express.json(), (req: Request, res: Response) => {
+    try {
+        const { id, description, tags } = req.body || {};
+        const channel = channelRegistry.create(id, description, tags);
+        return res.status(200).json(channelRegistry.describe(channel, getBaseUrl(req)));
+    } catch (error) {
+        return sendChannelRegistryError(res, error);
+    }
+});
+
+// 채널 상태(idle/active/stalled/recovered/ended)와 상태 전이 이력
+const describeLifecycle = (channelId: string) => {
+    const lifecycle = channelLifecycle.get(channelId);
+    return {
+        state: lifecycle?.state ?? 'idle',
+        stateSince: lifecycle?.since,
+        lastActivityAt: lifecycle?.lastActivityAt,
+        stateHistory: lifecycle?.history ?? []
+    };
+};
+
+// 프로비저닝된 채널과 프로비저닝 없이 인제스트된 채널을 모두 나열
+app.get('/channels', (req: Request, res: Response) => {
+    const provisioned = channelRegistry.list()
+        .map(channel => ({ ...channelRegistry.describe(channel, getBaseUrl(req)), ...describeLifecycle(channel.id) }));
+    const ingestOnly = channelLifecycle.list()
+        .filter(lifecycle => !channelRegistry.has(lifecycle.channelId))
+        .map(lifecycle => ({ id: lifecycle.channelId, ...describeLifecycle(lifecycle.channelId) }));
+    res.status(200).json({ channels: [...provisioned, ...ingestOnly] });
+});
+
+app.get('/channels/:id', (req: Request, res: Response) => {
+    try {
+        if (!channelRegistry.has(req.params.id) && channelLifecycle.get(req.params.id)) {
+            return res.status(200).json({ id: req.params.id, ...describeLifecycle(req.params.id) });
+        }
+        const channel = channelRegistry.get(req.params.id);
+        return res.status(200).json({ ...channelRegistry.describe(channel, getBaseUrl(req)), ...describeLifecycle(channel.id) });
+    } catch (error) {
+        return sendChannelRegistryError(res, error);
+    }
+});
+
+app.delete('/channels/:id', (req: Request, res: Response) => {
+    try {
+        channelRegistry.delete(req.params.id);
+        return res.status(202).json({});
+    } catch (error) {
+        return sendChannelRegistryError(res, error);
+    }
+});
+
+// HLS conformance violation endpoints
+app.get('/violations', (req: Request, res: Response) => {
+    const channels: Record<string, unknown> = {};
+    for (const [channelId, records] of (hlsValidator?.getAllViolations() || new Map()).entries()) {
+        channels[channelId] = { ruleCounts: hlsValidator!.getRuleCounts(channelId), records };
+    }
+    res.status(200).json({ enabled: hlsValidator !== undefined, channels });
+});
+
+app.get('/violations/:channelId', (req: Request, res: Response) => {
+    const channelId = req.params.channelId;
+    res.status(200).json({
+        channelId,
+        ruleCounts: hlsValidator?.getRuleCounts(channelId) || {},
+        records: hlsValidator?.getViolations(channelId) || []
+    });
+});
+
+// Tracker reset endpoints - 세그먼트/카운터와 관련 기록(대기 풀, 업로드 기록, 적합성 위반, 메트릭 기록)을 의도적으로 초기화
+const resetTrackerState = (res: Response, channelId?: string) => {
+    const removed = trackerStore.reset(channelId);
+    pendingSegmentPool.reset(channelId);
+    uploadHistory.reset(channelId);
+    hlsValidator?.reset(channelId);
+    channelLifecycle.reset(channelId);
+    remotePlaylistFetcher.reset(channelId);
+    latencyPercentiles.reset(channelId);
+    metricsHistory.reset(channelId);
+    res.status(200).json({ success: true, channelId: channelId ?? null, removed });
+};
+
+app.post('/admin/reset', (req: Request, res: Response) => {
+    resetTrackerState(res);
+});
+
+app.post('/admin/reset/:channelId', (req: Request, res: Response) => {
+    resetTrackerState(res, req.params.channelId);
+});
+
+// Fault injection configuration endpoints
+app.get('/config/faults', (req: Request, res: Response) => {
+    const summaries: Record<string, unknown> = {};
+    for (const [channelId, summary] of faultInjector.getSummaries().entries()) {
+        summaries[channelId] = summary;
+    }
+    res.status(200).json({ ...faultInjector.getConfig(), summaries });
+});
+
+app.post('/config/faults', express.json(), (req: Request, res: Response) => {
+    try {
+        const { enabled, rules } = req.body || {};
+
+        if (enabled !== undefined && typeof enabled !== 'boolean') {
+            return res.status(400).json({ error: 'Invalid fault injection config', message: '"enabled" must be a boolean' });
+        }
+        if (rules !== undefined && !Array.isArray(rules)) {
+            return res.status(400).json({ error: 'Invalid fault injection config', message: '"rules" must be an array' });
+        }
+
+        const config = faultInjector.updateConfig({ enabled, rules });
+        return res.status(200).json({ success: true, config });
+    } catch (error) {
+        if (error instanceof FaultRuleError) {
+            return res.status(400).json({ error: 'Invalid fault injection config', message: error.message, ruleIndex: error.ruleIndex });
+        }
+        logger.error('Error updating fault injection config:', error);
+        return res.status(500).json({ error: 'Internal server error' });
+    }
+});
+
 // Error handler
 app.use((err: Error, req: Request, res: Response, next: NextFunction) => {
     logger.error('Unhandled error:', err);
@@ -254,8 +575,10 @@ app.listen(serverConfig.port, '0.0.0.0', () => {
     
     // 정리 작업 시작
     cleanupManager.start();
+    trackerStore.start();
+    metricsHistory.start();
     if (cleanupConfig.enabled) {
-        logger.info(`TS file cleanup enabled. Files will be kept for ${cleanupConfig.retentionPeriodHours} hours`);
+        logger.info(`Segment file cleanup enabled. Files will be kept for ${cleanupConfig.retentionPeriodHours} hours`);
     }
 });
 
@@ -263,11 +586,17 @@ app.listen(serverConfig.port, '0.0.0.0', () => {
 process.on('SIGINT', () => {
     logger.info('Shutting down server...');
     cleanupManager.stop();
+    trackerStore.stop();
+    metricsHistory.stop();
+    channelLifecycle.stop();
     process.exit(0);
 });
 
 process.on('SIGTERM', () => {
     logger.info('Received SIGTERM, shutting down server...');
     cleanupManager.stop();
+    trackerStore.stop();
+    metricsHistory.stop();
+    channelLifecycle.stop();
     process.exit(0);
 }); 
\ No newline at end of file
@@ -1,30 +1,248 @@
 import { Request } from 'express';
 
+export type SegmentKind = 'media' | 'init';  // 'init' = #EXT-X-MAP initialization section (fMP4/CMAF)
+
+// Lifecycle of a media segment in the session ledger
+// announced: listed in the playlist, not yet received / received: arrived before its timeout
+// late: arrived after its timeout or after leaving the window / missing: timed out while in the window
+// expired: slid out of the playlist window without being received
+export type SegmentState = 'announced' | 'received' | 'late' | 'missing' | 'expired';
+
 export interface SegmentInfo {
-    uri: string;
+    uri: string;                    // Path relative to the channel (or pipeline) root, resolved against the playlist URL
     duration: number;
+    kind?: SegmentKind;
+    mediaSequence?: number;
     received: boolean;
     receivedAt?: number;
     size?: number;
     firstSeenAt?: number;
+    preAnnounced?: boolean;         // Uploaded before any playlist referenced it (receivedAt precedes firstSeenAt)
+    deadlineAt?: number;            // Arrival deadline: first appearance in a playlist + target duration + buffer
     timeoutOccurred?: boolean;
+    lateByMs?: number;              // How long after its deadline (or window expiry) a late segment arrived
+    payload?: TsInspection;         // MPEG-TS payload inspection of the received segment
+    deletedAt?: number;
+    uploadDurationMs?: number;
+    arrivalIntervalMs?: number;     // Time since the previous segment reception of the playlist when this one arrived
+    state?: SegmentState;           // Lifecycle state (media segments with a media sequence)
+    expiredAt?: number;             // Timestamp the segment left the playlist window
+}
+
+export type SegmentMatchMode = 'exact' | 'sequence' | 'fuzzy';
+
+// Uploaded segment that was matched to a playlist entry with a different path
+export interface InexactSegmentMatch {
+    mode: Exclude<SegmentMatchMode, 'exact'>;
+    uploadedUri: string;    // Path of the uploaded segment relative to the pipeline root
+    matchedUri: string;     // Playlist entry that was marked as received
+    at: number;
+}
+
+// Count, sum and bounds of a value without keeping every sample
+export interface RunningStats {
+    count: number;
+    sum: number;
+    min?: number;
+    max?: number;
+    buckets?: number[];             // Cumulative counts per LATENCY_BUCKETS_MS bound (latency histograms only)
+}
+
+// Aggregate of media segments - used for ledger entries folded out of the ledger and for report totals
+export interface SegmentTotals {
+    segments: number;
+    states: Record<SegmentState, number>;
+    received: number;
+    missed: number;                 // Segments that timed out or left the window before they were received (late arrivals included)
+    bytes: number;
+    firstReceivedAt?: number;
+    lastReceivedAt?: number;
+    transferDelay: RunningStats;    // Playlist appearance -> reception (ms), segments uploaded after their playlist
+    preAnnounceLead: RunningStats;  // Upload -> playlist appearance (ms), segments uploaded before their playlist
+    lateness: RunningStats;         // Time late segments arrived past their deadline (ms)
+    uploadDuration: RunningStats;   // Time taken to receive segment bodies (ms)
+    arrivalInterval: RunningStats;  // Time between consecutive segment receptions (ms)
+    inspected: number;              // Received segments with an MPEG-TS payload inspection
+    payloadProblems: number;
+    durationMismatch: RunningStats; // Absolute PTS duration vs #EXTINF differences beyond the tolerance (seconds)
 }
 
 export interface M3u8TrackingInfo {
     m3u8Uri: string;
     targetDuration: number;
-    segments: Map<string, SegmentInfo>;
-    allSegmentsReceived: boolean;
+    segments: Map<string, SegmentInfo>;   // Segments of the current playlist window, keyed by URI
+    ledger: Map<number, SegmentInfo>;     // Media segments announced during the session, keyed by media sequence (oldest entries are compacted)
+    ledgerIndex: Map<string, SegmentInfo>; // Ledger entries keyed by URI
+    compactedSegments?: SegmentTotals;    // Totals of ledger entries compacted out of the ledger
+    allSegmentsReceived: boolean;         // All segments of the current window were received
     receivedAt: number;
     channelId: string;
-    timeoutId?: NodeJS.Timeout;
+    redundantId?: string;           // Ingest pipeline of /in/v2/{channelId}/{redundantId} URLs
+    timeoutId?: NodeJS.Timeout;     // Timer for the earliest pending segment deadline
+    nextDeadlineAt?: number;        // Deadline the timer is scheduled for
     lastSegmentReceivedTime: number;
+    firstSegmentReceivedAt?: number; // Earliest receivedAt of the session's media segments
+    lastSegmentReceivedAt?: number;  // Latest receivedAt of the session's media segments
     segmentArrivalTimeoutBufferMs: number;
     previousM3u8Updates: number[];  // Array of timestamps for previous M3U8 updates
     timeoutEvents: number;          // Count of timeout events for this M3U8
     successiveTimeouts: number;     // Count of successive timeout events
     maxSuccessiveTimeouts: number;  // Maximum number of successive timeouts observed
     segmentArrivalIntervals: number[]; // Array of intervals between segment arrivals (for jitter calculation)
+    deletedSegments: number;        // Count of segment DELETE requests for this M3U8
+    deletedUnreceivedSegments: number; // Count of deleted segments that were never received
+    deletedAt?: number;             // Timestamp of the DELETE request for the M3U8 itself
+    inexactMatches: InexactSegmentMatch[]; // Most recent segments matched by media sequence or fuzzy name matching
+    sequenceMatches: number;        // Count of segments matched by media sequence number
+    fuzzyMatches: number;           // Count of segments matched by similar names
+    playlist?: HlsPlaylist;         // Structured model of the latest playlist upload
+}
+
+// HLS playlist model (RFC 8216)
+export interface HlsTag {
+    name: string;        // Tag name without the leading '#', e.g. 'EXT-X-KEY'
+    value?: string;      // Everything after the first ':'
+    lineNumber: number;  // 1-based line number in the playlist
+}
+
+export interface HlsByteRange {
+    length: number;
+    offset: number;      // Resolved offset (implicit offsets continue from the previous sub-range)
+}
+
+export interface HlsKey {
+    method: string;      // NONE, AES-128, SAMPLE-AES, ...
+    uri?: string;
+    iv?: string;
+    keyFormat?: string;
+    keyFormatVersions?: string;
+}
+
+export interface HlsMap {
+    uri: string;
+    byteRange?: HlsByteRange;
+}
+
+export interface HlsSegment {
+    uri: string;
+    duration: number;
+    title?: string;
+    mediaSequence: number;
+    discontinuitySequence: number;
+    discontinuity: boolean;      // Preceded by #EXT-X-DISCONTINUITY
+    programDateTime?: number;    // #EXT-X-PROGRAM-DATE-TIME (epoch ms)
+    byteRange?: HlsByteRange;
+    key?: HlsKey;                // Key in effect for this segment (omitted for METHOD=NONE)
+    map?: HlsMap;                // Initialization section in effect for this segment
+    lineNumber: number;          // Line number of the segment URI
+}
+
+export interface HlsMediaPlaylist {
+    type: 'media';
+    version?: number;
+    targetDuration?: number;
+    mediaSequence: number;
+    discontinuitySequence: number;
+    playlistType?: string;       // VOD or EVENT
+    endList: boolean;
+    independentSegments: boolean;
+    segments: HlsSegment[];
+    tags: HlsTag[];
+}
+
+export interface HlsResolution {
+    width: number;
+    height: number;
+}
+
+export interface HlsVariantStream {
+    uri: string;
+    bandwidth?: number;
+    averageBandwidth?: number;
+    codecs?: string;
+    resolution?: HlsResolution;
+    frameRate?: number;
+    audio?: string;
+    video?: string;
+    subtitles?: string;
+    closedCaptions?: string;
+    attributes: Record<string, string>;
+    lineNumber: number;
+}
+
+export interface HlsRendition {
+    type: string;                // AUDIO, VIDEO, SUBTITLES, CLOSED-CAPTIONS
+    groupId: string;
+    name: string;
+    uri?: string;
+    language?: string;
+    isDefault: boolean;
+    autoselect: boolean;
+    attributes: Record<string, string>;
+    lineNumber: number;
+}
+
+export interface HlsMasterPlaylist {
+    type: 'master';
+    version?: number;
+    independentSegments: boolean;
+    variants: HlsVariantStream[];
+    iFrameVariants: HlsVariantStream[];
+    renditions: HlsRendition[];
+    tags: HlsTag[];
+}
+
+export type HlsPlaylist = HlsMediaPlaylist | HlsMasterPlaylist;
+
+// MPEG-TS segment payload inspection
+export type TsVideoCodec = 'h264' | 'hevc' | 'mpeg2';
+
+export interface TsTimeRange {
+    first: number;      // 90kHz clock ticks
+    last: number;
+    seconds: number;    // (last - first) / 90000
+}
+
+export interface TsInspection {
+    packets: number;
+    syncErrors: number;                         // Packets not starting with the 0x47 sync byte
+    trailingBytes: number;                      // Bytes after the last complete 188-byte packet
+    startsWithPat: boolean;
+    pmtBeforeMedia: boolean;                    // PMT was seen before the first PES packet
+    continuityErrors: Record<number, number>;   // PID -> continuity counter errors
+    pcr?: TsTimeRange;
+    pts?: TsTimeRange;                          // PTS range of the video stream (or the first stream with PTS)
+    durationSeconds?: number;                   // Media duration: PTS range plus one frame interval
+    videoCodec?: TsVideoCodec;
+    startsWithKeyframe?: boolean;               // First video access unit is an IDR/IRAP picture (undefined without video)
+    problems: string[];
+}
+
+export type RenditionKind = 'variant' | 'iframe' | 'audio' | 'video' | 'subtitles';
+
+// Media playlist declared by a master playlist (EXT-X-STREAM-INF, EXT-X-I-FRAME-STREAM-INF or EXT-X-MEDIA)
+export interface RenditionLink {
+    kind: RenditionKind;
+    uri: string;                // URI as declared in the master playlist
+    trackingKey: string;        // Stream tracker key of the media playlist the URI resolves to
+    bandwidth?: number;
+    resolution?: HlsResolution;
+    codecs?: string;
+    groupId?: string;
+    name?: string;
+    language?: string;
+}
+
+export interface MasterPlaylistInfo {
+    m3u8Uri: string;
+    channelId: string;
+    redundantId?: string;
+    firstReceivedAt: number;
+    receivedAt: number;         // Timestamp of the latest upload
+    updates: number;            // Number of uploads of the master playlist
+    playlist: HlsMasterPlaylist;
+    renditions: RenditionLink[];
+    deletedAt?: number;
 }
 
 export interface Config {
@@ -33,8 +251,18 @@ export interface Config {
     segmentArrivalTimeoutBufferMs: number;
 }
 
+export interface UploadedFile {
+    tempPath: string;     // Temporary file the request body was streamed into
+    size: number;         // Number of bytes received
+    sha256: string;       // Content hash computed while streaming
+    startedAt: number;    // Timestamp of the first body byte
+    durationMs: number;   // Time taken to receive the whole body
+    payload?: TsInspection; // MPEG-TS inspection computed while streaming (when inspection is enabled)
+}
+
 declare module 'express' {
     interface Request {
         rawBody?: Buffer;
+        uploadedFile?: UploadedFile;
     }
 } 
\ No newline at end of file
@@ -0,0 +1,203 @@
+import { Logger } from 'winston';
+import logger from './logger';
+import { IngestEventBus } from './eventBus';
+
+// idle: 아직 업로드 없음, active: 수신 중, stalled: N × target duration 동안 업로드 없음,
+// recovered: 정체 후 다시 수신 중, ended: 모든 미디어 플레이리스트가 #EXT-X-ENDLIST로 종료
+export type ChannelState = 'idle' | 'active' | 'stalled' | 'recovered' | 'ended';
+
+export interface ChannelStateTransition {
+    from?: ChannelState;
+    state: ChannelState;
+    at: number;
+    reason: string;
+}
+
+export interface ChannelLifecycle {
+    channelId: string;
+    state: ChannelState;
+    since: number;                      // Timestamp of the latest transition
+    lastActivityAt?: number;            // Latest playlist or segment upload
+    targetDuration?: number;            // Largest target duration of the channel's media playlists (seconds)
+    history: ChannelStateTransition[];
+}
+
+interface ChannelEntry extends ChannelLifecycle {
+    playlists: Map<string, { targetDuration?: number; ended: boolean }>;   // Media playlists keyed by tracking key
+    stallTimer?: NodeJS.Timeout;
+}
+
+const MAX_TRANSITIONS_PER_CHANNEL = 100;
+
+// 채널별 상태 머신 - 플레이리스트/세그먼트 업로드마다 정체 검사 타이머를 다시 예약
+export class ChannelLifecycleTracker {
+    private stallTargetDurations: number;
+    private logger: Logger;
+    private eventBus?: IngestEventBus;
+    private channels: Map<string, ChannelEntry> = new Map();
+
+    constructor(stallTargetDurations: number, loggerInstance?: Logger, options: { eventBus?: IngestEventBus } = {}) {
+        this.stallTargetDurations = stallTargetDurations;
+        this.logger = loggerInstance || logger;
+        this.eventBus = options.eventBus;
+    }
+
+    // 프로비저닝된 채널은 업로드 전부터 idle로 추적
+    public register(channelId: string, at = Date.now()): void {
+        if (!this.channels.has(channelId)) {
+            this.channels.set(channelId, this.createEntry(channelId, at, 'channel created'));
+        }
+    }
+
+    public recordPlaylist(channelId: string, m3u8Key: string, targetDuration: number | undefined, endList: boolean, at = Date.now()): void {
+        const entry = this.getEntry(channelId, at);
+        entry.playlists.set(m3u8Key, { targetDuration, ended: endList });
+        entry.targetDuration = this.getTargetDuration(entry);
+        entry.lastActivityAt = at;
+
+        const playlists = Array.from(entry.playlists.values());
+        if (playlists.every(playlist => playlist.ended)) {
+            if (entry.state !== 'ended') {
+                this.clearStallTimer(entry);
+                this.transition(entry, 'ended', at, `#EXT-X-ENDLIST in ${m3u8Key}`);
+            }
+            return;
+        }
+
+        if (entry.state === 'ended') {
+            this.transition(entry, 'active', at, `${m3u8Key} was updated without #EXT-X-ENDLIST`);
+        }
+        this.recordActivity(entry, at, `playlist ${m3u8Key}`);
+    }
+
+    // 종료된 채널의 세그먼트 업로드는 상태를 바꾸지 않음 (마지막 세그먼트가 #EXT-X-ENDLIST 뒤에 도착할 수 있음)
+    public recordSegment(channelId: string, segmentUri: string, at = Date.now()): void {
+        const entry = this.getEntry(channelId, at);
+        entry.lastActivityAt = at;
+        if (entry.state !== 'ended') {
+            this.recordActivity(entry, at, `segment ${segmentUri}`);
+        }
+    }
+
+    public get(channelId: string): ChannelLifecycle | undefined {
+        const entry = this.channels.get(channelId);
+        return entry ? this.toLifecycle(entry) : undefined;
+    }
+
+    public list(): ChannelLifecycle[] {
+        return Array.from(this.channels.values()).map(entry => this.toLifecycle(entry));
+    }
+
+    public remove(channelId: string): void {
+        const entry = this.channels.get(channelId);
+        if (entry) {
+            this.clearStallTimer(entry);
+            this.channels.delete(channelId);
+        }
+    }
+
+    // 채널(또는 전체)을 idle로 되돌림 - 이력도 새로 시작
+    public reset(channelId?: string): void {
+        const at = Date.now();
+        for (const entry of Array.from(this.channels.values())) {
+            if (channelId === undefined || entry.channelId === channelId) {
+                this.clearStallTimer(entry);
+                this.channels.set(entry.channelId, this.createEntry(entry.channelId, at, 'state reset'));
+            }
+        }
+    }
+
+    public stop(): void {
+        this.channels.forEach(entry => this.clearStallTimer(entry));
+    }
+
+    private recordActivity(entry: ChannelEntry, at: number, source: string): void {
+        if (entry.state === 'idle') {
+            this.transition(entry, 'active', at, `first upload (${source})`);
+        } else if (entry.state === 'stalled') {
+            this.transition(entry, 'recovered', at, `upload after stall (${source})`);
+        }
+        this.scheduleStallCheck(entry);
+    }
+
+    // 마지막 업로드 후 N × target duration이 지나면 stalled (target duration을 알기 전에는 검사하지 않음)
+    private scheduleStallCheck(entry: ChannelEntry): void {
+        this.clearStallTimer(entry);
+        if (entry.targetDuration === undefined || entry.lastActivityAt === undefined) {
+            return;
+        }
+
+        const thresholdMs = this.stallTargetDurations * entry.targetDuration * 1000;
+        const delay = Math.max(0, entry.lastActivityAt + thresholdMs - Date.now());
+        entry.stallTimer = setTimeout(() => {
+            entry.stallTimer = undefined;
+            if (entry.state === 'active' || entry.state === 'recovered') {
+                this.transition(entry, 'stalled', Date.now(), `no playlist or segment for ${thresholdMs}ms (${this.stallTargetDurations} x target duration)`);
+            }
+        }, delay);
+        // 백그라운드 검사이므로 프로세스 종료를 막지 않음
+        entry.stallTimer.unref();
+    }
+
+    private transition(entry: ChannelEntry, state: ChannelState, at: number, reason: string): void {
+        const from = entry.state;
+        entry.history.push({ from, state, at, reason });
+        if (entry.history.length > MAX_TRANSITIONS_PER_CHANNEL) {
+            entry.history.shift();
+        }
+        entry.state = state;
+        entry.since = at;
+
+        const message = `[${entry.channelId}] Channel ${from} -> ${state}: ${reason}`;
+        if (state === 'stalled') {
+            this.logger.warn(message);
+        } else {
+            this.logger.info(message);
+        }
+        this.eventBus?.emit('channel-state-changed', { channelId: entry.channelId, at, from, state, reason });
+    }
+
+    private getEntry(channelId: string, at: number): ChannelEntry {
+        let entry = this.channels.get(channelId);
+        if (!entry) {
+            entry = this.createEntry(channelId, at, 'first seen in ingest');
+            this.channels.set(channelId, entry);
+        }
+        return entry;
+    }
+
+    private createEntry(channelId: string, at: number, reason: string): ChannelEntry {
+        return {
+            channelId,
+            state: 'idle',
+            since: at,
+            history: [{ state: 'idle', at, reason }],
+            playlists: new Map()
+        };
+    }
+
+    private getTargetDuration(entry: ChannelEntry): number | undefined {
+        const targetDurations = Array.from(entry.playlists.values())
+            .map(playlist => playlist.targetDuration)
+            .filter((targetDuration): targetDuration is number => targetDuration !== undefined);
+        return targetDurations.length > 0 ? Math.max(...targetDurations) : undefined;
+    }
+
+    private clearStallTimer(entry: ChannelEntry): void {
+        if (entry.stallTimer) {
+            clearTimeout(entry.stallTimer);
+            entry.stallTimer = undefined;
+        }
+    }
+
+    private toLifecycle(entry: ChannelEntry): ChannelLifecycle {
+        return {
+            channelId: entry.channelId,
+            state: entry.state,
+            since: entry.since,
+            lastActivityAt: entry.lastActivityAt,
+            targetDuration: entry.targetDuration,
+            history: [...entry.history]
+        };
+    }
+}
@@ -0,0 +1,186 @@
+import { Request, Response, NextFunction, RequestHandler } from 'express';
+import crypto from 'crypto';
+import { Logger } from 'winston';
+import logger from './logger';
+import { parseIngestPath } from './ingestPath';
+import { IngestAuthenticator } from './ingestAuth';
+import { ChannelLifecycleTracker } from './channelLifecycle';
+
+export interface IngestEndpoint {
+    id: string;
+    username: string;
+    password: string;
+}
+
+export interface ProvisionedChannel {
+    id: string;
+    arn: string;
+    description?: string;
+    tags: Record<string, string>;
+    createdAt: string;
+    ingestEndpoints: IngestEndpoint[];
+}
+
+// MediaPackage API 응답 형식 (CreateChannel / DescribeChannel)
+export interface ChannelDescription {
+    arn: string;
+    createdAt: string;
+    description?: string;
+    egressAccessLogs: Record<string, never>;
+    hlsIngest: {
+        ingestEndpoints: Array<IngestEndpoint & { url: string }>;
+    };
+    id: string;
+    ingressAccessLogs: Record<string, never>;
+    tags: Record<string, string>;
+}
+
+export class ChannelRegistryError extends Error {
+    constructor(public statusCode: number, public errorType: string, message: string) {
+        super(message);
+        this.name = 'ChannelRegistryError';
+    }
+}
+
+const CHANNEL_ID_PATTERN = /^[A-Za-z0-9_-]{1,256}$/;
+const INGEST_ENDPOINTS_PER_CHANNEL = 2;
+
+function randomHex(bytes: number): string {
+    return crypto.randomBytes(bytes).toString('hex');
+}
+
+// MediaPackage CreateChannel/DescribeChannel/ListChannels/DeleteChannel을 모사하는 채널 프로비저닝
+export class ChannelRegistry {
+    private channels: Map<string, ProvisionedChannel> = new Map();
+    private requireProvisionedChannels: boolean;
+    private ingestAuthenticator?: IngestAuthenticator;
+    private channelLifecycle?: ChannelLifecycleTracker;
+    private logger: Logger;
+
+    constructor(
+        options: {
+            requireProvisionedChannels?: boolean;
+            ingestAuthenticator?: IngestAuthenticator;
+            channelLifecycle?: ChannelLifecycleTracker;
+            loggerInstance?: Logger;
+        } = {}
+    ) {
+        this.requireProvisionedChannels = options.requireProvisionedChannels ?? false;
+        this.ingestAuthenticator = options.ingestAuthenticator;
+        this.channelLifecycle = options.channelLifecycle;
+        this.logger = options.loggerInstance || logger;
+    }
+
+    public create(id: unknown, description?: unknown, tags?: unknown): ProvisionedChannel {
+        if (typeof id !== 'string' || !CHANNEL_ID_PATTERN.test(id)) {
+            throw new ChannelRegistryError(422, 'UnprocessableEntityException', 'Channel id must match [A-Za-z0-9_-]{1,256}');
+        }
+        if (this.channels.has(id)) {
+            throw new ChannelRegistryError(422, 'UnprocessableEntityException', `Channel ${id} already exists`);
+        }
+        if (description !== undefined && typeof description !== 'string') {
+            throw new ChannelRegistryError(422, 'UnprocessableEntityException', 'Channel description must be a string');
+        }
+
+        const channel: ProvisionedChannel = {
+            id,
+            arn: `arn:aws:mediapackage:local:000000000000:channels/${randomHex(16)}`,
+            description,
+            tags: tags && typeof tags === 'object' ? { ...(tags as Record<string, string>) } : {},
+            createdAt: new Date().toISOString(),
+            ingestEndpoints: Array.from({ length: INGEST_ENDPOINTS_PER_CHANNEL }, () => ({
+                id: randomHex(16),
+                username: randomHex(16),
+                password: randomHex(16)
+            }))
+        };
+
+        this.channels.set(id, channel);
+        this.channelLifecycle?.register(id, Date.parse(channel.createdAt));
+
+        // 인제스트 엔드포인트별 Digest 자격 증명 등록
+        for (const endpoint of channel.ingestEndpoints) {
+            this.ingestAuthenticator?.setCredentials(
+                id,
+                { username: endpoint.username, password: endpoint.password, scheme: 'digest' },
+                endpoint.id
+            );
+        }
+
+        this.logger.info(`[${id}] Channel provisioned with ${channel.ingestEndpoints.length} ingest endpoint(s)`);
+        return channel;
+    }
+
+    public get(id: string): ProvisionedChannel {
+        const channel = this.channels.get(id);
+        if (!channel) {
+            throw new ChannelRegistryError(404, 'NotFoundException', `Channel ${id} not found`);
+        }
+        return channel;
+    }
+
+    public list(): ProvisionedChannel[] {
+        return Array.from(this.channels.values());
+    }
+
+    public has(id: string): boolean {
+        return this.channels.has(id);
+    }
+
+    public delete(id: string): void {
+        const channel = this.get(id);
+        for (const endpoint of channel.ingestEndpoints) {
+            this.ingestAuthenticator?.removeCredentials(id, endpoint.id);
+        }
+        this.channels.delete(id);
+        this.channelLifecycle?.remove(id);
+        this.logger.info(`[${id}] Channel deleted`);
+    }
+
+    public describe(channel: ProvisionedChannel, baseUrl: string): ChannelDescription {
+        return {
+            arn: channel.arn,
+            createdAt: channel.createdAt,
+            description: channel.description,
+            egressAccessLogs: {},
+            hlsIngest: {
+                ingestEndpoints: channel.ingestEndpoints.map(endpoint => ({
+                    ...endpoint,
+                    url: `${baseUrl}/in/v2/${channel.id}/${endpoint.id}/channel`
+                }))
+            },
+            id: channel.id,
+            ingressAccessLogs: {},
+            tags: channel.tags
+        };
+    }
+
+    // 프로비저닝되지 않은 채널(또는 인제스트 엔드포인트)로의 인제스트 요청 거부
+    public middleware(): RequestHandler {
+        return (req: Request, res: Response, next: NextFunction) => {
+            if (!this.requireProvisionedChannels || (req.method !== 'PUT' && req.method !== 'DELETE')) {
+                next();
+                return;
+            }
+
+            const pathInfo = parseIngestPath(req.path);
+            if (!pathInfo) {
+                next();
+                return;
+            }
+
+            const channel = this.channels.get(pathInfo.channelId);
+            const endpointKnown = !pathInfo.redundantId
+                || channel?.ingestEndpoints.some(endpoint => endpoint.id === pathInfo.redundantId);
+
+            if (!channel || !endpointKnown) {
+                this.logger.warn(`[${pathInfo.channelId}] Rejected ingest for unprovisioned channel: ${req.method} ${req.originalUrl}`);
+                req.resume();
+                res.status(404).send('Channel not found');
+                return;
+            }
+
+            next();
+        };
+    }
+}
@@ -2,6 +2,8 @@ import fs from 'fs';
 import path from 'path';
 import { Logger } from 'winston';
 import logger from './logger';
+import { getStorageDir, isSegmentFilename } from './ingestPath';
+import { M3u8TrackingInfo } from '../types';
 
 export class CleanupManager {
     private mockStoragePath: string;
@@ -9,6 +11,7 @@ export class CleanupManager {
     private cleanupIntervalMs: number;
     private isEnabled: boolean;
     private intervalId: NodeJS.Timeout | null = null;
+    private streamTracker?: Map<string, M3u8TrackingInfo>;
     private logger: Logger;
 
     constructor(
@@ -17,6 +20,7 @@ export class CleanupManager {
             isEnabled?: boolean;
             retentionPeriodMs?: number;
             cleanupIntervalMs?: number;
+            streamTracker?: Map<string, M3u8TrackingInfo>;
             loggerInstance?: Logger;
         } = {}
     ) {
@@ -24,16 +28,17 @@ export class CleanupManager {
         this.isEnabled = options.isEnabled ?? false; // 기본적으로는 비활성화
         this.retentionPeriodMs = options.retentionPeriodMs ?? 3600000; // 기본값 1시간
         this.cleanupIntervalMs = options.cleanupIntervalMs ?? 300000; // 기본값 5분
+        this.streamTracker = options.streamTracker;
         this.logger = options.loggerInstance || logger;
     }
 
     public start(): void {
         if (!this.isEnabled) {
-            this.logger.info('TS file cleanup is disabled');
+            this.logger.info('Segment file cleanup is disabled');
             return;
         }
 
-        this.logger.info(`Starting TS file cleanup. Retention period: ${this.retentionPeriodMs / 60000} minutes, Interval: ${this.cleanupIntervalMs / 60000} minutes`);
+        this.logger.info(`Starting segment file cleanup. Retention period: ${this.retentionPeriodMs / 60000} minutes, Interval: ${this.cleanupIntervalMs / 60000} minutes`);
         
         // 시작 즉시 한 번 실행
         this.cleanupOldFiles();
@@ -46,7 +51,7 @@ export class CleanupManager {
         if (this.intervalId) {
             clearInterval(this.intervalId);
             this.intervalId = null;
-            this.logger.info('TS file cleanup stopped');
+            this.logger.info('Segment file cleanup stopped');
         }
     }
 
@@ -55,6 +60,7 @@ export class CleanupManager {
             const now = Date.now();
             const cutoffTime = now - this.retentionPeriodMs;
             let totalRemoved = 0;
+            const referencedPaths = this.getReferencedPaths();
             
             // 채널 디렉토리 탐색
             const channelDirs = fs.readdirSync(this.mockStoragePath)
@@ -64,32 +70,56 @@ export class CleanupManager {
                 });
             
             for (const channelDir of channelDirs) {
-                const channelPath = path.join(this.mockStoragePath, channelDir);
-                
-                // 각 채널 디렉토리 내 파일 검사
-                const files = fs.readdirSync(channelPath)
-                    .filter(file => file.endsWith('.ts'));
-                
-                for (const file of files) {
-                    const filePath = path.join(channelPath, file);
-                    const stats = fs.statSync(filePath);
-                    
-                    // 수정 시간이 기준 시간보다 이전이면 삭제
-                    if (stats.mtimeMs < cutoffTime) {
-                        fs.unlinkSync(filePath);
-                        totalRemoved++;
-                        this.logger.debug(`Removed old TS file: ${filePath}`);
-                    }
-                }
+                totalRemoved += this.cleanupDirectory(path.join(this.mockStoragePath, channelDir), cutoffTime, referencedPaths);
             }
             
             if (totalRemoved > 0) {
-                this.logger.info(`Cleanup complete. Removed ${totalRemoved} old TS files.`);
+                this.logger.info(`Cleanup complete. Removed ${totalRemoved} old segment files.`);
             } else {
                 this.logger.debug('Cleanup complete. No files to remove.');
             }
         } catch (error) {
-            this.logger.error('Error during TS file cleanup:', error);
+            this.logger.error('Error during segment file cleanup:', error);
         }
     }
-} 
\ No newline at end of file
+
+    // 추적 중인 플레이리스트가 아직 참조하는 파일 경로 (재생 윈도우의 세그먼트와 EXT-X-MAP 초기화 세그먼트)
+    private getReferencedPaths(): Set<string> {
+        const referencedPaths = new Set<string>();
+        this.streamTracker?.forEach(trackingInfo => {
+            const storageDir = getStorageDir(this.mockStoragePath, trackingInfo.channelId, trackingInfo.redundantId);
+            for (const segmentUri of trackingInfo.segments.keys()) {
+                referencedPaths.add(path.join(storageDir, segmentUri));
+            }
+        });
+        return referencedPaths;
+    }
+
+    // 디렉토리 내 오래된 세그먼트 파일 삭제 (리던던트 파이프라인 하위 디렉토리 포함, 플레이리스트가 참조하는 파일은 유지)
+    private cleanupDirectory(dirPath: string, cutoffTime: number, referencedPaths: Set<string>): number {
+        let removed = 0;
+        
+        for (const entry of fs.readdirSync(dirPath, { withFileTypes: true })) {
+            const entryPath = path.join(dirPath, entry.name);
+            
+            if (entry.isDirectory()) {
+                removed += this.cleanupDirectory(entryPath, cutoffTime, referencedPaths);
+                continue;
+            }
+            
+            if (!entry.isFile() || !isSegmentFilename(entry.name) || referencedPaths.has(entryPath)) {
+                continue;
+            }
+            
+            // 수정 시간이 기준 시간보다 이전이면 삭제
+            const stats = fs.statSync(entryPath);
+            if (stats.mtimeMs < cutoffTime) {
+                fs.unlinkSync(entryPath);
+                removed++;
+                this.logger.debug(`Removed old segment file: ${entryPath}`);
+            }
+        }
+        
+        return removed;
+    }
+}
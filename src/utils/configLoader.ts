@@ -1,6 +1,7 @@
 import fs from 'fs';
 import path from 'path';
 import yaml from 'js-yaml';
+import { SegmentMatchMode } from '../types';
 
 export interface ServerConfig {
   port: number;
@@ -12,6 +13,12 @@ export interface StreamingConfig {
   segmentTimeout: number;
   m3u8UpdateInterval: number;
   reportInterval: number;
+  segmentMatching: SegmentMatchMode;  // How uploaded segments are matched to playlist entries
+  inspectSegments: boolean;           // Parse received MPEG-TS payloads (sync, PAT/PMT, continuity, PTS duration, keyframes)
+  stallTargetDurations: number;       // A channel is stalled after this many target durations without a playlist or segment upload
+  pendingSegmentWindow: number;       // How long a segment uploaded before its playlist is held before it is reported as unreferenced (ms)
+  latencyWindowsSeconds: number[];    // Rolling windows for latency percentiles, in addition to the whole session
+  maxLedgerEntries: number;           // Session ledger entries kept per playlist before the oldest are compacted into totals
 }
 
 export interface CleanupConfig {
@@ -31,12 +38,88 @@ export interface ReportsConfig {
   intervalMinutes: number;
 }
 
+export interface EgressConfig {
+  windowSeconds: number;        // Length of the generated live playlist window
+}
+
+export interface ProvisioningConfig {
+  requireProvisionedChannels: boolean;  // Reject ingest for channels not created through the channel API
+}
+
+export interface ValidationConfig {
+  enabled: boolean;                     // Check incoming playlists against RFC 8216 rules
+  rejectInvalidPlaylists: boolean;      // Answer 400 instead of accepting playlists with violations
+}
+
+export interface PersistenceConfig {
+  enabled: boolean;                     // Save tracker state to the storage directory and restore it on startup
+  intervalSeconds: number;              // How often the tracker state is saved (also saved on SIGTERM/SIGINT)
+}
+
+export interface HistoryConfig {
+  enabled: boolean;                     // Record per-channel metric snapshots under the storage directory and serve them on /history
+  resolutionSeconds: number;            // Interval between snapshots
+  retentionHours: number;               // Snapshots older than this are dropped
+}
+
+export interface RemoteFetchConfig {
+  timeoutMs: number;                    // Total time allowed for one fetch attempt of a playlist URL sent as a PUT body
+  maxRetries: number;                   // Retries after timeouts, connection failures, 5xx and 429 responses
+  retryBackoffMs: number;               // Delay before the first retry (doubled for every further retry)
+  maxBodyBytes: number;                 // Larger playlists are rejected
+  allowedContentTypes: string[];        // Accepted Content-Type values (empty = any; responses without Content-Type are accepted)
+}
+
+export interface PluginsConfig {
+  modules: string[];                    // Plugin module paths (relative to the working directory) subscribed to the ingest event bus
+}
+
+export type FaultFileType = 'playlist' | 'segment' | '*';
+
+export interface FaultRule {
+  channel?: string;             // Channel ID the rule applies to ('*' or omitted = all channels)
+  fileType?: FaultFileType;     // File type the rule applies to ('*' or omitted = all types)
+  errorRate?: number;           // Probability (0-1) of answering with an error status
+  errorStatusCodes?: number[];  // Status codes to pick from when injecting an error
+  latencyMs?: number;           // Artificial delay added before the request is handled
+  dropConnectionRate?: number;  // Probability (0-1) of dropping the connection mid-body
+  rejectNthSegment?: number;    // Reject every Nth segment upload of the channel
+}
+
+export interface FaultInjectionConfig {
+  enabled: boolean;
+  rules: FaultRule[];
+}
+
+export type AuthScheme = 'basic' | 'digest' | 'any';
+
+export interface ChannelCredentials {
+  username: string;
+  password: string;
+  scheme?: AuthScheme;          // Accepted scheme (default: 'any')
+}
+
+export interface AuthConfig {
+  realm: string;
+  nonceTtlSeconds: number;
+  channels: Record<string, ChannelCredentials>;  // Keyed by channel ID or channelId/redundantId; channels without credentials accept any request
+}
+
 export interface AppConfig {
   server: ServerConfig;
   streaming: StreamingConfig;
   cleanup: CleanupConfig;
   storage: StorageConfig;
   reports: ReportsConfig;
+  faultInjection: FaultInjectionConfig;
+  auth: AuthConfig;
+  egress: EgressConfig;
+  provisioning: ProvisioningConfig;
+  validation: ValidationConfig;
+  persistence: PersistenceConfig;
+  history: HistoryConfig;
+  remoteFetch: RemoteFetchConfig;
+  plugins: PluginsConfig;
 }
 
 export class ConfigLoader {
@@ -89,7 +172,13 @@ export class ConfigLoader {
       streaming: {
         segmentTimeout: 10000,
         m3u8UpdateInterval: 6000,
-        reportInterval: 60000
+        reportInterval: 60000,
+        segmentMatching: 'exact',
+        pendingSegmentWindow: 30000,
+        inspectSegments: true,
+        stallTargetDurations: 3,
+        latencyWindowsSeconds: [60, 300, 3600],
+        maxLedgerEntries: 10000
       },
       cleanup: {
         enabled: true,
@@ -104,6 +193,51 @@ export class ConfigLoader {
         enabled: true,
         path: path.join(process.cwd(), 'reports'),
         intervalMinutes: 5
+      },
+      faultInjection: {
+        enabled: false,
+        rules: []
+      },
+      auth: {
+        realm: 'MediaPackage',
+        nonceTtlSeconds: 300,
+        channels: {}
+      },
+      egress: {
+        windowSeconds: 60
+      },
+      provisioning: {
+        requireProvisionedChannels: false
+      },
+      validation: {
+        enabled: true,
+        rejectInvalidPlaylists: false
+      },
+      persistence: {
+        enabled: false,
+        intervalSeconds: 30
+      },
+      history: {
+        enabled: true,
+        resolutionSeconds: 10,
+        retentionHours: 24
+      },
+      remoteFetch: {
+        timeoutMs: 5000,
+        maxRetries: 2,
+        retryBackoffMs: 500,
+        maxBodyBytes: 1048576,
+        allowedContentTypes: [
+          'application/vnd.apple.mpegurl',
+          'application/x-mpegurl',
+          'audio/mpegurl',
+          'audio/x-mpegurl',
+          'text/plain',
+          'application/octet-stream'
+        ]
+      },
+      plugins: {
+        modules: []
       }
     };
   }
@@ -122,6 +256,7 @@ export class ConfigLoader {
         if (
           sourceValue !== null && 
           typeof sourceValue === 'object' &&
+          !Array.isArray(sourceValue) &&
           targetValue !== null &&
           typeof targetValue === 'object'
         ) {
@@ -181,4 +316,40 @@ export class ConfigLoader {
   public getReportsConfig(): ReportsConfig {
     return this.config.reports;
   }
+
+  public getFaultInjectionConfig(): FaultInjectionConfig {
+    return this.config.faultInjection;
+  }
+
+  public getAuthConfig(): AuthConfig {
+    return this.config.auth;
+  }
+
+  public getEgressConfig(): EgressConfig {
+    return this.config.egress;
+  }
+
+  public getProvisioningConfig(): ProvisioningConfig {
+    return this.config.provisioning;
+  }
+
+  public getValidationConfig(): ValidationConfig {
+    return this.config.validation;
+  }
+
+  public getPersistenceConfig(): PersistenceConfig {
+    return this.config.persistence;
+  }
+
+  public getHistoryConfig(): HistoryConfig {
+    return this.config.history;
+  }
+
+  public getRemoteFetchConfig(): RemoteFetchConfig {
+    return this.config.remoteFetch;
+  }
+
+  public getPluginsConfig(): PluginsConfig {
+    return this.config.plugins;
+  }
 } 
\ No newline at end of file
@@ -0,0 +1,124 @@
+import { Logger } from 'winston';
+import logger from './logger';
+import { SegmentState } from '../types';
+import { HlsViolation } from './hlsValidator';
+import { UploadOutcome } from './uploadHistory';
+import { ChannelState } from './channelLifecycle';
+
+interface ChannelEvent {
+    channelId: string;
+    redundantId?: string;
+    at: number;
+}
+
+interface SegmentEvent extends ChannelEvent {
+    m3u8Key: string;
+    m3u8Uri: string;
+    uri: string;                    // Segment path relative to the channel (or pipeline) root
+    mediaSequence?: number;
+}
+
+// 이벤트 이름 -> 페이로드
+export interface IngestEvents {
+    'playlist-updated': ChannelEvent & {
+        m3u8Key: string;
+        m3u8Uri: string;
+        targetDuration: number;
+        mediaSequence?: number;
+        segmentCount: number;       // Segments in the current window
+        endList: boolean;
+    };
+    'master-playlist-updated': ChannelEvent & {
+        m3u8Key: string;
+        m3u8Uri: string;
+        variants: number;
+        renditions: number;
+    };
+    'validation-failed': ChannelEvent & {
+        m3u8Key: string;
+        m3u8Uri: string;
+        violations: HlsViolation[];
+        rejected: boolean;          // The playlist was answered with 400
+    };
+    'segment-uploaded': ChannelEvent & {
+        uri: string;
+        size: number;
+        hash?: string;
+        outcome?: UploadOutcome;    // first / identical / replaced (when upload history is recorded)
+        uploadDurationMs?: number;
+    };
+    'segment-received': SegmentEvent & {
+        state: SegmentState;        // received or late
+        size: number;
+        preAnnounced: boolean;      // Uploaded before a playlist referenced it
+        transferDelayMs?: number;   // Time from first appearance in a playlist to reception
+        uploadDurationMs?: number;  // Time from the first body byte to the end of the upload
+    };
+    'segment-late': SegmentEvent & {
+        lateByMs?: number;          // Time past the deadline
+    };
+    'segment-deadline-missed': SegmentEvent & {
+        deadlineAt: number;
+    };
+    'segment-expired': SegmentEvent;
+    'channel-state-changed': ChannelEvent & {
+        from?: ChannelState;
+        state: ChannelState;
+        reason: string;
+    };
+}
+
+export type IngestEventName = keyof IngestEvents;
+export type IngestEventListener<K extends IngestEventName> = (payload: IngestEvents[K]) => void;
+export type AnyIngestEventListener = <K extends IngestEventName>(event: K, payload: IngestEvents[K]) => void;
+
+// 이벤트별 리스너 목록 (이벤트 이름마다 해당 페이로드 타입의 리스너만 보관)
+type IngestListenerRegistry = { [K in IngestEventName]?: Set<IngestEventListener<K>> };
+
+// 핸들러가 발행하고 보고서 생성기, 익스포터, 사용자 플러그인이 구독하는 타입 지정 이벤트 버스
+// 리스너는 동기적으로 호출되며, 리스너 오류는 로그만 남기고 발행자(핸들러)와 다른 리스너에 영향을 주지 않음
+export class IngestEventBus {
+    private logger: Logger;
+    private listeners: IngestListenerRegistry = {};
+    private anyListeners: Set<AnyIngestEventListener> = new Set();
+
+    constructor(loggerInstance?: Logger) {
+        this.logger = loggerInstance || logger;
+    }
+
+    // 구독 해제 함수 반환
+    public on<K extends IngestEventName>(event: K, listener: IngestEventListener<K>): () => void {
+        const listeners: Set<IngestEventListener<K>> = this.listeners[event] || new Set();
+        listeners.add(listener);
+        // 제네릭 키로 쓰기는 TS가 모든 이벤트 타입의 교집합을 요구하므로 해당 키의 타입으로 지정
+        this.listeners[event] = listeners as IngestListenerRegistry[K];
+        return () => this.off(event, listener);
+    }
+
+    public off<K extends IngestEventName>(event: K, listener: IngestEventListener<K>): void {
+        this.listeners[event]?.delete(listener);
+    }
+
+    // 모든 이벤트 구독 (웹훅, 익스포터 등)
+    public onAny(listener: AnyIngestEventListener): () => void {
+        this.anyListeners.add(listener);
+        return () => this.anyListeners.delete(listener);
+    }
+
+    public emit<K extends IngestEventName>(event: K, payload: IngestEvents[K]): void {
+        for (const listener of Array.from(this.listeners[event] || [])) {
+            try {
+                listener(payload);
+            } catch (error) {
+                this.logger.error(`Listener for ${event} event failed`, error);
+            }
+        }
+        for (const listener of Array.from(this.anyListeners)) {
+            try {
+                listener(event, payload);
+            } catch (error) {
+                this.logger.error(`Listener for all events failed on ${event}`, error);
+            }
+        }
+    }
+}
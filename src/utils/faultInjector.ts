@@ -0,0 +1,261 @@
+import { Request, Response, NextFunction, RequestHandler } from 'express';
+import { Logger } from 'winston';
+import logger from './logger';
+import { FaultInjectionConfig, FaultRule } from './configLoader';
+import { IngestPathInfo, normalizeIngestPath, parseIngestPath } from './ingestPath';
+
+export type FaultType = 'error' | 'latency' | 'drop' | 'reject';
+
+export interface InjectedFault {
+    type: FaultType;
+    at: number;
+    channelId: string;
+    redundantId?: string;
+    filename: string;
+    fileType: string;
+    statusCode?: number;
+    latencyMs?: number;
+}
+
+export interface FaultSummary {
+    total: number;
+    byType: Record<FaultType, number>;
+}
+
+const DEFAULT_ERROR_STATUS_CODES = [500, 503, 507];
+const MAX_RECORDED_FAULTS_PER_CHANNEL = 1000;
+const FAULT_FILE_TYPES = ['playlist', 'segment', '*'];
+const FAULT_RULE_FIELDS = ['channel', 'fileType', 'errorRate', 'errorStatusCodes', 'latencyMs', 'dropConnectionRate', 'rejectNthSegment'];
+
+// 잘못된 장애 규칙 (ruleIndex는 rules 배열에서의 위치)
+export class FaultRuleError extends Error {
+    constructor(public ruleIndex: number, message: string) {
+        super(`Rule ${ruleIndex}: ${message}`);
+        this.name = 'FaultRuleError';
+    }
+}
+
+// 규칙을 요청 시점이 아닌 설정 시점에 검사 (오타나 잘못된 값이 조용히 무시되거나 요청 처리 중 예외가 나지 않도록)
+export function validateFaultRule(rule: unknown, index: number): FaultRule {
+    if (typeof rule !== 'object' || rule === null || Array.isArray(rule)) {
+        throw new FaultRuleError(index, 'must be an object');
+    }
+    const fields = rule as Record<string, unknown>;
+    const unknownField = Object.keys(fields).find(field => !FAULT_RULE_FIELDS.includes(field));
+    if (unknownField !== undefined) {
+        throw new FaultRuleError(index, `unknown field "${unknownField}" (valid: ${FAULT_RULE_FIELDS.join(', ')})`);
+    }
+
+    const isNumber = (value: unknown): value is number => typeof value === 'number' && Number.isFinite(value);
+    if (fields.channel !== undefined && (typeof fields.channel !== 'string' || fields.channel === '')) {
+        throw new FaultRuleError(index, '"channel" must be a non-empty string');
+    }
+    if (fields.fileType !== undefined && !FAULT_FILE_TYPES.includes(fields.fileType as string)) {
+        throw new FaultRuleError(index, `"fileType" must be one of ${FAULT_FILE_TYPES.join(', ')}`);
+    }
+    for (const field of ['errorRate', 'dropConnectionRate']) {
+        const value = fields[field];
+        if (value !== undefined && !(isNumber(value) && value >= 0 && value <= 1)) {
+            throw new FaultRuleError(index, `"${field}" must be a number between 0 and 1`);
+        }
+    }
+    if (fields.latencyMs !== undefined && !(isNumber(fields.latencyMs) && fields.latencyMs >= 0)) {
+        throw new FaultRuleError(index, '"latencyMs" must be a non-negative number');
+    }
+    if (fields.rejectNthSegment !== undefined && !(Number.isInteger(fields.rejectNthSegment) && (fields.rejectNthSegment as number) > 0)) {
+        throw new FaultRuleError(index, '"rejectNthSegment" must be a positive integer');
+    }
+    if (fields.errorStatusCodes !== undefined && !(Array.isArray(fields.errorStatusCodes)
+        && fields.errorStatusCodes.every(code => Number.isInteger(code) && code >= 400 && code <= 599))) {
+        throw new FaultRuleError(index, '"errorStatusCodes" must be an array of 4xx/5xx status codes');
+    }
+    return fields as FaultRule;
+}
+
+// 인코더 재시도/백오프 테스트를 위한 인제스트 응답 장애 주입
+export class FaultInjector {
+    private config: FaultInjectionConfig;
+    private logger: Logger;
+    private segmentCounters: Map<string, number> = new Map();
+    private summaries: Map<string, FaultSummary> = new Map();
+    // channelId -> (redundantId/파일명 -> 마지막으로 주입된 장애)
+    private failedUploads: Map<string, Map<string, InjectedFault>> = new Map();
+
+    constructor(config: FaultInjectionConfig, loggerInstance?: Logger) {
+        this.logger = loggerInstance || logger;
+        // config.yaml의 잘못된 규칙은 서버 시작을 막지 않고 제외
+        const rules = (Array.isArray(config.rules) ? config.rules : []).filter((rule, index) => {
+            try {
+                validateFaultRule(rule, index);
+                return true;
+            } catch (error) {
+                this.logger.error(`Ignoring invalid fault injection rule: ${(error as Error).message}`);
+                return false;
+            }
+        });
+        this.config = this.normalizeConfig({ enabled: config.enabled, rules });
+    }
+
+    public getConfig(): FaultInjectionConfig {
+        return this.config;
+    }
+
+    // 규칙이 하나라도 잘못되면 FaultRuleError를 던지고 기존 설정 유지
+    public updateConfig(config: Partial<FaultInjectionConfig>): FaultInjectionConfig {
+        config.rules?.forEach((rule, index) => validateFaultRule(rule, index));
+        this.config = this.normalizeConfig({
+            enabled: config.enabled ?? this.config.enabled,
+            rules: config.rules ?? this.config.rules
+        });
+        this.segmentCounters.clear();
+        this.logger.info(`Fault injection ${this.config.enabled ? 'enabled' : 'disabled'} with ${this.config.rules.length} rule(s)`);
+        return this.config;
+    }
+
+    public getSummary(channelId: string): FaultSummary {
+        return this.summaries.get(channelId) || this.createSummary();
+    }
+
+    public getSummaries(): Map<string, FaultSummary> {
+        return this.summaries;
+    }
+
+    public getRecordedFaults(channelId: string): InjectedFault[] {
+        return Array.from(this.failedUploads.get(channelId)?.values() || []);
+    }
+
+    // 업로드 실패가 주입된 장애 때문인지 확인 (보고서에서 실제 인코더 누락과 구분하기 위함, filename은 루트 기준 경로)
+    public wasUploadFailureInjected(channelId: string, redundantId: string | undefined, filename: string): boolean {
+        return this.failedUploads.get(channelId)?.has(this.getUploadKey(redundantId, filename)) ?? false;
+    }
+
+    public middleware(): RequestHandler {
+        return (req: Request, res: Response, next: NextFunction) => {
+            if (!this.config.enabled || req.method !== 'PUT') {
+                next();
+                return;
+            }
+
+            const pathInfo = parseIngestPath(req.path);
+            if (!pathInfo) {
+                next();
+                return;
+            }
+
+            const rule = this.findRule(pathInfo);
+            if (!rule) {
+                next();
+                return;
+            }
+
+            this.applyRule(rule, pathInfo, req, res, next);
+        };
+    }
+
+    private applyRule(rule: FaultRule, pathInfo: IngestPathInfo, req: Request, res: Response, next: NextFunction): void {
+        const proceed = () => {
+            // 연결 중간 끊기: 본문 일부를 받은 뒤 소켓 종료
+            if (rule.dropConnectionRate && Math.random() < rule.dropConnectionRate) {
+                this.record('drop', pathInfo);
+                this.logger.warn(`[${pathInfo.channelId}] Injected fault: dropping connection for ${req.originalUrl}`);
+                const destroy = () => req.socket.destroy();
+                req.once('data', destroy);
+                req.once('end', destroy);
+                return;
+            }
+
+            // N번째 세그먼트 거부
+            if (rule.rejectNthSegment && rule.rejectNthSegment > 0 && pathInfo.fileType === 'segment') {
+                const counterKey = `${pathInfo.channelId}/${pathInfo.redundantId || ''}`;
+                const count = (this.segmentCounters.get(counterKey) || 0) + 1;
+                this.segmentCounters.set(counterKey, count);
+                if (count % rule.rejectNthSegment === 0) {
+                    this.rejectRequest('reject', this.pickStatusCode(rule), pathInfo, req, res);
+                    return;
+                }
+            }
+
+            // 확률적 에러 응답
+            if (rule.errorRate && Math.random() < rule.errorRate) {
+                this.rejectRequest('error', this.pickStatusCode(rule), pathInfo, req, res);
+                return;
+            }
+
+            next();
+        };
+
+        if (rule.latencyMs && rule.latencyMs > 0) {
+            this.record('latency', pathInfo, { latencyMs: rule.latencyMs });
+            this.logger.debug(`[${pathInfo.channelId}] Injected fault: delaying ${req.originalUrl} by ${rule.latencyMs}ms`);
+            setTimeout(proceed, rule.latencyMs);
+        } else {
+            proceed();
+        }
+    }
+
+    private rejectRequest(type: FaultType, statusCode: number, pathInfo: IngestPathInfo, req: Request, res: Response): void {
+        this.record(type, pathInfo, { statusCode });
+        this.logger.warn(`[${pathInfo.channelId}] Injected fault: responding ${statusCode} to ${req.originalUrl}`);
+        // 본문은 버리고 즉시 응답
+        req.resume();
+        res.status(statusCode).send(`Injected fault: ${statusCode}`);
+    }
+
+    private findRule(pathInfo: IngestPathInfo): FaultRule | undefined {
+        return this.config.rules.find(rule => {
+            const channelMatches = !rule.channel || rule.channel === '*' || rule.channel === pathInfo.channelId;
+            const fileTypeMatches = !rule.fileType || rule.fileType === '*' || rule.fileType === pathInfo.fileType;
+            return channelMatches && fileTypeMatches;
+        });
+    }
+
+    private pickStatusCode(rule: FaultRule): number {
+        const codes = rule.errorStatusCodes && rule.errorStatusCodes.length > 0
+            ? rule.errorStatusCodes
+            : DEFAULT_ERROR_STATUS_CODES;
+        return codes[Math.floor(Math.random() * codes.length)];
+    }
+
+    private record(type: FaultType, pathInfo: IngestPathInfo, details: { statusCode?: number; latencyMs?: number } = {}): void {
+        const { channelId, redundantId, filename, fileType } = pathInfo;
+
+        const summary = this.summaries.get(channelId) || this.createSummary();
+        summary.total++;
+        summary.byType[type]++;
+        this.summaries.set(channelId, summary);
+
+        // 지연은 업로드 실패가 아니므로 누락 구분용 기록에서 제외
+        if (type === 'latency') {
+            return;
+        }
+
+        const fault: InjectedFault = { type, at: Date.now(), channelId, redundantId, filename, fileType, ...details };
+        const channelFaults = this.failedUploads.get(channelId) || new Map<string, InjectedFault>();
+        const uploadKey = this.getUploadKey(redundantId, filename);
+        channelFaults.delete(uploadKey);
+        channelFaults.set(uploadKey, fault);
+        if (channelFaults.size > MAX_RECORDED_FAULTS_PER_CHANNEL) {
+            const oldestKey = channelFaults.keys().next().value;
+            if (oldestKey !== undefined) {
+                channelFaults.delete(oldestKey);
+            }
+        }
+        this.failedUploads.set(channelId, channelFaults);
+    }
+
+    private getUploadKey(redundantId: string | undefined, filename: string): string {
+        // 세그먼트 트래킹과 같은 채널(파이프라인) 루트 기준 경로 사용
+        return `${redundantId || ''}/${normalizeIngestPath(filename)}`;
+    }
+
+    private createSummary(): FaultSummary {
+        return { total: 0, byType: { error: 0, latency: 0, drop: 0, reject: 0 } };
+    }
+
+    private normalizeConfig(config: Partial<FaultInjectionConfig>): FaultInjectionConfig {
+        return {
+            enabled: config.enabled ?? false,
+            rules: Array.isArray(config.rules) ? config.rules : []
+        };
+    }
+}
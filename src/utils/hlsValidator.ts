@@ -0,0 +1,264 @@
+import { Logger } from 'winston';
+import logger from './logger';
+import { HlsMediaPlaylist, HlsPlaylist } from '../types';
+
+export type HlsViolationRule =
+    | 'missing-extm3u'
+    | 'missing-target-duration'
+    | 'extinf-exceeds-target-duration'
+    | 'media-sequence-decreased'
+    | 'segment-changed'
+    | 'discontinuity-sequence'
+    | 'version-mismatch';
+
+export interface HlsViolation {
+    rule: HlsViolationRule;
+    message: string;
+    channelId: string;
+    redundantId?: string;
+    m3u8Uri: string;
+    playlistRevision: number;   // Upload count of the playlist when the violation was found (1 = first upload)
+    lineNumber?: number;
+    at: number;
+}
+
+export interface ViolationRecord {
+    violations: HlsViolation[];
+    playlist: string;           // Content of the offending playlist revision
+}
+
+interface PublishedSegment {
+    uri: string;
+    duration: number;
+    discontinuitySequence: number;
+}
+
+export interface PlaylistSnapshot {
+    revision: number;
+    mediaSequence?: number;
+    discontinuitySequence?: number;
+    segments: Map<number, PublishedSegment>;    // media sequence -> segment
+}
+
+// 검사 결과 - snapshot은 플레이리스트가 수락된 경우에만 commit으로 반영
+export interface HlsValidationResult {
+    violations: HlsViolation[];
+    snapshot: PlaylistSnapshot;
+}
+
+const MAX_RECORDS_PER_CHANNEL = 500;
+
+// 미디어 플레이리스트에 필요한 최소 EXT-X-VERSION (RFC 8216 7. Protocol Version Compatibility)
+function getRequiredVersion(playlist: HlsMediaPlaylist): { version: number; reason: string } {
+    let required = { version: 1, reason: '' };
+    const requires = (version: number, reason: string) => {
+        if (version > required.version) {
+            required = { version, reason };
+        }
+    };
+    const iFramesOnly = playlist.tags.some(tag => tag.name === 'EXT-X-I-FRAMES-ONLY');
+
+    for (const tag of playlist.tags) {
+        const value = tag.value || '';
+        if (tag.name === 'EXT-X-KEY' && /(^|,)IV=/.test(value)) {
+            requires(2, 'EXT-X-KEY IV attribute');
+        }
+        if (tag.name === 'EXTINF' && value.split(',')[0].includes('.')) {
+            requires(3, 'floating-point EXTINF duration');
+        }
+        if (tag.name === 'EXT-X-BYTERANGE') {
+            requires(4, 'EXT-X-BYTERANGE');
+        }
+        if (tag.name === 'EXT-X-I-FRAMES-ONLY') {
+            requires(4, 'EXT-X-I-FRAMES-ONLY');
+        }
+        if (tag.name === 'EXT-X-KEY' && /(^|,)KEYFORMAT(VERSIONS)?=/.test(value)) {
+            requires(5, 'EXT-X-KEY KEYFORMAT attributes');
+        }
+        if (tag.name === 'EXT-X-MAP') {
+            requires(iFramesOnly ? 5 : 6, iFramesOnly ? 'EXT-X-MAP' : 'EXT-X-MAP without EXT-X-I-FRAMES-ONLY');
+        }
+    }
+
+    return required;
+}
+
+// 수신된 플레이리스트를 RFC 8216 규칙으로 검사하고 채널별 위반 기록 보관
+export class HlsValidator {
+    private logger: Logger;
+    private snapshots: Map<string, PlaylistSnapshot> = new Map();     // 마지막으로 수락된 리비전
+    private uploadCounts: Map<string, number> = new Map();
+    private records: Map<string, ViolationRecord[]> = new Map();
+
+    constructor(loggerInstance?: Logger) {
+        this.logger = loggerInstance || logger;
+    }
+
+    public validate(
+        m3u8Key: string,
+        m3u8Uri: string,
+        channelId: string,
+        redundantId: string | undefined,
+        content: string,
+        playlist: HlsPlaylist
+    ): HlsValidationResult {
+        const previous = this.snapshots.get(m3u8Key);
+        // 거부된 업로드도 리비전 번호에는 포함
+        const revision = (this.uploadCounts.get(m3u8Key) ?? 0) + 1;
+        this.uploadCounts.set(m3u8Key, revision);
+        const now = Date.now();
+        const violations: HlsViolation[] = [];
+        const report = (rule: HlsViolationRule, message: string, lineNumber?: number) => {
+            violations.push({ rule, message, channelId, redundantId, m3u8Uri, playlistRevision: revision, lineNumber, at: now });
+        };
+
+        // #EXTM3U는 첫 번째 줄이어야 함 (BOM 허용)
+        const firstLine = content.replace(/^\uFEFF/, '').split(/\r?\n/)[0].trim();
+        if (firstLine !== '#EXTM3U') {
+            report('missing-extm3u', 'Playlist does not start with #EXTM3U', 1);
+        }
+
+        if (playlist.type === 'media') {
+            this.validateMediaPlaylist(playlist, previous, report);
+        }
+
+        if (violations.length > 0) {
+            this.record(channelId, violations, content);
+            violations.forEach(violation => {
+                this.logger.warn(`[${channelId}] HLS violation (${violation.rule}) in ${m3u8Uri} revision ${revision}: ${violation.message}`);
+            });
+        }
+
+        return { violations, snapshot: this.createSnapshot(playlist, revision) };
+    }
+
+    // 수락된 플레이리스트를 다음 리비전 비교 기준으로 반영 (거부된 리비전은 기준이 되지 않음)
+    public commit(m3u8Key: string, snapshot: PlaylistSnapshot): void {
+        this.snapshots.set(m3u8Key, snapshot);
+    }
+
+    public getViolations(channelId: string): ViolationRecord[] {
+        return this.records.get(channelId) || [];
+    }
+
+    public getAllViolations(): Map<string, ViolationRecord[]> {
+        return this.records;
+    }
+
+    // 채널(또는 전체)의 위반 기록과 리비전 비교용 스냅샷 초기화
+    public reset(channelId?: string): void {
+        if (channelId === undefined) {
+            this.snapshots.clear();
+            this.uploadCounts.clear();
+            this.records.clear();
+            return;
+        }
+        this.records.delete(channelId);
+        for (const m3u8Key of Array.from(this.uploadCounts.keys())) {
+            if (m3u8Key.startsWith(`${channelId}/`)) {
+                this.snapshots.delete(m3u8Key);
+                this.uploadCounts.delete(m3u8Key);
+            }
+        }
+    }
+
+    public getRuleCounts(channelId: string): Partial<Record<HlsViolationRule, number>> {
+        const counts: Partial<Record<HlsViolationRule, number>> = {};
+        for (const record of this.getViolations(channelId)) {
+            for (const violation of record.violations) {
+                counts[violation.rule] = (counts[violation.rule] || 0) + 1;
+            }
+        }
+        return counts;
+    }
+
+    private validateMediaPlaylist(
+        playlist: HlsMediaPlaylist,
+        previous: PlaylistSnapshot | undefined,
+        report: (rule: HlsViolationRule, message: string, lineNumber?: number) => void
+    ): void {
+        // EXTINF는 반올림 후 EXT-X-TARGETDURATION을 넘을 수 없음
+        if (playlist.targetDuration === undefined) {
+            report('missing-target-duration', 'Media playlist has no EXT-X-TARGETDURATION tag');
+        } else {
+            for (const segment of playlist.segments) {
+                if (Math.round(segment.duration) > playlist.targetDuration) {
+                    report(
+                        'extinf-exceeds-target-duration',
+                        `EXTINF ${segment.duration} of ${segment.uri} exceeds EXT-X-TARGETDURATION ${playlist.targetDuration}`,
+                        segment.lineNumber
+                    );
+                }
+            }
+        }
+
+        // 사용된 기능에 필요한 EXT-X-VERSION
+        const required = getRequiredVersion(playlist);
+        const declared = playlist.version ?? 1;
+        if (required.version > declared) {
+            report('version-mismatch', `${required.reason} requires EXT-X-VERSION ${required.version}, playlist declares ${declared}`);
+        }
+
+        if (!previous || previous.mediaSequence === undefined) {
+            return;
+        }
+
+        // EXT-X-MEDIA-SEQUENCE는 감소할 수 없음
+        if (playlist.mediaSequence < previous.mediaSequence) {
+            report('media-sequence-decreased', `EXT-X-MEDIA-SEQUENCE decreased from ${previous.mediaSequence} to ${playlist.mediaSequence}`);
+        }
+        if (previous.discontinuitySequence !== undefined && playlist.discontinuitySequence < previous.discontinuitySequence) {
+            report(
+                'discontinuity-sequence',
+                `EXT-X-DISCONTINUITY-SEQUENCE decreased from ${previous.discontinuitySequence} to ${playlist.discontinuitySequence}`
+            );
+        }
+
+        // 이미 게시된 세그먼트는 URI, 길이, 불연속 시퀀스가 바뀔 수 없음
+        for (const segment of playlist.segments) {
+            const published = previous.segments.get(segment.mediaSequence);
+            if (!published) {
+                continue;
+            }
+            if (published.uri !== segment.uri || Math.abs(published.duration - segment.duration) > 0.001) {
+                report(
+                    'segment-changed',
+                    `Media sequence ${segment.mediaSequence} changed from ${published.uri} (${published.duration}s) to ${segment.uri} (${segment.duration}s)`,
+                    segment.lineNumber
+                );
+            }
+            if (published.discontinuitySequence !== segment.discontinuitySequence) {
+                report(
+                    'discontinuity-sequence',
+                    `Media sequence ${segment.mediaSequence} moved from discontinuity sequence ${published.discontinuitySequence} to ${segment.discontinuitySequence}`,
+                    segment.lineNumber
+                );
+            }
+        }
+    }
+
+    private createSnapshot(playlist: HlsPlaylist, revision: number): PlaylistSnapshot {
+        if (playlist.type !== 'media') {
+            return { revision, segments: new Map() };
+        }
+        return {
+            revision,
+            mediaSequence: playlist.mediaSequence,
+            discontinuitySequence: playlist.discontinuitySequence,
+            segments: new Map(playlist.segments.map(segment => [segment.mediaSequence, {
+                uri: segment.uri,
+                duration: segment.duration,
+                discontinuitySequence: segment.discontinuitySequence
+            }]))
+        };
+    }
+
+    private record(channelId: string, violations: HlsViolation[], content: string): void {
+        const channelRecords = this.records.get(channelId) || [];
+        channelRecords.push({ violations, playlist: content });
+        if (channelRecords.length > MAX_RECORDS_PER_CHANNEL) {
+            channelRecords.shift();
+        }
+        this.records.set(channelId, channelRecords);
+    }
+}
@@ -0,0 +1,225 @@
+import { Request, Response, NextFunction, RequestHandler } from 'express';
+import crypto from 'crypto';
+import { Logger } from 'winston';
+import logger from './logger';
+import { AuthConfig, AuthScheme, ChannelCredentials } from './configLoader';
+import { parseIngestPath } from './ingestPath';
+
+export interface AuthStats {
+    failures: number;       // Requests with wrong or malformed credentials
+    challenges: number;     // Requests without credentials that were answered with a challenge
+    lastFailureAt?: number;
+}
+
+const MAX_OUTSTANDING_NONCES = 10000;
+
+function md5(value: string): string {
+    return crypto.createHash('md5').update(value).digest('hex');
+}
+
+function safeEqual(a: string, b: string): boolean {
+    const bufferA = Buffer.from(a);
+    const bufferB = Buffer.from(b);
+    return bufferA.length === bufferB.length && crypto.timingSafeEqual(bufferA, bufferB);
+}
+
+// Digest 헤더 파라미터 파싱: key="value", key=value
+export function parseDigestParams(header: string): Record<string, string> {
+    const params: Record<string, string> = {};
+    const regex = /(\w+)=(?:"([^"]*)"|([^\s,]+))/g;
+    let match: RegExpExecArray | null;
+    while ((match = regex.exec(header)) !== null) {
+        params[match[1].toLowerCase()] = match[2] !== undefined ? match[2] : match[3];
+    }
+    return params;
+}
+
+// MediaPackage 인제스트 자격 증명 검증 (HTTP Basic / Digest)
+export class IngestAuthenticator {
+    private config: AuthConfig;
+    private logger: Logger;
+    private nonces: Map<string, number> = new Map();  // nonce -> 발급 시각
+    private opaque: string = crypto.randomBytes(16).toString('hex');
+    private stats: Map<string, AuthStats> = new Map();
+
+    constructor(config: AuthConfig, loggerInstance?: Logger) {
+        this.config = { ...config, channels: { ...config.channels } };
+        this.logger = loggerInstance || logger;
+    }
+
+    // redundantId를 지정하면 해당 인제스트 엔드포인트(파이프라인)에만 적용
+    public setCredentials(channelId: string, credentials: ChannelCredentials, redundantId?: string): void {
+        this.config.channels[this.getCredentialsKey(channelId, redundantId)] = credentials;
+    }
+
+    public removeCredentials(channelId: string, redundantId?: string): void {
+        delete this.config.channels[this.getCredentialsKey(channelId, redundantId)];
+    }
+
+    // 파이프라인별 자격 증명이 있으면 우선 사용, 없으면 채널 자격 증명 사용
+    public getCredentials(channelId: string, redundantId?: string): ChannelCredentials | undefined {
+        return (redundantId ? this.config.channels[this.getCredentialsKey(channelId, redundantId)] : undefined)
+            || this.config.channels[channelId];
+    }
+
+    public getStats(): Map<string, AuthStats> {
+        return this.stats;
+    }
+
+    public middleware(): RequestHandler {
+        return (req: Request, res: Response, next: NextFunction) => {
+            if (req.method !== 'PUT' && req.method !== 'DELETE') {
+                next();
+                return;
+            }
+
+            const pathInfo = parseIngestPath(req.path);
+            const credentials = pathInfo ? this.getCredentials(pathInfo.channelId, pathInfo.redundantId) : undefined;
+            if (!pathInfo || !credentials) {
+                next();
+                return;
+            }
+
+            const scheme = credentials.scheme || 'any';
+            const authorization = req.headers.authorization;
+
+            if (!authorization) {
+                this.getChannelStats(pathInfo.channelId).challenges++;
+                this.logger.debug(`[${pathInfo.channelId}] No credentials for ${req.method} ${req.originalUrl}, sending challenge`);
+                this.sendChallenge(req, res, scheme, false);
+                return;
+            }
+
+            const result = this.verify(authorization, credentials, scheme, req);
+            if (result === 'ok') {
+                next();
+                return;
+            }
+
+            if (result === 'stale') {
+                // 만료된 nonce는 인증 실패가 아니라 재인증 요청
+                this.logger.debug(`[${pathInfo.channelId}] Stale digest nonce for ${req.originalUrl}`);
+                this.sendChallenge(req, res, scheme, true);
+                return;
+            }
+
+            const stats = this.getChannelStats(pathInfo.channelId);
+            stats.failures++;
+            stats.lastFailureAt = Date.now();
+            this.logger.warn(`[${pathInfo.channelId}] Authentication failed for ${req.method} ${req.originalUrl}`);
+            this.sendChallenge(req, res, scheme, false);
+        };
+    }
+
+    private verify(
+        authorization: string,
+        credentials: ChannelCredentials,
+        scheme: AuthScheme,
+        req: Request
+    ): 'ok' | 'stale' | 'failed' {
+        const spaceIndex = authorization.indexOf(' ');
+        const type = (spaceIndex > 0 ? authorization.slice(0, spaceIndex) : authorization).toLowerCase();
+        const value = spaceIndex > 0 ? authorization.slice(spaceIndex + 1).trim() : '';
+
+        if (type === 'basic' && scheme !== 'digest') {
+            return this.verifyBasic(value, credentials) ? 'ok' : 'failed';
+        }
+        if (type === 'digest' && scheme !== 'basic') {
+            return this.verifyDigest(value, credentials, req);
+        }
+        return 'failed';
+    }
+
+    private verifyBasic(value: string, credentials: ChannelCredentials): boolean {
+        const decoded = Buffer.from(value, 'base64').toString('utf-8');
+        const separator = decoded.indexOf(':');
+        if (separator < 0) {
+            return false;
+        }
+        const username = decoded.slice(0, separator);
+        const password = decoded.slice(separator + 1);
+        return safeEqual(username, credentials.username) && safeEqual(password, credentials.password);
+    }
+
+    private verifyDigest(value: string, credentials: ChannelCredentials, req: Request): 'ok' | 'stale' | 'failed' {
+        const params = parseDigestParams(value);
+        const { username, realm, nonce, uri, response, qop, nc, cnonce } = params;
+
+        if (!username || !nonce || !uri || !response) {
+            return 'failed';
+        }
+        if (!safeEqual(username, credentials.username) || realm !== this.config.realm) {
+            return 'failed';
+        }
+        if (uri !== req.originalUrl && uri !== req.path) {
+            return 'failed';
+        }
+
+        const ha1 = md5(`${credentials.username}:${this.config.realm}:${credentials.password}`);
+        const ha2 = md5(`${req.method}:${uri}`);
+        const expected = qop
+            ? md5(`${ha1}:${nonce}:${nc}:${cnonce}:${qop}:${ha2}`)
+            : md5(`${ha1}:${nonce}:${ha2}`);
+
+        if (!safeEqual(expected, response.toLowerCase())) {
+            return 'failed';
+        }
+
+        // 자격 증명은 맞지만 nonce가 만료되었거나 알 수 없는 경우 (서버 재시작 등) 재인증 유도
+        const issuedAt = this.nonces.get(nonce);
+        if (issuedAt === undefined || Date.now() - issuedAt > this.config.nonceTtlSeconds * 1000) {
+            this.nonces.delete(nonce);
+            return 'stale';
+        }
+        return 'ok';
+    }
+
+    private sendChallenge(req: Request, res: Response, scheme: AuthScheme, stale: boolean): void {
+        const challenges: string[] = [];
+
+        if (scheme !== 'basic') {
+            const nonce = this.issueNonce();
+            challenges.push(
+                `Digest realm="${this.config.realm}", qop="auth", algorithm=MD5, nonce="${nonce}", opaque="${this.opaque}"${stale ? ', stale=true' : ''}`
+            );
+        }
+        if (scheme !== 'digest') {
+            challenges.push(`Basic realm="${this.config.realm}"`);
+        }
+
+        // 본문은 버리고 즉시 응답
+        req.resume();
+        res.setHeader('WWW-Authenticate', challenges);
+        res.status(401).send('Unauthorized');
+    }
+
+    private issueNonce(): string {
+        const now = Date.now();
+        const ttlMs = this.config.nonceTtlSeconds * 1000;
+
+        // 만료된 nonce 정리 (발급 순서대로 저장되므로 앞에서부터 확인)
+        for (const [nonce, issuedAt] of this.nonces.entries()) {
+            if (now - issuedAt <= ttlMs && this.nonces.size < MAX_OUTSTANDING_NONCES) {
+                break;
+            }
+            this.nonces.delete(nonce);
+        }
+
+        const nonce = crypto.randomBytes(16).toString('hex');
+        this.nonces.set(nonce, now);
+        return nonce;
+    }
+
+    private getCredentialsKey(channelId: string, redundantId?: string): string {
+        return redundantId ? `${channelId}/${redundantId}` : channelId;
+    }
+
+    private getChannelStats(channelId: string): AuthStats {
+        let stats = this.stats.get(channelId);
+        if (!stats) {
+            stats = { failures: 0, challenges: 0 };
+            this.stats.set(channelId, stats);
+        }
+        return stats;
+    }
+}
@@ -0,0 +1,147 @@
+import path from 'path';
+
+export type IngestFileType = 'playlist' | 'segment' | 'unknown';
+
+export interface IngestPathInfo {
+    channelId: string;
+    redundantId?: string;
+    filename: string;          // Path of the file relative to the channel (or pipeline) root
+    fileType: IngestFileType;
+    isMediaPackageV2: boolean;
+}
+
+// 세그먼트 확장자별 Content-Type (MPEG-TS, fMP4/CMAF, packed audio)
+const SEGMENT_CONTENT_TYPES: Record<string, string> = {
+    '.ts': 'video/mp2t',
+    '.m4s': 'video/iso.segment',
+    '.mp4': 'video/mp4',
+    '.cmfv': 'video/mp4',
+    '.cmfa': 'audio/mp4',
+    '.aac': 'audio/aac'
+};
+
+export const SEGMENT_EXTENSIONS = Object.keys(SEGMENT_CONTENT_TYPES);
+
+export const PLAYLIST_CONTENT_TYPE = 'application/vnd.apple.mpegurl';
+
+function getExtension(filename: string): string {
+    const withoutQuery = filename.split('?')[0];
+    const match = withoutQuery.match(/\.[^./]+$/);
+    return match ? match[0].toLowerCase() : '';
+}
+
+export function isSegmentFilename(filename: string): boolean {
+    return getExtension(filename) in SEGMENT_CONTENT_TYPES;
+}
+
+export function getIngestFileType(filename: string): IngestFileType {
+    if (getExtension(filename) === '.m3u8') {
+        return 'playlist';
+    }
+    if (isSegmentFilename(filename)) {
+        return 'segment';
+    }
+    return 'unknown';
+}
+
+export function getContentType(filename: string): string {
+    if (getExtension(filename) === '.m3u8') {
+        return PLAYLIST_CONTENT_TYPE;
+    }
+    return SEGMENT_CONTENT_TYPES[getExtension(filename)] || 'application/octet-stream';
+}
+
+// 요청 경로에서 채널 ID, 리던던트 ID, 파일명 추출
+// 지원 형식: /live/{channelId}/{filename}, /in/v2/{channelId}/{redundantId}/{filename}
+export function parseIngestPath(urlPath: string): IngestPathInfo | null {
+    const parts = urlPath.split('/').filter(part => part.length > 0);
+
+    if (parts[0] === 'in' && parts[1] === 'v2') {
+        if (parts.length < 4) {
+            return null;
+        }
+        const rest = parts.slice(4).join('/');
+        // /in/v2/{channelId}/{redundantId}/channel 은 기본 플레이리스트
+        const filename = rest === '' || rest === 'channel' ? 'playlist.m3u8' : rest;
+        return {
+            channelId: parts[2],
+            redundantId: parts[3],
+            filename,
+            fileType: getIngestFileType(filename),
+            isMediaPackageV2: true
+        };
+    }
+
+    if (parts[0] === 'live' && parts.length >= 2) {
+        let filename = parts.slice(2).join('/');
+        if (filename === '') {
+            // 경로가 슬래시로 끝나면 기본 파일명 사용
+            filename = 'playlist.m3u8';
+        } else if (!filename.includes('.')) {
+            filename = `${filename}.m3u8`;
+        }
+        return {
+            channelId: parts[1],
+            filename,
+            fileType: getIngestFileType(filename),
+            isMediaPackageV2: false
+        };
+    }
+
+    return null;
+}
+
+// 채널(또는 리던던트 파이프라인)의 인제스트 루트 경로: /live/{channelId}/ 또는 /in/v2/{channelId}/{redundantId}/
+export function getPipelineRoot(pathInfo: IngestPathInfo): string {
+    return pathInfo.isMediaPackageV2
+        ? `/in/v2/${pathInfo.channelId}/${pathInfo.redundantId}/`
+        : `/live/${pathInfo.channelId}/`;
+}
+
+// 파이프라인 루트 기준 상대 경로 정규화 (쿼리 문자열/프래그먼트 제외)
+export function normalizeIngestPath(filePath: string): string {
+    return path.posix.normalize(filePath.split(/[?#]/)[0]).replace(/^\/+/, '');
+}
+
+// 루트 밖을 가리키는 경로 (예: ../other/segment.ts)
+export function isOutsidePipelineRoot(relativePath: string): boolean {
+    return relativePath === '..' || relativePath.startsWith('../') || path.posix.isAbsolute(relativePath);
+}
+
+// 플레이리스트 URL을 기준으로 세그먼트 URI를 해석하여 파이프라인 루트 기준 경로로 변환
+// 예: /live/ch1/video/index.m3u8 의 "seg_1.ts" -> "video/seg_1.ts", "/live/ch1/audio/seg_1.aac" -> "audio/seg_1.aac"
+export function resolveSegmentPath(playlistPath: IngestPathInfo, uri: string): string {
+    let target = uri.split(/[?#]/)[0];
+
+    if (/^[a-z][a-z0-9+.-]*:\/\//i.test(target)) {
+        try {
+            target = new URL(target).pathname;
+        } catch {
+            return normalizeIngestPath(target);
+        }
+    }
+
+    if (target.startsWith('/')) {
+        const root = getPipelineRoot(playlistPath);
+        return target.startsWith(root)
+            ? normalizeIngestPath(target.slice(root.length))
+            : path.posix.normalize(target);
+    }
+
+    return normalizeIngestPath(path.posix.join(path.posix.dirname(playlistPath.filename), target));
+}
+
+// 트래킹 키 생성: channelId/filename.m3u8 (리던던트 파이프라인은 channelId/redundantId/filename.m3u8)
+export function getTrackingKey(channelId: string, redundantId: string | undefined, filename: string): string {
+    const baseFilename = filename.replace(/\.[^.]+$/, '');
+    return redundantId
+        ? `${channelId}/${redundantId}/${baseFilename}.m3u8`
+        : `${channelId}/${baseFilename}.m3u8`;
+}
+
+// 파일 저장 디렉토리: 리던던트 파이프라인별로 분리하여 서로 덮어쓰지 않도록 함
+export function getStorageDir(mockStoragePath: string, channelId: string, redundantId?: string): string {
+    return redundantId
+        ? path.join(mockStoragePath, channelId, redundantId)
+        : path.join(mockStoragePath, channelId);
+}
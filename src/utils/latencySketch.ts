@@ -0,0 +1,236 @@
+import { Logger } from 'winston';
+import logger from './logger';
+import { IngestEventBus } from './eventBus';
+
+// 상대 오차 1% 로그 버킷 - 1 ms ~ 10^8 ms 범위가 약 920개 버킷에 들어감
+const RELATIVE_ACCURACY = 0.01;
+const GAMMA = (1 + RELATIVE_ACCURACY) / (1 - RELATIVE_ACCURACY);
+const LOG_GAMMA = Math.log(GAMMA);
+// 버킷 수 상한 - 넘으면 가장 낮은 버킷부터 합침 (낮은 분위수 정확도만 떨어짐)
+const MAX_BUCKETS = 1024;
+// 롤링 윈도우는 이 개수의 시간 조각으로 나눠 보관 (윈도우 경계 오차는 조각 하나 이내)
+const SLICES_PER_WINDOW = 10;
+
+export const REPORTED_QUANTILES = [0.5, 0.9, 0.95, 0.99];
+
+// 세션 전체와 롤링 윈도우 분위수 추정용 스트리밍 스케치 (DDSketch 방식, 메모리 상한 있음)
+export class QuantileSketch {
+    private buckets: Map<number, number> = new Map();
+    private zeroCount = 0;
+    public count = 0;
+
+    public add(value: number, weight = 1): void {
+        this.count += weight;
+        if (value < 1) {
+            this.zeroCount += weight;
+            return;
+        }
+        const index = Math.ceil(Math.log(value) / LOG_GAMMA);
+        this.buckets.set(index, (this.buckets.get(index) || 0) + weight);
+        if (this.buckets.size > MAX_BUCKETS) {
+            this.collapseLowestBuckets();
+        }
+    }
+
+    public merge(other: QuantileSketch): void {
+        this.count += other.count;
+        this.zeroCount += other.zeroCount;
+        for (const [index, weight] of other.buckets.entries()) {
+            this.buckets.set(index, (this.buckets.get(index) || 0) + weight);
+        }
+        while (this.buckets.size > MAX_BUCKETS) {
+            this.collapseLowestBuckets();
+        }
+    }
+
+    public quantile(q: number): number | undefined {
+        if (this.count === 0) {
+            return undefined;
+        }
+        const rank = q * (this.count - 1);
+        let cumulative = this.zeroCount;
+        if (cumulative > rank) {
+            return 0;
+        }
+        const indexes = Array.from(this.buckets.keys()).sort((a, b) => a - b);
+        for (const index of indexes) {
+            cumulative += this.buckets.get(index)!;
+            if (cumulative > rank) {
+                return (2 * Math.pow(GAMMA, index)) / (GAMMA + 1);
+            }
+        }
+        return (2 * Math.pow(GAMMA, indexes[indexes.length - 1])) / (GAMMA + 1);
+    }
+
+    private collapseLowestBuckets(): void {
+        const [lowest, next] = Array.from(this.buckets.keys()).sort((a, b) => a - b);
+        this.buckets.set(next, this.buckets.get(next)! + this.buckets.get(lowest)!);
+        this.buckets.delete(lowest);
+    }
+}
+
+export interface Percentiles {
+    count: number;
+    p50: number;
+    p90: number;
+    p95: number;
+    p99: number;
+}
+
+interface TimeSlice {
+    start: number;
+    sketch: QuantileSketch;
+}
+
+// 세션 스케치와 윈도우별 시간 조각 스케치 - 오래된 조각은 기록 시 제거
+class WindowedSketch {
+    private session = new QuantileSketch();
+    private windows: Map<number, TimeSlice[]> = new Map();
+
+    constructor(windowsMs: number[]) {
+        windowsMs.forEach(windowMs => this.windows.set(windowMs, []));
+    }
+
+    public add(value: number, at: number): void {
+        this.session.add(value);
+        for (const [windowMs, slices] of this.windows.entries()) {
+            const sliceMs = windowMs / SLICES_PER_WINDOW;
+            const start = Math.floor(at / sliceMs) * sliceMs;
+            let slice = slices[slices.length - 1];
+            if (!slice || slice.start < start) {
+                slice = { start, sketch: new QuantileSketch() };
+                slices.push(slice);
+            }
+            // 늦게 도착한 값(과거 시각)은 가장 최근 조각에 기록
+            slice.sketch.add(value);
+            while (slices.length > 0 && slices[0].start + sliceMs <= at - windowMs) {
+                slices.shift();
+            }
+        }
+    }
+
+    public getSession(): Percentiles | undefined {
+        return toPercentiles(this.session);
+    }
+
+    public getWindow(windowMs: number, now: number): Percentiles | undefined {
+        const sliceMs = windowMs / SLICES_PER_WINDOW;
+        const merged = new QuantileSketch();
+        (this.windows.get(windowMs) || [])
+            .filter(slice => slice.start + sliceMs > now - windowMs)
+            .forEach(slice => merged.merge(slice.sketch));
+        return toPercentiles(merged);
+    }
+}
+
+function toPercentiles(sketch: QuantileSketch): Percentiles | undefined {
+    if (sketch.count === 0) {
+        return undefined;
+    }
+    const [p50, p90, p95, p99] = REPORTED_QUANTILES.map(q => sketch.quantile(q)!);
+    return { count: sketch.count, p50, p90, p95, p99 };
+}
+
+// transferDelay: 플레이리스트 등장 -> 세그먼트 수신, arrivalInterval: 연속 세그먼트 수신 간격, m3u8UpdateInterval: 플레이리스트 갱신 간격
+export type LatencyMetric = 'transferDelay' | 'arrivalInterval' | 'm3u8UpdateInterval';
+
+// 'session' 또는 윈도우 이름('1m', '5m', '1h')별 분위수 (샘플이 없으면 undefined)
+export type LatencyPercentiles = Record<LatencyMetric, Record<string, Percentiles | undefined>>;
+
+interface StreamSketches {
+    channelId: string;
+    metrics: Record<LatencyMetric, WindowedSketch>;
+    lastSegmentAt?: number;
+    lastPlaylistAt?: number;
+}
+
+export function formatWindow(windowSeconds: number): string {
+    if (windowSeconds % 3600 === 0) {
+        return `${windowSeconds / 3600}h`;
+    }
+    if (windowSeconds % 60 === 0) {
+        return `${windowSeconds / 60}m`;
+    }
+    return `${windowSeconds}s`;
+}
+
+// 스트림(트래킹 키)별 지연 시간 분위수 추적 - 이벤트 버스의 세그먼트 수신/플레이리스트 갱신 이벤트로 기록
+export class LatencyPercentileTracker {
+    private windowsSeconds: number[];
+    private logger: Logger;
+    private streams: Map<string, StreamSketches> = new Map();
+
+    constructor(windowsSeconds: number[], loggerInstance?: Logger, options: { eventBus?: IngestEventBus } = {}) {
+        this.windowsSeconds = windowsSeconds;
+        this.logger = loggerInstance || logger;
+
+        options.eventBus?.on('segment-received', event => {
+            const stream = this.getStream(event.m3u8Key, event.channelId);
+            if (event.transferDelayMs !== undefined && !event.preAnnounced) {
+                stream.metrics.transferDelay.add(event.transferDelayMs, event.at);
+            }
+            // 나중에 매칭된 선행 업로드처럼 과거 시각의 수신은 간격 계산에서 제외 (세그먼트 원장과 같은 기준)
+            if (stream.lastSegmentAt !== undefined && event.at >= stream.lastSegmentAt) {
+                stream.metrics.arrivalInterval.add(event.at - stream.lastSegmentAt, event.at);
+            }
+            stream.lastSegmentAt = Math.max(stream.lastSegmentAt ?? event.at, event.at);
+        });
+        options.eventBus?.on('playlist-updated', event => {
+            const stream = this.getStream(event.m3u8Key, event.channelId);
+            if (stream.lastPlaylistAt !== undefined) {
+                stream.metrics.m3u8UpdateInterval.add(event.at - stream.lastPlaylistAt, event.at);
+            }
+            stream.lastPlaylistAt = event.at;
+        });
+    }
+
+    public record(m3u8Key: string, channelId: string, metric: LatencyMetric, valueMs: number, at = Date.now()): void {
+        this.getStream(m3u8Key, channelId).metrics[metric].add(valueMs, at);
+    }
+
+    public getPercentiles(m3u8Key: string, now = Date.now()): LatencyPercentiles | undefined {
+        const stream = this.streams.get(m3u8Key);
+        if (!stream) {
+            return undefined;
+        }
+
+        const describe = (sketch: WindowedSketch) => {
+            const result: Record<string, Percentiles | undefined> = { session: sketch.getSession() };
+            this.windowsSeconds.forEach(windowSeconds => {
+                result[formatWindow(windowSeconds)] = sketch.getWindow(windowSeconds * 1000, now);
+            });
+            return result;
+        };
+        return {
+            transferDelay: describe(stream.metrics.transferDelay),
+            arrivalInterval: describe(stream.metrics.arrivalInterval),
+            m3u8UpdateInterval: describe(stream.metrics.m3u8UpdateInterval)
+        };
+    }
+
+    public reset(channelId?: string): void {
+        for (const [m3u8Key, stream] of Array.from(this.streams.entries())) {
+            if (channelId === undefined || stream.channelId === channelId) {
+                this.streams.delete(m3u8Key);
+            }
+        }
+    }
+
+    private getStream(m3u8Key: string, channelId: string): StreamSketches {
+        let stream = this.streams.get(m3u8Key);
+        if (!stream) {
+            const windowsMs = this.windowsSeconds.map(windowSeconds => windowSeconds * 1000);
+            stream = {
+                channelId,
+                metrics: {
+                    transferDelay: new WindowedSketch(windowsMs),
+                    arrivalInterval: new WindowedSketch(windowsMs),
+                    m3u8UpdateInterval: new WindowedSketch(windowsMs)
+                }
+            };
+            this.streams.set(m3u8Key, stream);
+            this.logger.debug(`Tracking latency percentiles for ${m3u8Key}`);
+        }
+        return stream;
+    }
+}
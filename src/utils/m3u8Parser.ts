@@ -1,157 +1,349 @@
-import { M3u8TrackingInfo, SegmentInfo } from '../types';
-import path from 'path';
+import {
+    HlsByteRange,
+    HlsKey,
+    HlsMap,
+    HlsMasterPlaylist,
+    HlsMediaPlaylist,
+    HlsPlaylist,
+    HlsRendition,
+    HlsSegment,
+    HlsTag,
+    HlsVariantStream,
+    M3u8TrackingInfo,
+    SegmentInfo
+} from '../types';
 import logger from './logger';
+import { normalizeIngestPath, parseIngestPath, resolveSegmentPath } from './ingestPath';
+import { buildLedgerIndex } from './segmentLedger';
 
-export function parseM3u8(content: string, m3u8Uri: string, channelId: string): M3u8TrackingInfo | null {
-    const lines = content.split('\n');
-    let targetDuration = 5; // Default target duration for master playlists
-    const segments = new Map<string, SegmentInfo>();
-    let isMasterPlaylist = false;
-    const now = Date.now();
+// 속성 목록 파싱: KEY=VALUE,KEY="quoted, value" (RFC 8216 4.2)
+export function parseAttributeList(value: string): Record<string, string> {
+    const attributes: Record<string, string> = {};
+    const regex = /([A-Z0-9-]+)=("[^"]*"|[^,]*)/g;
+    let match: RegExpExecArray | null;
+    while ((match = regex.exec(value)) !== null) {
+        const attributeValue = match[2];
+        attributes[match[1]] = attributeValue.startsWith('"') && attributeValue.endsWith('"') && attributeValue.length >= 2
+            ? attributeValue.slice(1, -1)
+            : attributeValue.trim();
+    }
+    return attributes;
+}
+
+function parseOptionalNumber(value: string | undefined): number | undefined {
+    if (value === undefined || value === '') {
+        return undefined;
+    }
+    const parsed = Number(value);
+    return isNaN(parsed) ? undefined : parsed;
+}
+
+// <n>[@<o>] 형식, 오프셋이 없으면 같은 리소스의 이전 범위 끝에서 이어짐
+function parseByteRange(value: string, previousEnd: number): HlsByteRange | undefined {
+    const [lengthPart, offsetPart] = value.split('@');
+    const length = parseInt(lengthPart, 10);
+    const offset = offsetPart !== undefined ? parseInt(offsetPart, 10) : previousEnd;
+    return isNaN(length) || isNaN(offset) ? undefined : { length, offset };
+}
+
+function parseVariantStream(attributes: Record<string, string>, uri: string, lineNumber: number): HlsVariantStream {
+    const resolutionMatch = attributes['RESOLUTION']?.match(/^(\d+)x(\d+)$/);
+    return {
+        uri,
+        bandwidth: parseOptionalNumber(attributes['BANDWIDTH']),
+        averageBandwidth: parseOptionalNumber(attributes['AVERAGE-BANDWIDTH']),
+        codecs: attributes['CODECS'],
+        resolution: resolutionMatch
+            ? { width: parseInt(resolutionMatch[1], 10), height: parseInt(resolutionMatch[2], 10) }
+            : undefined,
+        frameRate: parseOptionalNumber(attributes['FRAME-RATE']),
+        audio: attributes['AUDIO'],
+        video: attributes['VIDEO'],
+        subtitles: attributes['SUBTITLES'],
+        closedCaptions: attributes['CLOSED-CAPTIONS'],
+        attributes,
+        lineNumber
+    };
+}
+
+// M3U8 내용을 구조화된 HLS 플레이리스트 모델로 파싱 (마스터/미디어 플레이리스트 구분)
+export function parsePlaylist(content: string): HlsPlaylist {
+    const lines = content.split(/\r?\n/);
+    const tags: HlsTag[] = [];
+
+    let version: number | undefined;
+    let independentSegments = false;
+
+    // 마스터 플레이리스트 항목
+    const variants: HlsVariantStream[] = [];
+    const iFrameVariants: HlsVariantStream[] = [];
+    const renditions: HlsRendition[] = [];
+    let pendingVariant: { attributes: Record<string, string>; lineNumber: number } | undefined;
+
+    // 미디어 플레이리스트 항목
+    const segments: HlsSegment[] = [];
+    let targetDuration: number | undefined;
+    let mediaSequence = 0;
+    let discontinuitySequence = 0;
+    let playlistType: string | undefined;
+    let endList = false;
+
+    // 다음 세그먼트 URI에 적용될 상태
+    let pendingDuration: number | undefined;
+    let pendingTitle: string | undefined;
+    let pendingDiscontinuity = false;
+    let pendingProgramDateTime: number | undefined;
+    let pendingByteRange: string | undefined;
+    let currentKey: HlsKey | undefined;
+    let currentMap: HlsMap | undefined;
+    let segmentCount = 0;
+    let discontinuityCount = 0;
+    const byteRangeEnds = new Map<string, number>();
+
+    for (let i = 0; i < lines.length; i++) {
+        const line = lines[i].trim();
+        const lineNumber = i + 1;
 
+        if (line === '') {
+            continue;
+        }
+
+        if (!line.startsWith('#')) {
+            // URI 줄
+            if (pendingVariant) {
+                variants.push(parseVariantStream(pendingVariant.attributes, line, pendingVariant.lineNumber));
+                pendingVariant = undefined;
+            } else if (pendingDuration !== undefined) {
+                let byteRange: HlsByteRange | undefined;
+                if (pendingByteRange !== undefined) {
+                    byteRange = parseByteRange(pendingByteRange, byteRangeEnds.get(line) ?? 0);
+                    if (byteRange) {
+                        byteRangeEnds.set(line, byteRange.offset + byteRange.length);
+                    }
+                }
+
+                segments.push({
+                    uri: line,
+                    duration: pendingDuration,
+                    title: pendingTitle,
+                    mediaSequence: mediaSequence + segmentCount,
+                    discontinuitySequence: discontinuitySequence + discontinuityCount,
+                    discontinuity: pendingDiscontinuity,
+                    programDateTime: pendingProgramDateTime,
+                    byteRange,
+                    key: currentKey,
+                    map: currentMap,
+                    lineNumber
+                });
+                segmentCount++;
+
+                pendingDuration = undefined;
+                pendingTitle = undefined;
+                pendingDiscontinuity = false;
+                pendingProgramDateTime = undefined;
+                pendingByteRange = undefined;
+            }
+            continue;
+        }
+
+        // 일반 주석은 무시
+        if (!line.startsWith('#EXT')) {
+            continue;
+        }
+
+        const separator = line.indexOf(':');
+        const name = (separator >= 0 ? line.slice(1, separator) : line.slice(1)).trim();
+        const value = separator >= 0 ? line.slice(separator + 1).trim() : undefined;
+        tags.push({ name, value, lineNumber });
+
+        switch (name) {
+            case 'EXT-X-VERSION':
+                version = parseOptionalNumber(value);
+                break;
+            case 'EXT-X-INDEPENDENT-SEGMENTS':
+                independentSegments = true;
+                break;
+            case 'EXT-X-STREAM-INF':
+                pendingVariant = { attributes: parseAttributeList(value || ''), lineNumber };
+                break;
+            case 'EXT-X-I-FRAME-STREAM-INF': {
+                const attributes = parseAttributeList(value || '');
+                if (attributes['URI']) {
+                    iFrameVariants.push(parseVariantStream(attributes, attributes['URI'], lineNumber));
+                }
+                break;
+            }
+            case 'EXT-X-MEDIA': {
+                const attributes = parseAttributeList(value || '');
+                renditions.push({
+                    type: attributes['TYPE'] || '',
+                    groupId: attributes['GROUP-ID'] || '',
+                    name: attributes['NAME'] || '',
+                    uri: attributes['URI'],
+                    language: attributes['LANGUAGE'],
+                    isDefault: attributes['DEFAULT'] === 'YES',
+                    autoselect: attributes['AUTOSELECT'] === 'YES',
+                    attributes,
+                    lineNumber
+                });
+                break;
+            }
+            case 'EXT-X-TARGETDURATION':
+                targetDuration = parseOptionalNumber(value);
+                break;
+            case 'EXT-X-MEDIA-SEQUENCE':
+                mediaSequence = parseInt(value || '', 10) || 0;
+                break;
+            case 'EXT-X-DISCONTINUITY-SEQUENCE':
+                discontinuitySequence = parseInt(value || '', 10) || 0;
+                break;
+            case 'EXT-X-PLAYLIST-TYPE':
+                playlistType = value;
+                break;
+            case 'EXT-X-ENDLIST':
+                endList = true;
+                break;
+            case 'EXTINF': {
+                const commaIndex = (value || '').indexOf(',');
+                const durationPart = commaIndex >= 0 ? value!.slice(0, commaIndex) : value || '';
+                const duration = parseFloat(durationPart);
+                pendingDuration = isNaN(duration) ? 0 : duration;
+                pendingTitle = commaIndex >= 0 ? value!.slice(commaIndex + 1) || undefined : undefined;
+                break;
+            }
+            case 'EXT-X-DISCONTINUITY':
+                pendingDiscontinuity = true;
+                discontinuityCount++;
+                break;
+            case 'EXT-X-PROGRAM-DATE-TIME': {
+                const parsed = Date.parse(value || '');
+                pendingProgramDateTime = isNaN(parsed) ? undefined : parsed;
+                break;
+            }
+            case 'EXT-X-BYTERANGE':
+                pendingByteRange = value;
+                break;
+            case 'EXT-X-KEY': {
+                const attributes = parseAttributeList(value || '');
+                const method = attributes['METHOD'] || 'NONE';
+                currentKey = method === 'NONE' ? undefined : {
+                    method,
+                    uri: attributes['URI'],
+                    iv: attributes['IV'],
+                    keyFormat: attributes['KEYFORMAT'],
+                    keyFormatVersions: attributes['KEYFORMATVERSIONS']
+                };
+                break;
+            }
+            case 'EXT-X-MAP': {
+                const attributes = parseAttributeList(value || '');
+                if (attributes['URI']) {
+                    const byteRange = attributes['BYTERANGE'] ? parseByteRange(attributes['BYTERANGE'], 0) : undefined;
+                    currentMap = { uri: attributes['URI'], byteRange };
+                }
+                break;
+            }
+        }
+    }
+
+    if (variants.length > 0 || iFrameVariants.length > 0) {
+        const master: HlsMasterPlaylist = {
+            type: 'master',
+            version,
+            independentSegments,
+            variants,
+            iFrameVariants,
+            renditions,
+            tags
+        };
+        return master;
+    }
+
+    const media: HlsMediaPlaylist = {
+        type: 'media',
+        version,
+        targetDuration,
+        mediaSequence,
+        discontinuitySequence,
+        playlistType,
+        endList,
+        independentSegments,
+        segments,
+        tags
+    };
+    return media;
+}
+
+// 미디어 플레이리스트만 세그먼트 트래킹 대상 (마스터 플레이리스트는 masterPlaylist.ts에서 별도로 추적)
+export function parseM3u8(content: string, m3u8Uri: string, channelId: string): M3u8TrackingInfo | null {
     logger.debug(`Parsing M3U8 content for URI: ${m3u8Uri}, channelId: ${channelId}`);
     logger.debug(`M3U8 content length: ${content.length} bytes`);
     
     // 디버그 - M3U8 내용 로깅
     logger.debug("M3U8 Content (first 500 chars):", content.substring(0, 500));
 
-    // M3U8 파일 경로에서 기본 파일명(확장자 제외) 추출
-    const isMediaPackageV2 = m3u8Uri.startsWith('/in/v2/');
-    let m3u8BaseName = '';
-
-    if (isMediaPackageV2) {
-        // MediaPackage v2 스타일 URL에서 파일명 추출
-        if (m3u8Uri.endsWith('/channel')) {
-            m3u8BaseName = 'playlist';
-        } else {
-            // /in/v2/{channelId}/{redundantId}/{filename}.m3u8 형식에서 filename 추출
-            const parts = m3u8Uri.split('/');
-            const lastPart = parts[parts.length - 1];
-            m3u8BaseName = lastPart.replace(/\.[^.]+$/, ''); // 확장자 제거
-        }
-    } else {
-        // 일반 스타일 URL에서 파일명 추출
-        const parts = m3u8Uri.split('/');
-        const lastPart = parts[parts.length - 1];
-        m3u8BaseName = lastPart.replace(/\.[^.]+$/, ''); // 확장자 제거
-        if (m3u8BaseName === '') {
-            m3u8BaseName = 'playlist';
-        }
+    const playlist = parsePlaylist(content);
+    if (playlist.type === 'master') {
+        logger.debug(`M3U8 ${m3u8Uri} is a master playlist with ${playlist.variants.length} variant(s), no segments to track`);
+        return null;
     }
 
-    logger.debug(`Extracted M3U8 base name: ${m3u8BaseName}`);
-    
-    // M3U8 파일 경로에서 디렉토리 부분 추출
-    const m3u8Path = m3u8Uri.split('/').slice(0, -1).join('/');
-    logger.debug(`M3U8 base path: ${m3u8Path}`);
+    return buildTrackingInfo(playlist, m3u8Uri, channelId);
+}
 
-    for (let i = 0; i < lines.length; i++) {
-        const line = lines[i].trim();
-        
-        if (line.startsWith('#EXT-X-STREAM-INF:')) {
-            isMasterPlaylist = true;
-            const variantUri = lines[i + 1].trim();
-            if (variantUri) {
-                segments.set(variantUri, {
-                    uri: variantUri,
-                    duration: targetDuration,
+// 미디어 플레이리스트 모델로부터 세그먼트 트래킹 정보 생성
+export function buildTrackingInfo(playlist: HlsMediaPlaylist, m3u8Uri: string, channelId: string): M3u8TrackingInfo | null {
+    let targetDuration = 5; // Default target duration when EXT-X-TARGETDURATION is missing
+    const segments = new Map<string, SegmentInfo>();
+    const now = Date.now();
+
+    // 세그먼트 URI는 플레이리스트 URL 기준으로 해석 (인제스트 경로가 아니면 쿼리 문자열만 제거)
+    const playlistPath = parseIngestPath(m3u8Uri);
+    const resolveUri = (uri: string): string => playlistPath
+        ? resolveSegmentPath(playlistPath, uri)
+        : normalizeIngestPath(uri);
+
+    if (playlist.targetDuration !== undefined) {
+        targetDuration = playlist.targetDuration;
+        logger.debug(`Target duration: ${targetDuration}`);
+    }
+    logger.debug(`Media sequence: ${playlist.mediaSequence}`);
+
+    for (const hlsSegment of playlist.segments) {
+        // fMP4/CMAF 초기화 세그먼트 (#EXT-X-MAP:URI="init.mp4")
+        if (hlsSegment.map) {
+            const initRelativePath = resolveUri(hlsSegment.map.uri);
+            if (!segments.has(initRelativePath)) {
+                segments.set(initRelativePath, {
+                    uri: initRelativePath,
+                    duration: 0,
+                    kind: 'init',
                     received: false,
                     firstSeenAt: now
                 });
-                logger.debug(`Added variant stream: ${variantUri}`);
-            }
-            i++; // Skip the next line as we've already processed it
-        } else if (line.startsWith('#EXT-X-TARGETDURATION:')) {
-            targetDuration = parseInt(line.split(':')[1], 10);
-            logger.debug(`Target duration: ${targetDuration}`);
-        } else if (line.startsWith('#EXTINF:')) {
-            const duration = parseFloat(line.split(':')[1].split(',')[0]);
-            
-            // 다음 줄에 있는 세그먼트 경로 가져오기
-            if (i + 1 < lines.length) {
-                const segmentUri = lines[i + 1].trim();
-                
-                if (segmentUri && !segmentUri.startsWith('#')) {
-                    // 상대 경로만 추출 (전체 경로에서 파일명만 가져옴)
-                    const segmentRelativePath = segmentUri.includes('/') 
-                        ? segmentUri.split('/').pop() || segmentUri 
-                        : segmentUri;
-                    
-                    // 원본 세그먼트 경로도 유지 (추가적인 매칭 가능성을 위해)
-                    const originalSegmentUri = segmentUri;
-                    
-                    logger.debug(`Found segment: ${segmentRelativePath}, duration: ${duration}`);
-                    
-                    // 기본 세그먼트 정보 생성
-                    const segmentInfo: SegmentInfo = {
-                        uri: segmentRelativePath,
-                        duration,
-                        received: false,
-                        firstSeenAt: now
-                    };
-                    
-                    // 세그먼트를 맵에 추가 (파일명만 사용)
-                    segments.set(segmentRelativePath, segmentInfo);
-                    
-                    // MediaPackage v2 스타일 URL에서는 추가 형식의 세그먼트 키도 함께 추가
-                    if (isMediaPackageV2) {
-                        // TS 파일인 경우에만 추가 매핑
-                        if (segmentRelativePath.endsWith('.ts')) {
-                            // 확장자 제거
-                            const filenameWithoutExt = segmentRelativePath.replace(/\.[^.]+$/, '');
-                            
-                            // 언더스코어(_)로 분리된 패턴 처리
-                            if (filenameWithoutExt.includes('_')) {
-                                const parts = filenameWithoutExt.split('_');
-                                
-                                // MediaPackage 패턴: channel_123_456.ts와 같은 형식
-                                // 실제 수신되는 세그먼트 파일 형식과 일치하도록 하기 위해
-                                // 다양한 패턴을 등록해 놓음
-                                
-                                if (parts.length >= 3) {
-                                    // 추가 패턴 1: 숫자 변형
-                                    // 예: channel_123_456.ts -> channel_123_457.ts, channel_123_458.ts 등
-                                    const baseNameWithoutNum = parts.slice(0, -1).join('_');
-                                    const lastNum = parseInt(parts[parts.length - 1]);
-                                    
-                                    if (!isNaN(lastNum)) {
-                                        // 원래 번호 기준으로 근접한 번호들 추가
-                                        for (let num = lastNum - 5; num <= lastNum + 5; num++) {
-                                            if (num !== lastNum && num >= 0) {
-                                                const variantName = `${baseNameWithoutNum}_${num}.ts`;
-                                                segments.set(variantName, { ...segmentInfo });
-                                                logger.debug(`Added numeric variant: ${variantName}`);
-                                            }
-                                        }
-                                    }
-                                }
-                                
-                                // 추가 패턴 2: 파일 이름을 더 일반화된 패턴으로 추가
-                                if (parts.length >= 2) {
-                                    // 첫 번째 부분만 사용한 패턴
-                                    const simpleVariant = `${parts[0]}.ts`;
-                                    if (simpleVariant !== segmentRelativePath) {
-                                        segments.set(simpleVariant, { ...segmentInfo });
-                                        logger.debug(`Added simplified variant: ${simpleVariant}`);
-                                    }
-                                    
-                                    // 첫 두 부분만 사용한 패턴
-                                    if (parts.length >= 3) {
-                                        const mediumVariant = `${parts[0]}_${parts[1]}.ts`;
-                                        if (mediumVariant !== segmentRelativePath) {
-                                            segments.set(mediumVariant, { ...segmentInfo });
-                                            logger.debug(`Added medium simplified variant: ${mediumVariant}`);
-                                        }
-                                    }
-                                }
-                            }
-                        }
-                    }
-                    
-                    i++; // 다음 줄 건너뛰기 (이미 처리했으므로)
-                }
+                logger.debug(`Found init segment: ${initRelativePath}`);
             }
         }
+
+        // 플레이리스트 URL 기준으로 해석한 경로 (업로드 경로와 정확히 일치해야 수신으로 처리)
+        const segmentRelativePath = resolveUri(hlsSegment.uri);
+        const duration = hlsSegment.duration;
+
+        logger.debug(`Found segment: ${segmentRelativePath}, duration: ${duration}`);
+
+        // 기본 세그먼트 정보 생성
+        const segmentInfo: SegmentInfo = {
+            uri: segmentRelativePath,
+            duration,
+            kind: 'media',
+            mediaSequence: hlsSegment.mediaSequence,
+            received: false,
+            firstSeenAt: now,
+            state: 'announced'
+        };
+
+        // 세그먼트를 맵에 추가 (파이프라인 루트 기준 경로 사용)
+        segments.set(segmentRelativePath, segmentInfo);
     }
 
     if (segments.size === 0) {
@@ -171,10 +363,16 @@ export function parseM3u8(content: string, m3u8Uri: string, channelId: string):
         logger.debug(`Sample segment keys [${segmentKeys.length}/${segments.size}]: ${segmentKeys.join(', ')}`);
     }
 
+    const ledger = new Map(Array.from(segments.values())
+        .filter(segment => segment.mediaSequence !== undefined)
+        .map(segment => [segment.mediaSequence!, segment]));
+
     return {
         m3u8Uri,
         targetDuration,
         segments,
+        ledger,
+        ledgerIndex: buildLedgerIndex(ledger),
         channelId,
         allSegmentsReceived: false,
         lastSegmentReceivedTime: now,
@@ -184,6 +382,12 @@ export function parseM3u8(content: string, m3u8Uri: string, channelId: string):
         timeoutEvents: 0,
         successiveTimeouts: 0,
         maxSuccessiveTimeouts: 0,
-        segmentArrivalIntervals: []
+        segmentArrivalIntervals: [],
+        deletedSegments: 0,
+        deletedUnreceivedSegments: 0,
+        inexactMatches: [],
+        sequenceMatches: 0,
+        fuzzyMatches: 0,
+        playlist
     };
 } 
\ No newline at end of file
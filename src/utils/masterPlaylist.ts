@@ -0,0 +1,141 @@
+import { HlsMasterPlaylist, M3u8TrackingInfo, MasterPlaylistInfo, RenditionKind, RenditionLink } from '../types';
+import { getTrackingKey, normalizeIngestPath, parseIngestPath, resolveSegmentPath } from './ingestPath';
+import { compareSegmentAlignment, indexBySequence, SegmentAlignment } from './pipelineComparator';
+import { getSessionTotals } from './segmentLedger';
+
+export interface RenditionStatus extends RenditionLink {
+    uploaded: boolean;          // A media playlist was uploaded for the rendition
+    totalSegments: number;
+    receivedSegments: number;
+}
+
+export interface LadderSummary {
+    channelId: string;
+    redundantId?: string;
+    m3u8Uri: string;
+    renditions: RenditionStatus[];
+    missingRenditions: RenditionStatus[];   // Declared in the master playlist but never uploaded
+    comparedRenditions: string[];           // Tracking keys of the media playlists compared for alignment
+    alignment: SegmentAlignment;
+}
+
+// 렌디션 간 EXTINF 비교 허용 오차 (초) - 오디오는 AAC 프레임 경계 때문에 비디오와 약간 다를 수 있음
+const RENDITION_DURATION_TOLERANCE = 0.1;
+
+// 세그먼트 경계가 일치해야 하는 렌디션 (I-frame 및 자막은 별도 분할 가능)
+const ALIGNED_RENDITION_KINDS: RenditionKind[] = ['variant', 'audio', 'video'];
+
+// 마스터 플레이리스트의 EXT-X-STREAM-INF / EXT-X-I-FRAME-STREAM-INF / EXT-X-MEDIA를 미디어 플레이리스트 트래커 키에 연결
+export function getRenditionLinks(
+    playlist: HlsMasterPlaylist,
+    m3u8Uri: string,
+    channelId: string,
+    redundantId?: string
+): RenditionLink[] {
+    const masterPath = parseIngestPath(m3u8Uri);
+    const toTrackingKey = (uri: string) => getTrackingKey(
+        channelId,
+        redundantId,
+        masterPath ? resolveSegmentPath(masterPath, uri) : normalizeIngestPath(uri)
+    );
+
+    const links: RenditionLink[] = [];
+
+    for (const variant of playlist.variants) {
+        links.push({
+            kind: 'variant',
+            uri: variant.uri,
+            trackingKey: toTrackingKey(variant.uri),
+            bandwidth: variant.bandwidth,
+            resolution: variant.resolution,
+            codecs: variant.codecs
+        });
+    }
+
+    for (const variant of playlist.iFrameVariants) {
+        links.push({
+            kind: 'iframe',
+            uri: variant.uri,
+            trackingKey: toTrackingKey(variant.uri),
+            bandwidth: variant.bandwidth,
+            resolution: variant.resolution,
+            codecs: variant.codecs
+        });
+    }
+
+    for (const rendition of playlist.renditions) {
+        // URI가 없는 렌디션(비디오에 다중화된 오디오, CLOSED-CAPTIONS)은 별도 플레이리스트가 없음
+        const kind = rendition.type.toLowerCase() as RenditionKind;
+        if (!rendition.uri || !['audio', 'video', 'subtitles'].includes(kind)) {
+            continue;
+        }
+        links.push({
+            kind,
+            uri: rendition.uri,
+            trackingKey: toTrackingKey(rendition.uri),
+            groupId: rendition.groupId,
+            name: rendition.name,
+            language: rendition.language
+        });
+    }
+
+    return links;
+}
+
+export function buildMasterPlaylistInfo(
+    playlist: HlsMasterPlaylist,
+    m3u8Uri: string,
+    channelId: string,
+    redundantId?: string,
+    existing?: MasterPlaylistInfo
+): MasterPlaylistInfo {
+    const now = Date.now();
+    return {
+        m3u8Uri,
+        channelId,
+        redundantId,
+        firstReceivedAt: existing?.firstReceivedAt ?? now,
+        receivedAt: now,
+        updates: (existing?.updates ?? 0) + 1,
+        playlist,
+        renditions: getRenditionLinks(playlist, m3u8Uri, channelId, redundantId)
+    };
+}
+
+// 마스터 플레이리스트 단위의 ABR 래더 요약: 렌디션별 수신 현황, 업로드되지 않은 렌디션, 렌디션 간 세그먼트 정렬
+export function summarizeLadder(master: MasterPlaylistInfo, streamTracker: Map<string, M3u8TrackingInfo>): LadderSummary {
+    const renditions: RenditionStatus[] = master.renditions.map(link => {
+        const trackingInfo = streamTracker.get(link.trackingKey);
+        // 세션 전체 기준 (윈도우에서 빠지거나 원장에서 압축된 세그먼트 포함)
+        const totals = trackingInfo ? getSessionTotals(trackingInfo) : undefined;
+        return {
+            ...link,
+            uploaded: trackingInfo !== undefined,
+            totalSegments: totals?.segments ?? 0,
+            receivedSegments: totals?.received ?? 0
+        };
+    });
+
+    // 같은 미디어 플레이리스트를 가리키는 렌디션은 한 번만 비교
+    const indexes = new Map<string, ReturnType<typeof indexBySequence>>();
+    for (const rendition of renditions) {
+        const trackingInfo = streamTracker.get(rendition.trackingKey);
+        if (trackingInfo && ALIGNED_RENDITION_KINDS.includes(rendition.kind) && !indexes.has(rendition.trackingKey)) {
+            indexes.set(rendition.trackingKey, indexBySequence(trackingInfo));
+        }
+    }
+
+    const alignment: SegmentAlignment = indexes.size >= 2
+        ? compareSegmentAlignment(indexes, RENDITION_DURATION_TOLERANCE)
+        : { overlapStart: 0, overlapEnd: 0, comparedSequences: 0, alignedSequences: 0, misalignedSequences: [] };
+
+    return {
+        channelId: master.channelId,
+        redundantId: master.redundantId,
+        m3u8Uri: master.m3u8Uri,
+        renditions,
+        missingRenditions: renditions.filter(rendition => !rendition.uploaded),
+        comparedRenditions: Array.from(indexes.keys()),
+        alignment
+    };
+}
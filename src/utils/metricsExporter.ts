@@ -0,0 +1,99 @@
+import { Logger } from 'winston';
+import logger from './logger';
+import { M3u8TrackingInfo, RunningStats } from '../types';
+import { getSessionTotals, LATENCY_BUCKETS_MS } from './segmentLedger';
+
+type MetricType = 'counter' | 'gauge' | 'histogram';
+
+interface MetricFamily {
+    name: string;
+    help: string;
+    type: MetricType;
+    samples: string[];
+}
+
+const METRIC_PREFIX = 'mp_mock';
+
+function escapeLabelValue(value: string): string {
+    return value.replace(/\\/g, '\\\\').replace(/"/g, '\\"').replace(/\n/g, '\\n');
+}
+
+function formatLabels(labels: Record<string, string>): string {
+    return `{${Object.entries(labels).map(([name, value]) => `${name}="${escapeLabelValue(value)}"`).join(',')}}`;
+}
+
+// 세션 합계의 버킷별 개수로 만든 누적 히스토그램 - 값은 밀리초로 집계되어 있으므로 노출할 때 초로 변환
+function histogramSamples(name: string, labels: Record<string, string>, stats: RunningStats): string[] {
+    const buckets = stats.buckets || LATENCY_BUCKETS_MS.map(() => 0);
+    return [
+        ...LATENCY_BUCKETS_MS.map((bucketMs, index) => `${name}_bucket${formatLabels({ ...labels, le: String(bucketMs / 1000) })} ${buckets[index]}`),
+        `${name}_bucket${formatLabels({ ...labels, le: '+Inf' })} ${stats.count}`,
+        `${name}_sum${formatLabels(labels)} ${stats.sum / 1000}`,
+        `${name}_count${formatLabels(labels)} ${stats.count}`
+    ];
+}
+
+// Prometheus 텍스트 노출 형식의 메트릭 생성
+// 모든 값은 스크레이프 시점의 streamTracker(세션 원장과 압축된 합계)에서 계산하므로 저장된 트래커 상태를 복원하면 재시작 후에도 이어짐
+// 카운터는 세션 기준 누적값이며, /admin/reset 또는 트래커 삭제 시 0부터 다시 시작
+export class MetricsExporter {
+    private logger: Logger;
+
+    constructor(loggerInstance?: Logger) {
+        this.logger = loggerInstance || logger;
+    }
+
+    public render(streamTracker: Map<string, M3u8TrackingInfo>, now = Date.now()): string {
+        const family = (name: string, type: MetricType, help: string): MetricFamily => ({ name: `${METRIC_PREFIX}_${name}`, help, type, samples: [] });
+        const announced = family('segments_announced_total', 'counter', 'Media segments announced by playlists');
+        const received = family('segments_received_total', 'counter', 'Announced media segments that were received');
+        const late = family('segments_late_total', 'counter', 'Media segments received after their deadline or after leaving the window');
+        const missedTotal = family('segments_missed_total', 'counter', 'Media segments that timed out or left the window before they were received, including later late arrivals');
+        const bytes = family('received_bytes_total', 'counter', 'Bytes of received media segments');
+        const timeouts = family('timeout_events_total', 'counter', 'Segment deadline timeout events');
+        const transferDelay = family('segment_transfer_delay_seconds', 'histogram', 'Time from a segment first appearing in a playlist to its reception');
+        const arrivalInterval = family('segment_arrival_interval_seconds', 'histogram', 'Time between consecutive segment receptions');
+        const uploadDuration = family('segment_upload_duration_seconds', 'histogram', 'Time taken to receive a segment body');
+        // 마감 이후 도착한 세그먼트는 late로 옮겨가므로 줄어들 수 있음
+        const missing = family('segments_missing', 'gauge', 'Media segments currently timed out or expired from the window without being received');
+        const sinceLastPlaylist = family('seconds_since_last_playlist', 'gauge', 'Seconds since the playlist was last updated');
+        const sinceLastSegment = family('seconds_since_last_segment', 'gauge', 'Seconds since a segment of the playlist was last received');
+
+        for (const trackingInfo of streamTracker.values()) {
+            if (trackingInfo.deletedAt !== undefined) {
+                continue;
+            }
+
+            const labelSet = { channel: trackingInfo.channelId, pipeline: trackingInfo.redundantId || '', playlist: trackingInfo.m3u8Uri };
+            const labels = formatLabels(labelSet);
+            const totals = getSessionTotals(trackingInfo);
+
+            announced.samples.push(`${announced.name}${labels} ${totals.segments}`);
+            received.samples.push(`${received.name}${labels} ${totals.received}`);
+            late.samples.push(`${late.name}${labels} ${totals.states.late}`);
+            missedTotal.samples.push(`${missedTotal.name}${labels} ${totals.missed}`);
+            missing.samples.push(`${missing.name}${labels} ${totals.states.missing + totals.states.expired}`);
+            bytes.samples.push(`${bytes.name}${labels} ${totals.bytes}`);
+            timeouts.samples.push(`${timeouts.name}${labels} ${trackingInfo.timeoutEvents || 0}`);
+
+            transferDelay.samples.push(...histogramSamples(transferDelay.name, labelSet, totals.transferDelay));
+            arrivalInterval.samples.push(...histogramSamples(arrivalInterval.name, labelSet, totals.arrivalInterval));
+            uploadDuration.samples.push(...histogramSamples(uploadDuration.name, labelSet, totals.uploadDuration));
+
+            const lastPlaylistAt = trackingInfo.previousM3u8Updates[0] ?? trackingInfo.receivedAt;
+            sinceLastPlaylist.samples.push(`${sinceLastPlaylist.name}${labels} ${(now - lastPlaylistAt) / 1000}`);
+            if (trackingInfo.lastSegmentReceivedTime > 0) {
+                sinceLastSegment.samples.push(`${sinceLastSegment.name}${labels} ${(now - trackingInfo.lastSegmentReceivedTime) / 1000}`);
+            }
+        }
+
+        const families = [
+            announced, received, late, missedTotal, bytes, timeouts,
+            transferDelay, arrivalInterval, uploadDuration,
+            missing, sinceLastPlaylist, sinceLastSegment
+        ];
+        return families
+            .map(metric => [`# HELP ${metric.name} ${metric.help}`, `# TYPE ${metric.name} ${metric.type}`, ...metric.samples].join('\n'))
+            .join('\n') + '\n';
+    }
+}
@@ -0,0 +1,273 @@
+import fs from 'fs';
+import path from 'path';
+import { Logger } from 'winston';
+import logger from './logger';
+import { STATE_DIR } from './trackerStore';
+import { JsonReport, ReportGenerator } from './reportGenerator';
+
+const HISTORY_DIR = 'history';
+
+// 채널별 메트릭 스냅샷 - 카운터와 평균은 세션 누적값, interval 값은 이전 스냅샷 이후 구간의 값, 나머지는 기록 시점의 값
+export interface ChannelSnapshot {
+    at: number;
+    streams: number;
+    totalSegments: number;
+    receivedSegments: number;
+    preAnnouncedSegments: number;       // Received before a playlist referenced them (no transfer delay)
+    lateSegments: number;
+    timedOutSegments: number;
+    expiredSegments: number;
+    missRate: number;                   // (timed out + expired) / total segments
+    intervalMissRate: number;           // Same ratio over the segments added since the previous snapshot
+    timeoutEvents: number;
+    segmentArrivalJitter: number;       // Largest jitter across the channel's streams (ms)
+    avgSegmentTransferDelay: number;    // Average across the channel's streams weighted by transfer delay samples (ms)
+    intervalTransferDelay: number;      // Average transfer delay of segments received since the previous snapshot (ms)
+    totalBytes: number;
+    bitrate: number;                    // Sum across the channel's streams (bps)
+}
+
+export type SnapshotMetric = Exclude<keyof ChannelSnapshot, 'at'>;
+
+export interface HistoryQuery {
+    channelId?: string;
+    from?: number;
+    to?: number;
+    stepMs?: number;                    // Keep the last snapshot of every step (default: every recorded snapshot)
+}
+
+// 차트에 바로 쓸 수 있는 열 단위 시계열
+export interface ChannelSeries {
+    channelId: string;
+    timestamps: number[];
+    metrics: Record<SnapshotMetric, number[]>;
+}
+
+const SNAPSHOT_METRICS: SnapshotMetric[] = [
+    'streams', 'totalSegments', 'receivedSegments', 'preAnnouncedSegments', 'lateSegments', 'timedOutSegments', 'expiredSegments',
+    'missRate', 'intervalMissRate', 'timeoutEvents', 'segmentArrivalJitter', 'avgSegmentTransferDelay', 'intervalTransferDelay',
+    'totalBytes', 'bitrate'
+];
+
+// 전송 지연이 기록된 세그먼트 수 (플레이리스트보다 먼저 도착한 세그먼트 제외, 이전 버전의 기록에는 preAnnouncedSegments가 없음)
+function getTransferDelaySamples(snapshot: ChannelSnapshot): number {
+    return snapshot.receivedSegments - (snapshot.preAnnouncedSegments ?? 0);
+}
+
+// 채널 스트림 메트릭을 하나의 스냅샷으로 합침
+export function buildChannelSnapshots(report: JsonReport, at: number): Map<string, ChannelSnapshot> {
+    const snapshots = new Map<string, ChannelSnapshot>();
+    const transferDelayWeights = new Map<string, number>();
+
+    for (const stream of report.streams) {
+        const { segments, throughput, reliability, latency } = stream.metrics;
+        const snapshot = snapshots.get(stream.channelId) || {
+            at, streams: 0, totalSegments: 0, receivedSegments: 0, preAnnouncedSegments: 0, lateSegments: 0, timedOutSegments: 0, expiredSegments: 0,
+            missRate: 0, intervalMissRate: 0, timeoutEvents: 0, segmentArrivalJitter: 0, avgSegmentTransferDelay: 0, intervalTransferDelay: 0,
+            totalBytes: 0, bitrate: 0
+        };
+        snapshots.set(stream.channelId, snapshot);
+
+        const received = segments?.receivedSegments || 0;
+        const preAnnounced = latency?.preAnnouncedSegments || 0;
+        const samples = received - preAnnounced;
+        const weight = transferDelayWeights.get(stream.channelId) || 0;
+        if (samples > 0) {
+            snapshot.avgSegmentTransferDelay = (snapshot.avgSegmentTransferDelay * weight + (latency?.avgSegmentTransferDelay || 0) * samples) / (weight + samples);
+            transferDelayWeights.set(stream.channelId, weight + samples);
+        }
+
+        snapshot.streams++;
+        snapshot.totalSegments += segments?.totalSegments || 0;
+        snapshot.receivedSegments += received;
+        snapshot.preAnnouncedSegments += preAnnounced;
+        snapshot.lateSegments += segments?.lateSegments || 0;
+        snapshot.timedOutSegments += segments?.timedOutSegments || 0;
+        snapshot.expiredSegments += segments?.expiredSegments || 0;
+        snapshot.timeoutEvents += reliability?.timeoutEvents || 0;
+        snapshot.segmentArrivalJitter = Math.max(snapshot.segmentArrivalJitter, reliability?.segmentArrivalJitter || 0);
+        snapshot.totalBytes += throughput?.totalBytes || 0;
+        snapshot.bitrate += throughput?.bitrate || 0;
+    }
+
+    snapshots.forEach(snapshot => {
+        snapshot.missRate = snapshot.totalSegments > 0 ? (snapshot.timedOutSegments + snapshot.expiredSegments) / snapshot.totalSegments : 0;
+    });
+    return snapshots;
+}
+
+// 이전 스냅샷과의 누적값 차이로 구간 누락률과 구간 평균 전송 지연 계산 (이전 스냅샷이 없으면 세션 시작부터의 구간)
+// 세그먼트가 나중에 도착해 누락에서 빠지거나 스트림이 정리되어 누적값이 줄어든 경우 0으로 처리
+export function setIntervalMetrics(snapshot: ChannelSnapshot, previous?: ChannelSnapshot): void {
+    const addedSegments = snapshot.totalSegments - (previous?.totalSegments ?? 0);
+    const addedMisses = (snapshot.timedOutSegments + snapshot.expiredSegments) - ((previous?.timedOutSegments ?? 0) + (previous?.expiredSegments ?? 0));
+    snapshot.intervalMissRate = addedSegments > 0 ? Math.min(1, Math.max(0, addedMisses) / addedSegments) : 0;
+
+    const samples = getTransferDelaySamples(snapshot);
+    const previousSamples = previous ? getTransferDelaySamples(previous) : 0;
+    const addedDelay = snapshot.avgSegmentTransferDelay * samples - (previous ? previous.avgSegmentTransferDelay * previousSamples : 0);
+    snapshot.intervalTransferDelay = samples > previousSamples ? Math.max(0, addedDelay / (samples - previousSamples)) : 0;
+}
+
+// 채널별 메트릭 스냅샷을 일정 간격으로 기록하고 스토리지의 .state/history/{channel}.jsonl에 보관
+// 채널당 보관 기간(retention / resolution)만큼의 스냅샷만 유지하며, 파일이 1.5배를 넘으면 다시 씀
+export class MetricsHistory {
+    private reportGenerator: ReportGenerator;
+    private historyDir: string;
+    private isEnabled: boolean;
+    private resolutionMs: number;
+    private maxSnapshots: number;
+    private intervalId: NodeJS.Timeout | null = null;
+    private logger: Logger;
+    private snapshots: Map<string, ChannelSnapshot[]> = new Map();
+    private fileLines: Map<string, number> = new Map();
+
+    constructor(
+        mockStoragePath: string,
+        reportGenerator: ReportGenerator,
+        options: {
+            isEnabled?: boolean;
+            resolutionMs?: number;
+            retentionMs?: number;
+            loggerInstance?: Logger;
+        } = {}
+    ) {
+        this.reportGenerator = reportGenerator;
+        this.historyDir = path.join(mockStoragePath, STATE_DIR, HISTORY_DIR);
+        this.isEnabled = options.isEnabled ?? false;
+        this.resolutionMs = options.resolutionMs ?? 10000;
+        this.maxSnapshots = Math.max(1, Math.floor((options.retentionMs ?? 24 * 60 * 60 * 1000) / this.resolutionMs));
+        this.logger = options.loggerInstance || logger;
+    }
+
+    public getResolutionMs(): number {
+        return this.resolutionMs;
+    }
+
+    public start(): void {
+        if (!this.isEnabled) {
+            this.logger.info('Metrics history is disabled');
+            return;
+        }
+        this.intervalId = setInterval(() => this.record(), this.resolutionMs);
+        this.logger.info(`Recording channel metrics history every ${this.resolutionMs / 1000} seconds (up to ${this.maxSnapshots} snapshots per channel)`);
+    }
+
+    public stop(): void {
+        if (this.intervalId) {
+            clearInterval(this.intervalId);
+            this.intervalId = null;
+        }
+    }
+
+    // 현재 메트릭으로 채널별 스냅샷을 기록하고 기록한 채널 수 반환
+    public record(at = Date.now()): number {
+        const report = this.reportGenerator.generateJsonReport({ groups: ['segments', 'throughput', 'reliability', 'latency'] });
+        const snapshots = buildChannelSnapshots(report, at);
+
+        for (const [channelId, snapshot] of snapshots.entries()) {
+            const channelSnapshots = this.snapshots.get(channelId) || [];
+            setIntervalMetrics(snapshot, channelSnapshots[channelSnapshots.length - 1]);
+            channelSnapshots.push(snapshot);
+            if (channelSnapshots.length > this.maxSnapshots) {
+                channelSnapshots.splice(0, channelSnapshots.length - this.maxSnapshots);
+            }
+            this.snapshots.set(channelId, channelSnapshots);
+            this.append(channelId, snapshot);
+        }
+        return snapshots.size;
+    }
+
+    // 저장된 스냅샷을 불러와 복원한 채널 수 반환 (보관 기간이 지난 스냅샷은 제외)
+    public restore(now = Date.now()): number {
+        if (!this.isEnabled || !fs.existsSync(this.historyDir)) {
+            return 0;
+        }
+
+        const oldest = now - this.maxSnapshots * this.resolutionMs;
+        for (const filename of fs.readdirSync(this.historyDir).filter(name => name.endsWith('.jsonl'))) {
+            const channelId = decodeURIComponent(filename.slice(0, -'.jsonl'.length));
+            try {
+                const lines = fs.readFileSync(path.join(this.historyDir, filename), 'utf-8').split('\n').filter(line => line);
+                const snapshots = lines
+                    .map(line => JSON.parse(line) as ChannelSnapshot)
+                    .filter(snapshot => snapshot.at >= oldest)
+                    .slice(-this.maxSnapshots);
+                this.snapshots.set(channelId, snapshots);
+                this.fileLines.set(channelId, lines.length);
+            } catch (error) {
+                this.logger.error(`Failed to read metrics history ${filename}, skipping it`, error);
+            }
+        }
+
+        this.logger.info(`Restored metrics history for ${this.snapshots.size} channel(s)`);
+        return this.snapshots.size;
+    }
+
+    public query(query: HistoryQuery = {}): ChannelSeries[] {
+        const from = query.from ?? 0;
+        const to = query.to ?? Number.MAX_SAFE_INTEGER;
+
+        return Array.from(this.snapshots.entries())
+            .filter(([channelId]) => query.channelId === undefined || channelId === query.channelId)
+            .map(([channelId, snapshots]) => {
+                let selected = snapshots.filter(snapshot => snapshot.at >= from && snapshot.at <= to);
+                if (query.stepMs !== undefined && query.stepMs > 0) {
+                    // 같은 step 구간의 스냅샷 중 마지막 것만 사용
+                    const buckets = new Map<number, ChannelSnapshot>();
+                    selected.forEach(snapshot => buckets.set(Math.floor((snapshot.at - from) / query.stepMs!), snapshot));
+                    selected = Array.from(buckets.values());
+                }
+
+                const metrics = {} as Record<SnapshotMetric, number[]>;
+                SNAPSHOT_METRICS.forEach(metric => {
+                    metrics[metric] = selected.map(snapshot => snapshot[metric]);
+                });
+                return { channelId, timestamps: selected.map(snapshot => snapshot.at), metrics };
+            });
+    }
+
+    public reset(channelId?: string): void {
+        for (const id of Array.from(new Set([...this.snapshots.keys(), ...this.fileLines.keys()]))) {
+            if (channelId !== undefined && id !== channelId) {
+                continue;
+            }
+            this.snapshots.delete(id);
+            this.fileLines.delete(id);
+            try {
+                fs.rmSync(this.getFilePath(id), { force: true });
+            } catch (error) {
+                this.logger.error(`Failed to remove metrics history for ${id}`, error);
+            }
+        }
+    }
+
+    private append(channelId: string, snapshot: ChannelSnapshot): void {
+        if (!this.isEnabled) {
+            return;
+        }
+
+        const filePath = this.getFilePath(channelId);
+        try {
+            fs.mkdirSync(this.historyDir, { recursive: true });
+            const lines = (this.fileLines.get(channelId) || 0) + 1;
+            if (lines > this.maxSnapshots * 1.5) {
+                // 보관 중인 스냅샷만 남기도록 임시 파일에 쓴 뒤 rename
+                const tempPath = `${filePath}.tmp`;
+                const snapshots = this.snapshots.get(channelId) || [snapshot];
+                fs.writeFileSync(tempPath, snapshots.map(entry => JSON.stringify(entry)).join('\n') + '\n');
+                fs.renameSync(tempPath, filePath);
+                this.fileLines.set(channelId, snapshots.length);
+            } else {
+                fs.appendFileSync(filePath, JSON.stringify(snapshot) + '\n');
+                this.fileLines.set(channelId, lines);
+            }
+        } catch (error) {
+            this.logger.error(`Failed to write metrics history to ${filePath}`, error);
+        }
+    }
+
+    private getFilePath(channelId: string): string {
+        return path.join(this.historyDir, `${encodeURIComponent(channelId)}.jsonl`);
+    }
+}
@@ -0,0 +1,102 @@
+import { Logger } from 'winston';
+import logger from './logger';
+import { TsInspection } from '../types';
+
+export interface PendingUpload {
+    uri: string;                // Path relative to the channel (or pipeline) root
+    channelId: string;
+    redundantId?: string;
+    size: number;
+    receivedAt: number;
+    uploadDurationMs?: number;
+    payload?: TsInspection;
+}
+
+export interface UnreferencedUpload extends PendingUpload {
+    expiredAt: number;          // When the upload was given up on without a playlist referencing it
+}
+
+const MAX_UNREFERENCED_PER_CHANNEL = 500;
+
+// 플레이리스트보다 먼저 도착한 세그먼트를 채널(파이프라인)별로 보관하고, 이후 플레이리스트가 알리면 매칭
+// 설정된 시간 안에 어떤 플레이리스트에도 등장하지 않은 업로드는 참조되지 않은 업로드로 기록
+export class PendingSegmentPool {
+    private windowMs: number;
+    private logger: Logger;
+    private pending: Map<string, Map<string, PendingUpload>> = new Map();
+    private unreferenced: Map<string, UnreferencedUpload[]> = new Map();
+
+    constructor(windowMs: number, loggerInstance?: Logger) {
+        this.windowMs = windowMs;
+        this.logger = loggerInstance || logger;
+    }
+
+    public add(upload: PendingUpload): void {
+        this.sweep(upload.receivedAt);
+
+        const poolKey = this.getPoolKey(upload.channelId, upload.redundantId);
+        const channelPool = this.pending.get(poolKey) || new Map<string, PendingUpload>();
+        channelPool.set(upload.uri, upload);
+        this.pending.set(poolKey, channelPool);
+
+        this.logger.debug(`[${upload.channelId}] Holding segment ${upload.uri} until a playlist references it`);
+    }
+
+    public take(channelId: string, redundantId: string | undefined, uri: string): PendingUpload | undefined {
+        const channelPool = this.pending.get(this.getPoolKey(channelId, redundantId));
+        const upload = channelPool?.get(uri);
+        if (upload) {
+            channelPool!.delete(uri);
+        }
+        return upload;
+    }
+
+    public getPending(channelId: string, redundantId?: string): PendingUpload[] {
+        this.sweep(Date.now());
+        return Array.from(this.pending.get(this.getPoolKey(channelId, redundantId))?.values() || []);
+    }
+
+    public getUnreferenced(): Map<string, UnreferencedUpload[]> {
+        this.sweep(Date.now());
+        return this.unreferenced;
+    }
+
+    // 채널(또는 전체)의 대기 중인 업로드와 참조되지 않은 업로드 기록 초기화
+    public reset(channelId?: string): void {
+        if (channelId === undefined) {
+            this.pending.clear();
+            this.unreferenced.clear();
+            return;
+        }
+        this.unreferenced.delete(channelId);
+        for (const poolKey of Array.from(this.pending.keys())) {
+            if (poolKey === channelId || poolKey.startsWith(`${channelId}/`)) {
+                this.pending.delete(poolKey);
+            }
+        }
+    }
+
+    private sweep(now: number): void {
+        for (const channelPool of this.pending.values()) {
+            for (const [uri, upload] of channelPool.entries()) {
+                if (now - upload.receivedAt < this.windowMs) {
+                    continue;
+                }
+                channelPool.delete(uri);
+
+                const records = this.unreferenced.get(upload.channelId) || [];
+                records.push({ ...upload, expiredAt: now });
+                if (records.length > MAX_UNREFERENCED_PER_CHANNEL) {
+                    records.shift();
+                }
+                this.unreferenced.set(upload.channelId, records);
+
+                this.logger.warn(`[${upload.channelId}] Segment ${upload.uri} was not referenced by any playlist within ${this.windowMs}ms of its upload`);
+            }
+        }
+    }
+
+    private getPoolKey(channelId: string, redundantId?: string): string {
+        return redundantId ? `${channelId}/${redundantId}` : channelId;
+    }
+}
@@ -0,0 +1,183 @@
+import { M3u8TrackingInfo, SegmentInfo } from '../types';
+import { getSessionSegments } from './segmentLedger';
+
+export interface PipelineGap {
+    mediaSequence: number;
+    deliveredBy: string[];     // Pipelines that delivered the segment
+    missingFrom: string[];     // Pipelines that did not deliver it
+}
+
+export interface PipelineComparison extends SegmentAlignment {
+    channelId: string;
+    playlist: string;                        // Playlist path relative to the pipeline root
+    pipelines: string[];                     // Redundant IDs, sorted
+    firstDeliveries: Record<string, number>; // Number of sequences each pipeline delivered first
+    avgLeadMs: number;                       // Average time between the first and the last delivery of a sequence
+    maxLeadMs: number;                       // Maximum time between the first and the last delivery of a sequence
+    gaps: PipelineGap[];                     // Sequences delivered by some, but not all, pipelines
+}
+
+export interface SegmentAlignment {
+    overlapStart: number;                    // First media sequence announced by every playlist
+    overlapEnd: number;                      // Last media sequence announced by every playlist
+    comparedSequences: number;               // Media sequences within the overlap
+    alignedSequences: number;                // Sequences announced by every playlist with matching durations
+    misalignedSequences: number[];           // Sequences whose EXTINF durations differ between playlists
+}
+
+// EXTINF 비교 허용 오차 (초)
+const DURATION_TOLERANCE = 0.001;
+
+// 리던던트 파이프라인(A/B) 간 세그먼트 정렬, 선착 파이프라인, 누락 구간 비교
+export function comparePipelines(streamTracker: Map<string, M3u8TrackingInfo>): PipelineComparison[] {
+    // channelId/playlist 단위로 파이프라인별 트래킹 정보 그룹화
+    const groups = new Map<string, Map<string, M3u8TrackingInfo>>();
+
+    for (const [key, trackingInfo] of streamTracker.entries()) {
+        const redundantId = trackingInfo.redundantId;
+        if (!redundantId) {
+            continue;
+        }
+        const playlist = key.slice(trackingInfo.channelId.length + redundantId.length + 2);
+        const groupKey = `${trackingInfo.channelId}/${playlist}`;
+        if (!groups.has(groupKey)) {
+            groups.set(groupKey, new Map());
+        }
+        groups.get(groupKey)!.set(redundantId, trackingInfo);
+    }
+
+    const comparisons: PipelineComparison[] = [];
+
+    for (const [groupKey, pipelineInfos] of groups.entries()) {
+        if (pipelineInfos.size < 2) {
+            continue;
+        }
+        const channelId = pipelineInfos.values().next().value!.channelId;
+        const playlist = groupKey.slice(channelId.length + 1);
+        comparisons.push(comparePipelineGroup(channelId, playlist, pipelineInfos));
+    }
+
+    return comparisons.sort((a, b) => `${a.channelId}/${a.playlist}`.localeCompare(`${b.channelId}/${b.playlist}`));
+}
+
+export function indexBySequence(trackingInfo: M3u8TrackingInfo): Map<number, SegmentInfo> {
+    const bySequence = new Map<number, SegmentInfo>();
+    for (const segment of getSessionSegments(trackingInfo)) {
+        if (segment.kind === 'init' || segment.mediaSequence === undefined) {
+            continue;
+        }
+        // 같은 시퀀스에 여러 항목이 있으면 수신된 항목 우선
+        const existing = bySequence.get(segment.mediaSequence);
+        if (!existing || (!existing.received && segment.received)) {
+            bySequence.set(segment.mediaSequence, segment);
+        }
+    }
+    return bySequence;
+}
+
+// 여러 미디어 플레이리스트가 공통으로 알린 시퀀스 범위에서 EXTINF 길이 일치 여부 비교
+export function compareSegmentAlignment(
+    indexes: Map<string, Map<number, SegmentInfo>>,
+    toleranceSeconds: number = DURATION_TOLERANCE
+): SegmentAlignment {
+    // 모든 플레이리스트가 공통으로 알린 시퀀스 범위만 비교 (늦게 시작한 플레이리스트의 이전 구간은 누락이 아님)
+    let overlapStart = -Infinity;
+    let overlapEnd = Infinity;
+    for (const index of indexes.values()) {
+        const sequences = Array.from(index.keys());
+        if (sequences.length === 0) {
+            overlapStart = Infinity;
+            overlapEnd = -Infinity;
+            break;
+        }
+        overlapStart = Math.max(overlapStart, Math.min(...sequences));
+        overlapEnd = Math.min(overlapEnd, Math.max(...sequences));
+    }
+
+    const misalignedSequences: number[] = [];
+    let comparedSequences = 0;
+    let alignedSequences = 0;
+
+    for (let sequence = overlapStart; sequence <= overlapEnd; sequence++) {
+        comparedSequences++;
+
+        // 정렬 여부: 모든 플레이리스트가 같은 시퀀스를 같은 길이로 알렸는지
+        const durations = Array.from(indexes.values())
+            .map(index => index.get(sequence)?.duration)
+            .filter((duration): duration is number => duration !== undefined);
+        if (durations.length === indexes.size) {
+            if (Math.max(...durations) - Math.min(...durations) <= toleranceSeconds) {
+                alignedSequences++;
+            } else {
+                misalignedSequences.push(sequence);
+            }
+        }
+    }
+
+    const hasOverlap = comparedSequences > 0;
+
+    return {
+        overlapStart: hasOverlap ? overlapStart : 0,
+        overlapEnd: hasOverlap ? overlapEnd : 0,
+        comparedSequences,
+        alignedSequences,
+        misalignedSequences
+    };
+}
+
+function comparePipelineGroup(
+    channelId: string,
+    playlist: string,
+    pipelineInfos: Map<string, M3u8TrackingInfo>
+): PipelineComparison {
+    const pipelines = Array.from(pipelineInfos.keys()).sort();
+    const indexes = new Map<string, Map<number, SegmentInfo>>();
+    for (const pipeline of pipelines) {
+        indexes.set(pipeline, indexBySequence(pipelineInfos.get(pipeline)!));
+    }
+
+    const alignment = compareSegmentAlignment(indexes);
+
+    const firstDeliveries: Record<string, number> = {};
+    pipelines.forEach(pipeline => { firstDeliveries[pipeline] = 0; });
+
+    const gaps: PipelineGap[] = [];
+    const leads: number[] = [];
+
+    for (let sequence = alignment.overlapStart; alignment.comparedSequences > 0 && sequence <= alignment.overlapEnd; sequence++) {
+        const entries = pipelines.map(pipeline => ({ pipeline, segment: indexes.get(pipeline)!.get(sequence) }));
+
+        // 선착 파이프라인 및 파이프라인 간 도착 시간 차이
+        const delivered = entries
+            .filter(entry => entry.segment?.received && entry.segment.receivedAt !== undefined)
+            .sort((a, b) => a.segment!.receivedAt! - b.segment!.receivedAt!);
+
+        if (delivered.length > 0) {
+            firstDeliveries[delivered[0].pipeline]++;
+        }
+        if (delivered.length > 1) {
+            leads.push(delivered[delivered.length - 1].segment!.receivedAt! - delivered[0].segment!.receivedAt!);
+        }
+
+        // 한쪽 파이프라인만 전달한 구간
+        if (delivered.length > 0 && delivered.length < pipelines.length) {
+            const deliveredBy = delivered.map(entry => entry.pipeline);
+            gaps.push({
+                mediaSequence: sequence,
+                deliveredBy,
+                missingFrom: pipelines.filter(pipeline => !deliveredBy.includes(pipeline))
+            });
+        }
+    }
+
+    return {
+        channelId,
+        playlist,
+        pipelines,
+        ...alignment,
+        firstDeliveries,
+        avgLeadMs: leads.length > 0 ? leads.reduce((sum, lead) => sum + lead, 0) / leads.length : 0,
+        maxLeadMs: leads.length > 0 ? Math.max(...leads) : 0,
+        gaps
+    };
+}
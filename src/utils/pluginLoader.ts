@@ -0,0 +1,40 @@
+import path from 'path';
+import { Logger } from 'winston';
+import logger from './logger';
+import { IngestEventBus } from './eventBus';
+
+export interface IngestPluginContext {
+    logger: Logger;
+}
+
+// 플러그인 모듈은 이 형태의 함수를 default 또는 register로 내보냄
+export type IngestPlugin = (events: IngestEventBus, context: IngestPluginContext) => void | Promise<void>;
+
+// 설정된 플러그인 모듈을 불러와 이벤트 버스에 등록 (실패한 플러그인은 건너뜀) - 등록된 플러그인 수 반환
+export function loadPlugins(modulePaths: string[], eventBus: IngestEventBus, loggerInstance?: Logger): number {
+    const log = loggerInstance || logger;
+    let loaded = 0;
+
+    for (const modulePath of modulePaths) {
+        const resolvedPath = path.resolve(process.cwd(), modulePath);
+        try {
+            const pluginModule = require(resolvedPath);
+            const plugin: unknown = pluginModule.default ?? pluginModule.register ?? pluginModule;
+            if (typeof plugin !== 'function') {
+                log.error(`Plugin ${resolvedPath} does not export a function (default or register)`);
+                continue;
+            }
+            const result = (plugin as IngestPlugin)(eventBus, { logger: log });
+            // 비동기 등록 함수의 실패가 처리되지 않은 rejection으로 서버를 종료시키지 않도록 로그만 남김
+            if (result instanceof Promise) {
+                result.catch(error => log.error(`Plugin ${resolvedPath} failed during registration`, error));
+            }
+            loaded++;
+            log.info(`Loaded plugin ${resolvedPath}`);
+        } catch (error) {
+            log.error(`Failed to load plugin ${resolvedPath}`, error);
+        }
+    }
+
+    return loaded;
+}
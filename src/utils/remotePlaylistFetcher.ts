@@ -0,0 +1,206 @@
+import axios from 'axios';
+import { Logger } from 'winston';
+import logger from './logger';
+import { RemoteFetchConfig } from './configLoader';
+
+// timeout: 전체 시간 초과, network: 연결 실패, http-status: 2xx 이외 응답, too-large: 최대 크기 초과, content-type: 허용되지 않은 Content-Type
+export type RemoteFetchFailureReason = 'timeout' | 'network' | 'http-status' | 'too-large' | 'content-type';
+
+export class RemoteFetchError extends Error {
+    constructor(public reason: RemoteFetchFailureReason, message: string, public statusCode?: number) {
+        super(message);
+        this.name = 'RemoteFetchError';
+    }
+
+    // 일시적인 실패(시간 초과, 연결 실패, 5xx, 429)만 재시도
+    public get retryable(): boolean {
+        if (this.reason === 'timeout' || this.reason === 'network') {
+            return true;
+        }
+        return this.reason === 'http-status' && this.statusCode !== undefined && (this.statusCode >= 500 || this.statusCode === 429);
+    }
+}
+
+export interface RemoteFetchResult {
+    content: string;
+    url: string;                // Final URL after redirects (base for relative URIs)
+    attempts: number;
+    latencyMs: number;          // From the first attempt to the successful response, including backoff
+}
+
+export interface RemoteFetchStats {
+    channelId: string;
+    fetches: number;            // Successful fetches
+    failures: number;           // Fetches that failed after every retry
+    retries: number;            // Extra attempts across all fetches
+    totalLatencyMs: number;
+    maxLatencyMs: number;
+    lastLatencyMs?: number;
+    failuresByReason: Partial<Record<RemoteFetchFailureReason, number>>;
+    lastFailure?: { url: string; reason: RemoteFetchFailureReason; message: string; at: number };
+}
+
+export const DEFAULT_REMOTE_FETCH_CONFIG: RemoteFetchConfig = {
+    timeoutMs: 5000,
+    maxRetries: 2,
+    retryBackoffMs: 500,
+    maxBodyBytes: 1048576,
+    allowedContentTypes: [
+        'application/vnd.apple.mpegurl',
+        'application/x-mpegurl',
+        'audio/mpegurl',
+        'audio/x-mpegurl',
+        'text/plain',
+        'application/octet-stream'
+    ]
+};
+
+const sleep = (ms: number) => new Promise<void>(resolve => setTimeout(resolve, ms));
+
+// PUT 본문이 URL인 경우 원격 플레이리스트를 가져옴 - 시간 제한, 백오프 재시도, 크기/Content-Type 검사와 채널별 지표 기록
+export class RemotePlaylistFetcher {
+    private config: RemoteFetchConfig;
+    private logger: Logger;
+    private stats: Map<string, RemoteFetchStats> = new Map();
+
+    constructor(config: Partial<RemoteFetchConfig> = {}, loggerInstance?: Logger) {
+        this.config = { ...DEFAULT_REMOTE_FETCH_CONFIG, ...config };
+        this.logger = loggerInstance || logger;
+    }
+
+    public async fetch(channelId: string, url: string): Promise<RemoteFetchResult> {
+        const stats = this.getChannelStats(channelId);
+        const startedAt = Date.now();
+
+        for (let attempt = 1; ; attempt++) {
+            try {
+                const { content, finalUrl } = await this.fetchOnce(url);
+                const latencyMs = Date.now() - startedAt;
+                stats.fetches++;
+                stats.totalLatencyMs += latencyMs;
+                stats.maxLatencyMs = Math.max(stats.maxLatencyMs, latencyMs);
+                stats.lastLatencyMs = latencyMs;
+                this.logger.debug(`[${channelId}] Fetched ${finalUrl} (${content.length} bytes) in ${latencyMs}ms after ${attempt} attempt(s)`);
+                return { content, url: finalUrl, attempts: attempt, latencyMs };
+            } catch (error) {
+                const fetchError = error as RemoteFetchError;
+                if (!fetchError.retryable || attempt > this.config.maxRetries) {
+                    stats.failures++;
+                    stats.failuresByReason[fetchError.reason] = (stats.failuresByReason[fetchError.reason] || 0) + 1;
+                    stats.lastFailure = { url, reason: fetchError.reason, message: fetchError.message, at: Date.now() };
+                    this.logger.error(`[${channelId}] Failed to fetch M3U8 content from ${url} after ${attempt} attempt(s): ${fetchError.message}`);
+                    throw fetchError;
+                }
+
+                const backoffMs = this.config.retryBackoffMs * 2 ** (attempt - 1);
+                stats.retries++;
+                this.logger.warn(`[${channelId}] Fetching ${url} failed (${fetchError.message}), retrying in ${backoffMs}ms`);
+                await sleep(backoffMs);
+            }
+        }
+    }
+
+    public getStats(): Map<string, RemoteFetchStats> {
+        return this.stats;
+    }
+
+    public reset(channelId?: string): void {
+        if (channelId === undefined) {
+            this.stats.clear();
+        } else {
+            this.stats.delete(channelId);
+        }
+    }
+
+    private async fetchOnce(url: string): Promise<{ content: string; finalUrl: string }> {
+        // axios의 timeout은 소켓 유휴 시간 기준이므로, 조금씩 응답하는 서버를 위해 전체 시간도 제한
+        const controller = new AbortController();
+        const timer = setTimeout(() => controller.abort(), this.config.timeoutMs);
+
+        const requestConfig = {
+            timeout: this.config.timeoutMs,
+            signal: controller.signal,
+            responseType: 'text' as const,
+            maxContentLength: this.config.maxBodyBytes,
+            validateStatus: () => true
+        };
+
+        let response;
+        try {
+            response = await axios.get<string>(url, requestConfig);
+        } catch (error) {
+            throw this.toFetchError(error);
+        } finally {
+            clearTimeout(timer);
+        }
+
+        if (response.status < 200 || response.status >= 300) {
+            throw new RemoteFetchError('http-status', `HTTP ${response.status} from ${url}`, response.status);
+        }
+
+        const contentType = String(response.headers?.['content-type'] || '').split(';')[0].trim().toLowerCase();
+        if (contentType && this.config.allowedContentTypes.length > 0 && !this.config.allowedContentTypes.includes(contentType)) {
+            throw new RemoteFetchError('content-type', `Unexpected Content-Type ${contentType} from ${url}`);
+        }
+
+        const content = typeof response.data === 'string' ? response.data : String(response.data ?? '');
+        if (Buffer.byteLength(content) > this.config.maxBodyBytes) {
+            throw new RemoteFetchError('too-large', `Playlist from ${url} exceeds ${this.config.maxBodyBytes} bytes`);
+        }
+
+        // Node 어댑터는 리다이렉트를 따라간 최종 URL을 request.res.responseUrl에 남김
+        const finalUrl: string | undefined = (response as { request?: { res?: { responseUrl?: string } } }).request?.res?.responseUrl;
+        return { content, finalUrl: finalUrl || url };
+    }
+
+    private toFetchError(error: unknown): RemoteFetchError {
+        const code = (error as { code?: string })?.code;
+        const message = error instanceof Error ? error.message : String(error);
+        if (code === 'ERR_CANCELED' || code === 'ECONNABORTED' || code === 'ETIMEDOUT') {
+            return new RemoteFetchError('timeout', `Timed out after ${this.config.timeoutMs}ms`);
+        }
+        if (message.includes('maxContentLength')) {
+            return new RemoteFetchError('too-large', `Playlist exceeds ${this.config.maxBodyBytes} bytes`);
+        }
+        return new RemoteFetchError('network', message);
+    }
+
+    private getChannelStats(channelId: string): RemoteFetchStats {
+        let stats = this.stats.get(channelId);
+        if (!stats) {
+            stats = { channelId, fetches: 0, failures: 0, retries: 0, totalLatencyMs: 0, maxLatencyMs: 0, failuresByReason: {} };
+            this.stats.set(channelId, stats);
+        }
+        return stats;
+    }
+}
+
+// 가져온 플레이리스트의 URI(#EXT-X-KEY/MAP/MEDIA의 URI 속성 포함)를 가져온 URL 기준으로 해석
+// 플레이리스트 디렉토리 아래의 URI는 상대 경로로 유지해 업로드된 세그먼트와 매칭하고, 그 밖은 절대 URL로 변환
+export function resolvePlaylistUris(content: string, baseUrl: string): string {
+    const directory = new URL('.', baseUrl);
+
+    const resolve = (uri: string): string => {
+        let resolved: URL;
+        try {
+            resolved = new URL(uri, baseUrl);
+        } catch {
+            return uri;
+        }
+        if (resolved.origin === directory.origin && resolved.pathname.startsWith(directory.pathname)) {
+            return resolved.pathname.slice(directory.pathname.length) + resolved.search + resolved.hash;
+        }
+        return resolved.href;
+    };
+
+    return content.split(/\r?\n/).map(line => {
+        const trimmed = line.trim();
+        if (!trimmed) {
+            return line;
+        }
+        if (!trimmed.startsWith('#')) {
+            return resolve(trimmed);
+        }
+        return line.replace(/URI="([^"]*)"/g, (_match, uri: string) => `URI="${resolve(uri)}"`);
+    }).join('\n');
+}
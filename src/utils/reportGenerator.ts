@@ -1,15 +1,38 @@
 import fs from 'fs';
 import path from 'path';
-import { M3u8TrackingInfo } from '../types';
+import { InexactSegmentMatch, M3u8TrackingInfo, MasterPlaylistInfo } from '../types';
+import { comparePipelines, PipelineComparison } from './pipelineComparator';
+import { LadderSummary, summarizeLadder } from './masterPlaylist';
+import { FaultInjector, FaultSummary } from './faultInjector';
+import { AuthStats, IngestAuthenticator } from './ingestAuth';
+import { HlsValidator, HlsViolation, HlsViolationRule } from './hlsValidator';
+import { averageOf, getSessionSegments, getSessionTotals } from './segmentLedger';
+import { PendingSegmentPool, UnreferencedUpload } from './pendingSegmentPool';
+import { getDurationMismatch } from './tsInspector';
+import { SegmentUploadHistory, summarizeUploads, UploadHistory, UploadSummary } from './uploadHistory';
+import { ChannelLifecycle, ChannelLifecycleTracker } from './channelLifecycle';
+import { IngestEventBus, IngestEventName } from './eventBus';
+import { RemoteFetchStats, RemotePlaylistFetcher } from './remotePlaylistFetcher';
+import { LatencyMetric, LatencyPercentiles, LatencyPercentileTracker } from './latencySketch';
 import { Logger } from 'winston';
 import logger from './logger';
 
 export interface StreamMetrics {
     channelId: string;
+    redundantId?: string;
     m3u8Uri: string;
     totalSegments: number;
     receivedSegments: number;
     missingSegments: number;
+    lateSegments: number;              // Segments received after their deadline or after leaving the window
+    avgLateness: number;               // Average time late segments arrived past their deadline (ms)
+    maxLateness: number;               // Maximum time a late segment arrived past its deadline (ms)
+    timedOutSegments: number;          // Segments still in the window that timed out (state: missing)
+    expiredSegments: number;           // Segments that left the window without being received
+    pendingSegments: number;           // Announced segments still within their timeout
+    injectedMissingSegments: number;   // Missing segments whose upload was failed by fault injection
+    initSegments: number;              // Number of #EXT-X-MAP initialization segments announced
+    receivedInitSegments: number;      // Number of initialization segments received
     averageSegmentSize: number;
     totalBytes: number;
     startTime: number;
@@ -17,58 +40,243 @@ export interface StreamMetrics {
     duration: number;
     bitrate: number;
     
+    preAnnouncedSegments: number;      // Segments uploaded before a playlist referenced them
+    avgPreAnnounceLead: number;        // Average time those segments arrived before their playlist (ms)
     avgSegmentTransferDelay: number;   // Average time from playlist appearance to segment reception (ms)
     minSegmentTransferDelay: number;   // Minimum segment transfer delay (ms)
     maxSegmentTransferDelay: number;   // Maximum segment transfer delay (ms)
+    avgUploadDuration: number;         // Average time taken to receive a segment body (ms)
     m3u8UpdateInterval: number;        // Average time between M3U8 playlist updates (ms)
     lastM3u8UpdateTime: number;        // Timestamp of the last M3U8 update
+    latencyPercentiles?: LatencyPercentiles;  // p50/p90/p95/p99 of transfer delay, arrival interval and M3U8 update interval (session and rolling windows)
     
     segmentArrivalJitter: number;      // Standard deviation of inter-segment arrival times (ms)
     timeoutEvents: number;             // Number of segment timeout events
     successiveTimeouts: number;        // Maximum number of successive timeout events
     segmentArrivalIntervals: number[]; // Array of intervals between segment arrivals (for jitter calculation)
+
+    deletedSegments: number;           // Number of segment DELETE requests
+    deletedUnreceivedSegments: number; // Number of deleted segments that were never received
+    deletedAt?: number;                // Timestamp of the M3U8 DELETE request
+
+    inspectedSegments: number;         // Received segments whose MPEG-TS payload was inspected
+    payloadProblemSegments: number;    // Inspected segments with payload problems (sync, PAT/PMT, continuity, keyframe)
+    durationMismatches: number;        // Segments whose PTS duration differs from #EXTINF
+    maxDurationMismatch: number;       // Largest absolute PTS duration vs #EXTINF difference (seconds)
+
+    uploadRetries: number;             // Upload attempts after the first one for the same segment path
+    identicalReuploads: number;        // Retries with the same content as the previous upload
+    replacedUploads: number;           // Uploads that changed the content of an already-received segment
+
+    sequenceMatches: number;           // Segments matched by media sequence number (segmentMatching: sequence)
+    fuzzyMatches: number;              // Segments matched by similar names (segmentMatching: fuzzy)
+}
+
+// JSON 보고서 형식이 바뀌면 올림
+export const REPORT_VERSION = 2;
+
+// JSON 보고서에서 선택할 수 있는 스트림 메트릭 그룹
+export const REPORT_METRIC_GROUPS = {
+    segments: ['totalSegments', 'receivedSegments', 'missingSegments', 'lateSegments', 'timedOutSegments', 'expiredSegments',
+        'pendingSegments', 'injectedMissingSegments', 'initSegments', 'receivedInitSegments'],
+    throughput: ['averageSegmentSize', 'totalBytes', 'startTime', 'endTime', 'duration', 'bitrate'],
+    latency: ['preAnnouncedSegments', 'avgPreAnnounceLead', 'avgSegmentTransferDelay', 'minSegmentTransferDelay', 'maxSegmentTransferDelay',
+        'avgUploadDuration', 'm3u8UpdateInterval', 'lastM3u8UpdateTime', 'latencyPercentiles'],
+    reliability: ['avgLateness', 'maxLateness', 'segmentArrivalJitter', 'timeoutEvents', 'successiveTimeouts', 'segmentArrivalIntervals'],
+    payload: ['inspectedSegments', 'payloadProblemSegments', 'durationMismatches', 'maxDurationMismatch'],
+    uploads: ['uploadRetries', 'identicalReuploads', 'replacedUploads', 'sequenceMatches', 'fuzzyMatches'],
+    deletes: ['deletedSegments', 'deletedUnreceivedSegments', 'deletedAt']
+} satisfies Record<string, (keyof StreamMetrics)[]>;
+
+export type ReportMetricGroup = keyof typeof REPORT_METRIC_GROUPS;
+
+export interface ReportFilter {
+    channelId?: string;
+    redundantId?: string;
+    playlist?: string;                 // Playlist path (m3u8Uri) or file name
+    groups?: ReportMetricGroup[];      // Metric groups included in the JSON report (default: all)
+}
+
+export interface ReportSummary {
+    totalStreams: number;
+    totalDuration: number;             // Longest stream duration (seconds)
+    totalBytes: number;
+    averageBitrate: number;            // bps
+}
+
+export interface ChannelFaults extends FaultSummary {
+    channelId: string;
+}
+
+export interface ChannelAuthStats extends AuthStats {
+    channelId: string;
+}
+
+export interface StreamPayloadProblems {
+    channelId: string;
+    redundantId?: string;
+    m3u8Uri: string;
+    problemSegments: number;           // Segments with payload problems or a PTS duration mismatch
+    segments: { uri: string; problems: string[] }[];   // Most recent problem segments
+}
+
+export interface ChannelUnreferencedUploads {
+    channelId: string;
+    uploads: UnreferencedUpload[];
+}
+
+export interface RepeatedUploads extends UploadSummary {
+    channelId: string;
+    redundantId?: string;
+    histories: SegmentUploadHistory[]; // Segments uploaded more than once, replaced content first
+    omitted: number;                   // Repeated segments not listed in histories
+}
+
+export interface StreamInexactMatches {
+    channelId: string;
+    redundantId?: string;
+    m3u8Uri: string;
+    totalMatches: number;              // Every inexact match of the playlist, including ones no longer listed
+    matches: InexactSegmentMatch[];    // Most recent matches
+}
+
+export interface ChannelViolations {
+    channelId: string;
+    revisions: number;                 // Invalid playlist revisions
+    ruleCounts: Partial<Record<HlsViolationRule, number>>;
+    violations: HlsViolation[];
+}
+
+// 스트림 메트릭 외의 보고서 섹션 - 각 섹션은 보고서 필터 중 해당하는 범위(채널/파이프라인/플레이리스트)로 좁혀짐
+export interface ReportSections {
+    faults: ChannelFaults[];
+    authentication: ChannelAuthStats[];
+    remoteFetches: RemoteFetchStats[];
+    payloadProblems: StreamPayloadProblems[];
+    unreferencedUploads: ChannelUnreferencedUploads[];
+    repeatedUploads: RepeatedUploads[];
+    inexactMatches: StreamInexactMatches[];
+    violations: ChannelViolations[];
+    ladders: LadderSummary[];
+    pipelineComparisons: PipelineComparison[];
+}
+
+// 텍스트 보고서와 JSON 보고서가 함께 사용하는 보고서 데이터
+interface ReportData extends ReportSections {
+    generatedAt: number;
+    summary: ReportSummary;
+    metrics: StreamMetrics[];
+    lifecycles: ChannelLifecycle[];
+    eventCounts: Record<string, number>;
+}
+
+export interface JsonStreamReport {
+    channelId: string;
+    redundantId?: string;
+    m3u8Uri: string;
+    metrics: Partial<Record<ReportMetricGroup, Partial<StreamMetrics>>>;
+}
+
+export interface JsonReport extends ReportSections {
+    version: number;
+    generatedAt: string;
+    filter: ReportFilter;
+    summary: ReportSummary;
+    channels: ChannelLifecycle[];
+    events: Record<string, number>;
+    streams: JsonStreamReport[];
 }
 
+// 스트림별로 나열하는 페이로드 문제 세그먼트 수 (최근 항목 우선)
+const MAX_LISTED_PAYLOAD_PROBLEMS = 20;
+
+// 채널(파이프라인)별로 나열하는 반복 업로드 세그먼트 수 (내용이 바뀐 업로드 우선)
+const MAX_LISTED_REPEATED_UPLOADS = 20;
+
 export class ReportGenerator {
     private mockStoragePath: string;
     private streamTracker: Map<string, M3u8TrackingInfo>;
     private logger: Logger;
+    private faultInjector?: FaultInjector;
+    private ingestAuthenticator?: IngestAuthenticator;
+    private masterTracker?: Map<string, MasterPlaylistInfo>;
+    private hlsValidator?: HlsValidator;
+    private pendingSegmentPool?: PendingSegmentPool;
+    private uploadHistory?: UploadHistory;
+    private channelLifecycle?: ChannelLifecycleTracker;
+    private remotePlaylistFetcher?: RemotePlaylistFetcher;
+    private latencyPercentiles?: LatencyPercentileTracker;
+    private eventCounts: Map<IngestEventName, number> = new Map();
 
-    constructor(mockStoragePath: string, streamTracker: Map<string, M3u8TrackingInfo>, loggerInstance?: Logger) {
+    constructor(
+        mockStoragePath: string,
+        streamTracker: Map<string, M3u8TrackingInfo>,
+        loggerInstance?: Logger,
+        options: {
+            faultInjector?: FaultInjector;
+            ingestAuthenticator?: IngestAuthenticator;
+            masterTracker?: Map<string, MasterPlaylistInfo>;
+            hlsValidator?: HlsValidator;
+            pendingSegmentPool?: PendingSegmentPool;
+            uploadHistory?: UploadHistory;
+            channelLifecycle?: ChannelLifecycleTracker;
+            eventBus?: IngestEventBus;
+            remotePlaylistFetcher?: RemotePlaylistFetcher;
+            latencyPercentiles?: LatencyPercentileTracker;
+        } = {}
+    ) {
         this.mockStoragePath = mockStoragePath;
         this.streamTracker = streamTracker;
         this.logger = loggerInstance || logger;
+        this.faultInjector = options.faultInjector;
+        this.ingestAuthenticator = options.ingestAuthenticator;
+        this.masterTracker = options.masterTracker;
+        this.hlsValidator = options.hlsValidator;
+        this.pendingSegmentPool = options.pendingSegmentPool;
+        this.uploadHistory = options.uploadHistory;
+        this.channelLifecycle = options.channelLifecycle;
+        this.remotePlaylistFetcher = options.remotePlaylistFetcher;
+        this.latencyPercentiles = options.latencyPercentiles;
+
+        // 이벤트 종류별 발생 횟수 집계
+        options.eventBus?.onAny(event => {
+            this.eventCounts.set(event, (this.eventCounts.get(event) || 0) + 1);
+        });
     }
 
-    private calculateStreamMetrics(channelId: string, trackingInfo: M3u8TrackingInfo): StreamMetrics {
-        const segments = Array.from(trackingInfo.segments.values());
-        const receivedSegments = segments.filter(s => s.received);
+    private calculateStreamMetrics(m3u8Key: string, channelId: string, trackingInfo: M3u8TrackingInfo): StreamMetrics {
+        // 현재 윈도우가 아닌 세션 전체(원장 + 압축된 항목)의 세그먼트 기준으로 집계
+        const allSegments = getSessionSegments(trackingInfo);
+        // 초기화 세그먼트(#EXT-X-MAP)는 미디어 세그먼트와 별도로 집계
+        const segments = allSegments.filter(s => s.kind !== 'init');
+        const initSegments = allSegments.filter(s => s.kind === 'init');
+        const totals = getSessionTotals(trackingInfo);
+        // 업로드 기록과 주입된 장애는 URI별로 조회하므로 원장에 남아 있는 항목만 집계
+        const uploads = summarizeUploads(allSegments
+            .map(s => this.uploadHistory?.get(channelId, trackingInfo.redundantId, s.uri))
+            .filter((history): history is NonNullable<typeof history> => history !== undefined));
+        
+        // 주입된 장애로 업로드가 실패한 누락 세그먼트 (실제 인코더 누락과 구분)
+        const injectedMissingSegments = this.faultInjector
+            ? segments.filter(s => !s.received && this.faultInjector!.wasUploadFailureInjected(channelId, trackingInfo.redundantId, s.uri)).length
+            : 0;
         
         // 디버그 로깅 추가
         this.logger.debug(`Calculating metrics for ${channelId}, M3U8: ${trackingInfo.m3u8Uri}`);
-        this.logger.debug(`Total segments: ${segments.length}, Received segments: ${receivedSegments.length}`);
-        
-        // 세그먼트 정보 로깅
-        if (receivedSegments.length > 0) {
-            const firstSegment = receivedSegments[0];
-            this.logger.debug(`Sample segment - size: ${firstSegment.size || 0}, receivedAt: ${firstSegment.receivedAt || 0}, firstSeenAt: ${firstSegment.firstSeenAt || 0}`);
-        }
+        this.logger.debug(`Total segments: ${totals.segments}, Received segments: ${totals.received}`);
         
-        const totalBytes = receivedSegments.reduce((sum, seg) => sum + (seg.size || 0), 0);
+        const totalBytes = totals.bytes;
         
-        // 시작 및 종료 시간 계산 개선
+        // 수신 시각 범위는 트래커의 누적값 사용 (이전 버전에서 저장된 트래커는 세그먼트 합계에서 계산)
+        const firstReceivedAt = trackingInfo.firstSegmentReceivedAt ?? totals.firstReceivedAt;
+        const lastReceivedAt = trackingInfo.lastSegmentReceivedAt ?? totals.lastReceivedAt;
         let startTime = 0;
         let endTime = 0;
         
-        if (receivedSegments.length > 0) {
-            // 수신된 세그먼트의 타임스탬프 확인
-            const receivedTimes = receivedSegments
-                .filter(s => s.receivedAt !== undefined)
-                .map(s => s.receivedAt as number);
-                
-            if (receivedTimes.length > 0) {
-                startTime = Math.min(...receivedTimes);
-                endTime = Math.max(...receivedTimes);
+        if (totals.received > 0) {
+            if (firstReceivedAt !== undefined && lastReceivedAt !== undefined) {
+                startTime = firstReceivedAt;
+                endTime = lastReceivedAt;
             } else {
                 // 타임스탬프가 없는 경우 대체값 사용
                 startTime = trackingInfo.receivedAt;
@@ -85,25 +293,23 @@ export class ReportGenerator {
         const bitrate = totalBytes * 8 / duration; // 초당 비트 수
 
         // 지연 시간 메트릭 계산
+        // 플레이리스트보다 먼저 도착한 세그먼트는 전송 지연 대신 선행 시간으로 별도 집계
+        const avgPreAnnounceLead = averageOf(totals.preAnnounceLead);
+
         // 세그먼트 전송 지연 (플레이리스트에 등장 -> 수신까지)
-        const transferDelays = receivedSegments
-            .filter(s => s.firstSeenAt !== undefined && s.receivedAt !== undefined)
-            .map(s => (s.receivedAt as number) - (s.firstSeenAt as number));
-        
-        this.logger.debug(`Transfer delays collected: ${transferDelays.length}`);
+        this.logger.debug(`Transfer delays collected: ${totals.transferDelay.count}`);
         
-        let avgSegmentTransferDelay = 0;
-        let minSegmentTransferDelay = 0;
-        let maxSegmentTransferDelay = 0;
+        const avgSegmentTransferDelay = averageOf(totals.transferDelay);
+        const minSegmentTransferDelay = totals.transferDelay.min ?? 0;
+        const maxSegmentTransferDelay = totals.transferDelay.max ?? 0;
         
-        if (transferDelays.length > 0) {
-            avgSegmentTransferDelay = transferDelays.reduce((sum, delay) => sum + delay, 0) / transferDelays.length;
-            minSegmentTransferDelay = Math.min(...transferDelays);
-            maxSegmentTransferDelay = Math.max(...transferDelays);
-            
+        if (totals.transferDelay.count > 0) {
             this.logger.debug(`Transfer delay stats - avg: ${avgSegmentTransferDelay.toFixed(2)}ms, min: ${minSegmentTransferDelay}ms, max: ${maxSegmentTransferDelay}ms`);
         }
         
+        // 세그먼트 업로드 소요 시간 (요청 본문 수신 시작 -> 완료)
+        const avgUploadDuration = averageOf(totals.uploadDuration);
+        
         // M3U8 업데이트 간격 계산
         const m3u8Updates = trackingInfo.previousM3u8Updates || [];
         const m3u8UpdateIntervals = [];
@@ -145,11 +351,21 @@ export class ReportGenerator {
 
         return {
             channelId,
+            redundantId: trackingInfo.redundantId,
             m3u8Uri: trackingInfo.m3u8Uri,
-            totalSegments: segments.length,
-            receivedSegments: receivedSegments.length,
-            missingSegments: segments.length - receivedSegments.length,
-            averageSegmentSize: receivedSegments.length > 0 ? totalBytes / receivedSegments.length : 0,
+            totalSegments: totals.segments,
+            receivedSegments: totals.received,
+            missingSegments: totals.segments - totals.received,
+            lateSegments: totals.states.late,
+            avgLateness: averageOf(totals.lateness),
+            maxLateness: totals.lateness.max ?? 0,
+            timedOutSegments: totals.states.missing,
+            expiredSegments: totals.states.expired,
+            pendingSegments: totals.states.announced,
+            injectedMissingSegments,
+            initSegments: initSegments.length,
+            receivedInitSegments: initSegments.filter(s => s.received).length,
+            averageSegmentSize: totals.received > 0 ? totalBytes / totals.received : 0,
             totalBytes,
             startTime,
             endTime,
@@ -157,17 +373,39 @@ export class ReportGenerator {
             bitrate,
             
             // 지연 시간 메트릭
+            preAnnouncedSegments: totals.preAnnounceLead.count,
+            avgPreAnnounceLead,
             avgSegmentTransferDelay,
             minSegmentTransferDelay,
             maxSegmentTransferDelay,
+            avgUploadDuration,
             m3u8UpdateInterval,
             lastM3u8UpdateTime,
+            latencyPercentiles: this.latencyPercentiles?.getPercentiles(m3u8Key),
             
             // 신뢰성 메트릭
             segmentArrivalJitter,
             timeoutEvents,
             successiveTimeouts,
-            segmentArrivalIntervals: arrivalIntervals
+            segmentArrivalIntervals: arrivalIntervals,
+
+            // 삭제 메트릭
+            deletedSegments: trackingInfo.deletedSegments || 0,
+            deletedUnreceivedSegments: trackingInfo.deletedUnreceivedSegments || 0,
+            deletedAt: trackingInfo.deletedAt,
+
+            // 페이로드 검사
+            inspectedSegments: totals.inspected,
+            payloadProblemSegments: totals.payloadProblems,
+            durationMismatches: totals.durationMismatch.count,
+            maxDurationMismatch: totals.durationMismatch.max ?? 0,
+
+            // 정확하지 않은 세그먼트 매칭
+            uploadRetries: uploads.retries,
+            identicalReuploads: uploads.identical,
+            replacedUploads: uploads.replaced,
+            sequenceMatches: trackingInfo.sequenceMatches,
+            fuzzyMatches: trackingInfo.fuzzyMatches
         };
     }
 
@@ -193,38 +431,237 @@ export class ReportGenerator {
         return `${rate.toFixed(2)} ${units[unitIndex]}`;
     }
 
-    public generateReport(): string {
+    private matchesFilter(filter: ReportFilter, channelId: string, redundantId?: string, m3u8Uri?: string): boolean {
+        if (filter.channelId !== undefined && channelId !== filter.channelId) {
+            return false;
+        }
+        if (filter.redundantId !== undefined && redundantId !== filter.redundantId) {
+            return false;
+        }
+        if (filter.playlist !== undefined && m3u8Uri !== undefined) {
+            return m3u8Uri === filter.playlist || path.posix.basename(m3u8Uri) === filter.playlist;
+        }
+        return true;
+    }
+
+    private collectReportData(filter: ReportFilter): ReportData {
         const metrics: StreamMetrics[] = [];
+        const payloadProblems: StreamPayloadProblems[] = [];
+        const inexactMatches: StreamInexactMatches[] = [];
+        const matchedStreams = new Map<string, M3u8TrackingInfo>();
         let totalBytes = 0;
         let totalDuration = 0;
-        const now = Date.now();
 
-        for (const [key, trackingInfo] of this.streamTracker.entries()) {
-            const metric = this.calculateStreamMetrics(trackingInfo.channelId, trackingInfo);
+        for (const [m3u8Key, trackingInfo] of this.streamTracker.entries()) {
+            if (!this.matchesFilter(filter, trackingInfo.channelId, trackingInfo.redundantId, trackingInfo.m3u8Uri)) {
+                continue;
+            }
+            matchedStreams.set(m3u8Key, trackingInfo);
+            const metric = this.calculateStreamMetrics(m3u8Key, trackingInfo.channelId, trackingInfo);
             metrics.push(metric);
             totalBytes += metric.totalBytes;
             totalDuration = Math.max(totalDuration, metric.duration);
+
+            const problems = this.collectPayloadProblems(trackingInfo);
+            if (problems) {
+                payloadProblems.push(problems);
+            }
+            // 미디어 시퀀스/유사 이름으로 매칭된 세그먼트는 잘못 수신 처리되었을 수 있으므로 보관된 최근 매칭을 모두 나열
+            if (trackingInfo.inexactMatches.length > 0) {
+                const { channelId, redundantId, m3u8Uri } = trackingInfo;
+                const totalMatches = trackingInfo.sequenceMatches + trackingInfo.fuzzyMatches;
+                inexactMatches.push({ channelId, redundantId, m3u8Uri, totalMatches, matches: trackingInfo.inexactMatches });
+            }
+        }
+
+        // 채널 단위로만 집계되는 섹션은 파이프라인/플레이리스트 필터를 적용하지 않음
+        const channelFilter: ReportFilter = { channelId: filter.channelId };
+        const inChannel = (channelId: string) => this.matchesFilter(channelFilter, channelId);
+        // 업로드 기록은 채널(파이프라인) 루트 기준이므로 플레이리스트 필터는 적용하지 않음
+        const inPipeline = (channelId: string, redundantId?: string) =>
+            this.matchesFilter({ channelId: filter.channelId, redundantId: filter.redundantId }, channelId, redundantId);
+
+        const unreferencedUploads: ChannelUnreferencedUploads[] = [];
+        for (const [channelId, uploads] of this.pendingSegmentPool?.getUnreferenced() || []) {
+            const matched = uploads.filter(upload => inPipeline(upload.channelId, upload.redundantId));
+            if (matched.length > 0) {
+                unreferencedUploads.push({ channelId, uploads: matched });
+            }
         }
 
+        const repeatedUploads = Array.from(this.uploadHistory?.getRepeatedUploads().values() || [])
+            .filter(histories => inPipeline(histories[0].channelId, histories[0].redundantId))
+            .map(histories => this.collectRepeatedUploads(histories));
+
+        const ladders = Array.from(this.masterTracker?.values() || [])
+            .filter(master => master.deletedAt === undefined && this.matchesFilter(filter, master.channelId, master.redundantId, master.m3u8Uri))
+            .map(master => summarizeLadder(master, this.streamTracker));
+
+        // 파이프라인 비교에는 모든 파이프라인이 필요하므로 파이프라인 필터는 비교 대상 포함 여부로 적용
+        const pipelineComparisons = comparePipelines(new Map(Array.from(this.streamTracker.entries())
+            .filter(([, info]) => this.matchesFilter({ ...filter, redundantId: undefined }, info.channelId, info.redundantId, info.m3u8Uri))))
+            .filter(comparison => filter.redundantId === undefined || comparison.pipelines.includes(filter.redundantId));
+
+        return {
+            generatedAt: Date.now(),
+            summary: {
+                totalStreams: metrics.length,
+                totalDuration,
+                totalBytes,
+                averageBitrate: totalDuration > 0 ? (totalBytes * 8) / totalDuration : 0
+            },
+            metrics,
+            lifecycles: (this.channelLifecycle?.list() || []).filter(lifecycle => inChannel(lifecycle.channelId)),
+            eventCounts: Object.fromEntries(this.eventCounts),
+            faults: Array.from(this.faultInjector?.getSummaries() || [])
+                .filter(([channelId]) => inChannel(channelId))
+                .map(([channelId, summary]) => ({ channelId, ...summary })),
+            authentication: Array.from(this.ingestAuthenticator?.getStats() || [])
+                .filter(([channelId]) => inChannel(channelId))
+                .map(([channelId, stats]) => ({ channelId, ...stats })),
+            remoteFetches: Array.from(this.remotePlaylistFetcher?.getStats().values() || []).filter(stats => inChannel(stats.channelId)),
+            payloadProblems,
+            unreferencedUploads,
+            repeatedUploads,
+            inexactMatches,
+            violations: this.collectViolations(filter),
+            ladders,
+            pipelineComparisons
+        };
+    }
+
+    private collectPayloadProblems(trackingInfo: M3u8TrackingInfo): StreamPayloadProblems | undefined {
+        const segments: StreamPayloadProblems['segments'] = [];
+        for (const segment of getSessionSegments(trackingInfo)) {
+            if (!segment.payload) {
+                continue;
+            }
+            const problems = [...segment.payload.problems];
+            const mismatch = getDurationMismatch(segment);
+            if (mismatch !== undefined) {
+                problems.push(`PTS duration ${segment.payload.durationSeconds!.toFixed(3)}s vs #EXTINF ${segment.duration}s`);
+            }
+            if (problems.length > 0) {
+                segments.push({ uri: segment.uri, problems });
+            }
+        }
+        if (segments.length === 0) {
+            return undefined;
+        }
+
+        const { channelId, redundantId, m3u8Uri } = trackingInfo;
+        return { channelId, redundantId, m3u8Uri, problemSegments: segments.length, segments: segments.slice(-MAX_LISTED_PAYLOAD_PROBLEMS) };
+    }
+
+    private collectRepeatedUploads(histories: SegmentUploadHistory[]): RepeatedUploads {
+        const { channelId, redundantId } = histories[0];
+        // 내용이 바뀐 업로드는 다운스트림 캐시 불일치를 일으키므로 먼저 나열
+        const listed = [...histories]
+            .sort((a, b) => (b.replaced > 0 ? 1 : 0) - (a.replaced > 0 ? 1 : 0))
+            .slice(0, MAX_LISTED_REPEATED_UPLOADS);
+        return { channelId, redundantId, ...summarizeUploads(histories), histories: listed, omitted: histories.length - listed.length };
+    }
+
+    // 필터에 맞는 위반만 채널별로 집계 (플레이리스트 리비전 단위)
+    private collectViolations(filter: ReportFilter): ChannelViolations[] {
+        const channels: ChannelViolations[] = [];
+        for (const [channelId, records] of this.hlsValidator?.getAllViolations() || []) {
+            const matchedRecords = records
+                .map(record => record.violations.filter(violation =>
+                    this.matchesFilter(filter, violation.channelId, violation.redundantId, violation.m3u8Uri)))
+                .filter(violations => violations.length > 0);
+            if (matchedRecords.length === 0) {
+                continue;
+            }
+            const violations = matchedRecords.flat();
+            const ruleCounts: Partial<Record<HlsViolationRule, number>> = {};
+            violations.forEach(violation => {
+                ruleCounts[violation.rule] = (ruleCounts[violation.rule] || 0) + 1;
+            });
+            channels.push({ channelId, revisions: matchedRecords.length, ruleCounts, violations });
+        }
+        return channels;
+    }
+
+    // CI 등에서 사용하는 버전이 지정된 JSON 보고서 - 텍스트 보고서와 같은 데이터로 생성
+    public generateJsonReport(filter: ReportFilter = {}): JsonReport {
+        const data = this.collectReportData(filter);
+        const groups = filter.groups || (Object.keys(REPORT_METRIC_GROUPS) as ReportMetricGroup[]);
+
+        return {
+            version: REPORT_VERSION,
+            generatedAt: new Date(data.generatedAt).toISOString(),
+            filter,
+            summary: data.summary,
+            channels: data.lifecycles,
+            events: data.eventCounts,
+            streams: data.metrics.map(metric => {
+                const grouped: JsonStreamReport['metrics'] = {};
+                groups.forEach(group => {
+                    const fields: Partial<StreamMetrics> = {};
+                    (REPORT_METRIC_GROUPS[group] as (keyof StreamMetrics)[]).forEach(field => {
+                        (fields as Record<string, unknown>)[field] = metric[field];
+                    });
+                    grouped[group] = fields;
+                });
+                return { channelId: metric.channelId, redundantId: metric.redundantId, m3u8Uri: metric.m3u8Uri, metrics: grouped };
+            }),
+            faults: data.faults,
+            authentication: data.authentication,
+            remoteFetches: data.remoteFetches,
+            payloadProblems: data.payloadProblems,
+            unreferencedUploads: data.unreferencedUploads,
+            repeatedUploads: data.repeatedUploads,
+            inexactMatches: data.inexactMatches,
+            violations: data.violations,
+            ladders: data.ladders,
+            pipelineComparisons: data.pipelineComparisons
+        };
+    }
+
+    public generateReport(filter: ReportFilter = {}): string {
+        const data = this.collectReportData(filter);
+        const { metrics, summary, lifecycles } = data;
+        const now = data.generatedAt;
+
         const report = [
             '=== Stream Performance Report ===',
-            `Generated at: ${new Date().toISOString()}`,
-            `Total streams analyzed: ${metrics.length}`,
-            `Total duration: ${totalDuration.toFixed(2)} seconds`,
-            `Total data transferred: ${this.formatBytes(totalBytes)}`,
-            `Average bitrate: ${this.formatBitrate((totalBytes * 8) / totalDuration)}`,
-            '\n=== Individual Stream Metrics ===\n'
+            `Generated at: ${new Date(now).toISOString()}`,
+            `Total streams analyzed: ${summary.totalStreams}`,
+            `Total duration: ${summary.totalDuration.toFixed(2)} seconds`,
+            `Total data transferred: ${this.formatBytes(summary.totalBytes)}`,
+            `Average bitrate: ${this.formatBitrate(summary.averageBitrate)}`
         ];
 
+        if (lifecycles.length > 0) {
+            report.push('\n=== Channel States ===\n');
+            lifecycles.forEach(lifecycle => {
+                const lastActivity = lifecycle.lastActivityAt ? `, last upload ${((now - lifecycle.lastActivityAt) / 1000).toFixed(2)} s ago` : '';
+                report.push(`Channel: ${lifecycle.channelId} - ${lifecycle.state.toUpperCase()} since ${new Date(lifecycle.since).toISOString()} (${lifecycle.history.length - 1} transition(s)${lastActivity})`);
+            });
+        }
+
+        if (Object.keys(data.eventCounts).length > 0) {
+            report.push('\n=== Ingest Events ===\n');
+            for (const [event, count] of Object.entries(data.eventCounts)) {
+                report.push(`${event}: ${count}`);
+            }
+        }
+
+        report.push('\n=== Individual Stream Metrics ===\n');
+
         metrics.forEach(metric => {
             const timeSinceLastSegment = metric.endTime ? (now - metric.endTime) / 1000 : 0;
             const segmentsPerSecond = metric.duration > 0 ? metric.receivedSegments / metric.duration : 0;
+            const receivedPercent = metric.totalSegments > 0 ? (metric.receivedSegments / metric.totalSegments) * 100 : 0;
             const timeSinceLastM3u8 = metric.lastM3u8UpdateTime ? (now - metric.lastM3u8UpdateTime) / 1000 : 0;
             
             report.push(
                 `Channel: ${metric.channelId}`,
+                ...(metric.redundantId ? [`Pipeline: ${metric.redundantId}`] : []),
                 `M3U8 URI: ${metric.m3u8Uri}`,
-                `Segments: ${metric.receivedSegments}/${metric.totalSegments} (${((metric.receivedSegments/metric.totalSegments)*100).toFixed(2)}% received)`,
+                `Segments: ${metric.receivedSegments}/${metric.totalSegments} (${receivedPercent.toFixed(2)}% received)`,
+                ...(metric.initSegments > 0 ? [`Init segments: ${metric.receivedInitSegments}/${metric.initSegments} received`] : []),
                 `Segments per second: ${segmentsPerSecond.toFixed(2)}`,
                 `Time since last segment: ${timeSinceLastSegment.toFixed(2)} seconds`,
                 `Average segment size: ${this.formatBytes(metric.averageSegmentSize)}`,
@@ -233,23 +670,249 @@ export class ReportGenerator {
                 `Bitrate: ${this.formatBitrate(metric.bitrate)}`,
                 // Add new latency metrics
                 `\nLatency Metrics:`,
+                ...(metric.preAnnouncedSegments > 0
+                    ? [`Pre-announced segments: ${metric.preAnnouncedSegments} (avg ${metric.avgPreAnnounceLead.toFixed(2)} ms before the playlist)`]
+                    : []),
                 `Avg segment transfer delay: ${metric.avgSegmentTransferDelay.toFixed(2)} ms`,
                 `Min segment transfer delay: ${metric.minSegmentTransferDelay.toFixed(2)} ms`,
                 `Max segment transfer delay: ${metric.maxSegmentTransferDelay.toFixed(2)} ms`,
+                `Avg segment upload duration: ${metric.avgUploadDuration.toFixed(2)} ms`,
                 `M3U8 update interval: ${metric.m3u8UpdateInterval.toFixed(2)} ms`,
                 `Time since last M3U8 update: ${timeSinceLastM3u8.toFixed(2)} seconds`,
+                ...(metric.latencyPercentiles ? this.formatLatencyPercentiles(metric.latencyPercentiles) : []),
                 // Add new reliability metrics
                 `\nReliability Metrics:`,
                 `Segment arrival jitter: ${metric.segmentArrivalJitter.toFixed(2)} ms`,
+                `Missing segments: ${metric.missingSegments} (injected: ${metric.injectedMissingSegments}, genuine: ${metric.missingSegments - metric.injectedMissingSegments})`,
+                `Segment states: ${metric.receivedSegments - metric.lateSegments} on time, ${metric.lateSegments} late, ${metric.timedOutSegments} timed out, ${metric.expiredSegments} expired, ${metric.pendingSegments} pending`,
+                ...(metric.lateSegments > 0
+                    ? [`Late arrivals: ${metric.lateSegments} (avg ${metric.avgLateness.toFixed(2)} ms, max ${metric.maxLateness.toFixed(2)} ms past deadline)`]
+                    : []),
                 `Timeout events: ${metric.timeoutEvents}`,
                 `Maximum successive timeouts: ${metric.successiveTimeouts}`,
+                ...(metric.uploadRetries > 0
+                    ? [`Upload retries: ${metric.uploadRetries} (identical: ${metric.identicalReuploads}, replaced content: ${metric.replacedUploads})`]
+                    : []),
+                ...(metric.sequenceMatches + metric.fuzzyMatches > 0
+                    ? [`Inexact segment matches: ${metric.sequenceMatches + metric.fuzzyMatches} (sequence: ${metric.sequenceMatches}, fuzzy: ${metric.fuzzyMatches})`]
+                    : []),
+                ...(metric.inspectedSegments > 0
+                    ? [`\nPayload Metrics:`,
+                        `Inspected segments: ${metric.inspectedSegments} (${metric.payloadProblemSegments} with problems)`,
+                        `#EXTINF duration mismatches: ${metric.durationMismatches} (max ${metric.maxDurationMismatch.toFixed(3)} s)`]
+                    : []),
+                // Add delete metrics
+                `\nDelete Metrics:`,
+                `Deleted segments: ${metric.deletedSegments} (${metric.deletedUnreceivedSegments} never received)`,
+                `M3U8 deleted: ${metric.deletedAt ? new Date(metric.deletedAt).toISOString() : 'no'}`,
                 '---'
             );
         });
 
+        if (data.faults.length > 0) {
+            report.push('\n=== Injected Faults ===\n');
+            data.faults.forEach(({ channelId, total, byType }) => {
+                report.push(`Channel: ${channelId} - ${total} fault(s) (error: ${byType.error}, drop: ${byType.drop}, reject: ${byType.reject}, latency: ${byType.latency})`);
+            });
+        }
+
+        if (data.remoteFetches.length > 0) {
+            report.push('\n=== Remote Playlist Fetches ===\n');
+            data.remoteFetches.forEach(stats => {
+                const averageLatency = stats.fetches > 0 ? Math.round(stats.totalLatencyMs / stats.fetches) : 0;
+                const reasons = Object.entries(stats.failuresByReason).map(([reason, count]) => `${reason}: ${count}`).join(', ');
+                report.push(`Channel: ${stats.channelId} - fetches: ${stats.fetches}, failures: ${stats.failures}${reasons ? ` (${reasons})` : ''}, retries: ${stats.retries}`);
+                report.push(`  Latency: avg ${averageLatency} ms, max ${stats.maxLatencyMs} ms, last ${stats.lastLatencyMs ?? '-'} ms`);
+                if (stats.lastFailure) {
+                    report.push(`  Last failure: ${stats.lastFailure.url} at ${new Date(stats.lastFailure.at).toISOString()} - ${stats.lastFailure.message}`);
+                }
+            });
+        }
+
+        if (data.authentication.length > 0) {
+            report.push('\n=== Ingest Authentication ===\n');
+            data.authentication.forEach(stats => {
+                const lastFailure = stats.lastFailureAt ? `, last failure: ${new Date(stats.lastFailureAt).toISOString()}` : '';
+                report.push(`Channel: ${stats.channelId} - auth failures: ${stats.failures}, challenges: ${stats.challenges}${lastFailure}`);
+            });
+        }
+
+        if (data.payloadProblems.length > 0) {
+            report.push('\n=== Segment Payload Problems ===\n');
+            data.payloadProblems.forEach(problems => report.push(...this.formatPayloadProblems(problems)));
+        }
+
+        if (data.unreferencedUploads.length > 0) {
+            report.push('\n=== Unreferenced Uploads ===\n');
+            data.unreferencedUploads.forEach(({ channelId, uploads }) => {
+                report.push(`Channel: ${channelId} - ${uploads.length} segment(s) never referenced by a playlist`);
+                uploads.forEach(upload => {
+                    const pipeline = upload.redundantId ? ` (pipeline ${upload.redundantId})` : '';
+                    report.push(`  ${upload.uri}${pipeline} - ${this.formatBytes(upload.size)} uploaded at ${new Date(upload.receivedAt).toISOString()}`);
+                });
+            });
+        }
+
+        if (data.repeatedUploads.length > 0) {
+            report.push('\n=== Repeated Uploads ===\n');
+            data.repeatedUploads.forEach(uploads => report.push(...this.formatRepeatedUploads(uploads)));
+        }
+
+        if (data.inexactMatches.length > 0) {
+            report.push('\n=== Inexact Segment Matches ===\n');
+            data.inexactMatches.forEach(stream => {
+                report.push(`Channel: ${stream.channelId}${stream.redundantId ? ` (pipeline ${stream.redundantId})` : ''} - ${stream.m3u8Uri}: ${stream.totalMatches} inexact match(es)`);
+                if (stream.totalMatches > stream.matches.length) {
+                    report.push(`  ... ${stream.totalMatches - stream.matches.length} earlier match(es) omitted`);
+                }
+                stream.matches.forEach(match => {
+                    report.push(`  [${match.mode}] ${match.uploadedUri} -> ${match.matchedUri} at ${new Date(match.at).toISOString()}`);
+                });
+            });
+        }
+
+        if (data.violations.length > 0) {
+            report.push('\n=== HLS Conformance Violations ===\n');
+            data.violations.forEach(({ channelId, revisions, ruleCounts, violations }) => {
+                const counts = Object.entries(ruleCounts).map(([rule, count]) => `${rule}: ${count}`).join(', ');
+                report.push(`Channel: ${channelId} - ${revisions} invalid playlist revision(s) (${counts})`);
+                violations.forEach(violation => {
+                    const line = violation.lineNumber !== undefined ? ` line ${violation.lineNumber}` : '';
+                    report.push(`  [${violation.rule}] ${violation.m3u8Uri} revision ${violation.playlistRevision}${line}: ${violation.message}`);
+                });
+            });
+        }
+
+        if (data.ladders.length > 0) {
+            report.push('\n=== ABR Ladder ===\n');
+            data.ladders.forEach(ladder => report.push(...this.formatLadder(ladder)));
+        }
+
+        if (data.pipelineComparisons.length > 0) {
+            report.push('\n=== Redundant Pipeline Comparison ===\n');
+            data.pipelineComparisons.forEach(comparison => report.push(...this.formatPipelineComparison(comparison)));
+        }
+
         return report.join('\n');
     }
 
+    private formatLatencyPercentiles(percentiles: LatencyPercentiles): string[] {
+        const labels: Record<LatencyMetric, string> = {
+            transferDelay: 'Transfer delay',
+            arrivalInterval: 'Arrival interval',
+            m3u8UpdateInterval: 'M3U8 update interval'
+        };
+        const lines = ['Percentiles (p50/p90/p95/p99 ms):'];
+        (Object.keys(labels) as LatencyMetric[]).forEach(metric => {
+            const windows = Object.entries(percentiles[metric]).map(([window, value]) => value
+                ? `${window} ${[value.p50, value.p90, value.p95, value.p99].map(ms => ms.toFixed(0)).join('/')} (n=${value.count})`
+                : `${window} -`);
+            lines.push(`  ${labels[metric]}: ${windows.join(', ')}`);
+        });
+        return lines;
+    }
+
+    private formatRepeatedUploads(uploads: RepeatedUploads): string[] {
+        const lines = [
+            `Channel: ${uploads.channelId}${uploads.redundantId ? ` (pipeline ${uploads.redundantId})` : ''} - ${uploads.segments} segment(s) uploaded more than once: ${uploads.retries} retries (identical: ${uploads.identical}, replaced content: ${uploads.replaced})`
+        ];
+
+        uploads.histories.forEach(history => {
+            const marker = history.replaced > 0 ? ' CONTENT REPLACED' : '';
+            const sizes = Array.from(new Set(history.attempts.map(attempt => attempt.size))).map(size => this.formatBytes(size)).join(' -> ');
+            const last = history.attempts[history.attempts.length - 1];
+            lines.push(`  ${history.uri} - ${history.uploads} upload(s), identical: ${history.identical}, replaced: ${history.replaced} (${sizes}), last at ${new Date(last.receivedAt).toISOString()}${marker}`);
+        });
+        if (uploads.omitted > 0) {
+            lines.push(`  ... ${uploads.omitted} more`);
+        }
+        return lines;
+    }
+
+    private formatPayloadProblems(problems: StreamPayloadProblems): string[] {
+        const omitted = problems.problemSegments - problems.segments.length;
+        return [
+            `Channel: ${problems.channelId}${problems.redundantId ? ` (pipeline ${problems.redundantId})` : ''} - ${problems.m3u8Uri}: ${problems.problemSegments} segment(s) with payload problems`,
+            ...(omitted > 0 ? [`  ... ${omitted} earlier segment(s) omitted`] : []),
+            ...problems.segments.map(segment => `  ${segment.uri}: ${segment.problems.join('; ')}`)
+        ];
+    }
+
+    private formatLadder(ladder: LadderSummary): string[] {
+        const maxListedSequences = 10;
+        const lines = [
+            `Channel: ${ladder.channelId}`,
+            ...(ladder.redundantId ? [`Pipeline: ${ladder.redundantId}`] : []),
+            `Master playlist: ${ladder.m3u8Uri}`,
+            `Renditions: ${ladder.renditions.length - ladder.missingRenditions.length}/${ladder.renditions.length} uploaded`
+        ];
+
+        ladder.renditions.forEach(rendition => {
+            const details = [
+                rendition.resolution ? `${rendition.resolution.width}x${rendition.resolution.height}` : undefined,
+                rendition.bandwidth !== undefined ? this.formatBitrate(rendition.bandwidth) : undefined,
+                rendition.groupId ? `group ${rendition.groupId}` : undefined,
+                rendition.name,
+                rendition.language
+            ].filter(detail => detail !== undefined).join(', ');
+            const status = rendition.uploaded
+                ? `${rendition.receivedSegments}/${rendition.totalSegments} segments received`
+                : 'DECLARED BUT NEVER UPLOADED';
+            lines.push(`  [${rendition.kind}] ${rendition.uri}${details ? ` (${details})` : ''}: ${status}`);
+        });
+
+        const { alignment } = ladder;
+        if (alignment.comparedSequences > 0) {
+            lines.push(
+                `Cross-rendition alignment: ${alignment.alignedSequences}/${alignment.comparedSequences} aligned (media sequences ${alignment.overlapStart}-${alignment.overlapEnd}, ${ladder.comparedRenditions.length} renditions)`,
+                `Misaligned segments: ${alignment.misalignedSequences.length}${alignment.misalignedSequences.length > 0 ? ` (sequences: ${alignment.misalignedSequences.slice(0, maxListedSequences).join(', ')})` : ''}`
+            );
+        } else if (ladder.comparedRenditions.length >= 2) {
+            lines.push('Cross-rendition alignment: no overlapping media sequences between renditions');
+        }
+
+        lines.push('---');
+        return lines;
+    }
+
+    private formatPipelineComparison(comparison: PipelineComparison): string[] {
+        const maxListedGaps = 10;
+        const lines = [
+            `Channel: ${comparison.channelId}`,
+            `Playlist: ${comparison.playlist}`,
+            `Pipelines: ${comparison.pipelines.join(', ')}`
+        ];
+
+        if (comparison.comparedSequences === 0) {
+            lines.push('No overlapping media sequences between pipelines', '---');
+            return lines;
+        }
+
+        const firstDeliveries = comparison.pipelines
+            .map(pipeline => `${pipeline}=${comparison.firstDeliveries[pipeline]}`)
+            .join(', ');
+
+        lines.push(
+            `Compared media sequences: ${comparison.overlapStart}-${comparison.overlapEnd} (${comparison.comparedSequences})`,
+            `Aligned segments: ${comparison.alignedSequences}/${comparison.comparedSequences}`,
+            `Misaligned segments: ${comparison.misalignedSequences.length}${comparison.misalignedSequences.length > 0 ? ` (sequences: ${comparison.misalignedSequences.slice(0, maxListedGaps).join(', ')})` : ''}`,
+            `First delivered by: ${firstDeliveries}`,
+            `Avg pipeline lead: ${comparison.avgLeadMs.toFixed(2)} ms`,
+            `Max pipeline lead: ${comparison.maxLeadMs.toFixed(2)} ms`,
+            `Single-pipeline gaps: ${comparison.gaps.length}`
+        );
+
+        comparison.gaps.slice(0, maxListedGaps).forEach(gap => {
+            lines.push(`  Sequence ${gap.mediaSequence}: delivered by ${gap.deliveredBy.join(', ')}, missing from ${gap.missingFrom.join(', ')}`);
+        });
+        if (comparison.gaps.length > maxListedGaps) {
+            lines.push(`  ... ${comparison.gaps.length - maxListedGaps} more`);
+        }
+
+        lines.push('---');
+        return lines;
+    }
+
     public saveReport(filename: string = 'performance_report.txt'): void {
         try {
             const report = this.generateReport();
@@ -0,0 +1,308 @@
+import { M3u8TrackingInfo, RunningStats, SegmentInfo, SegmentState, SegmentTotals, TsInspection } from '../types';
+import { getDurationMismatch } from './tsInspector';
+
+export type SegmentStateCounts = Record<SegmentState, number>;
+
+export interface SegmentArrival {
+    receivedAt: number;
+    size: number;
+    uploadDurationMs?: number;
+    payload?: TsInspection;
+}
+
+const MAX_ARRIVAL_INTERVALS = 20;
+
+// 스트림당 원장 항목 상한 기본값 - 넘으면 윈도우에서 빠진 오래된 항목부터 compactedSegments로 합침
+export const DEFAULT_MAX_LEDGER_ENTRIES = 10000;
+
+// 지연 시간 히스토그램 버킷 상한 (ms) - 압축된 항목도 Prometheus 히스토그램에 계속 반영되도록 합계에 버킷별 개수를 유지
+export const LATENCY_BUCKETS_MS = [50, 100, 250, 500, 1000, 2500, 5000, 10000, 30000];
+
+export function createSegmentTotals(): SegmentTotals {
+    const stats = (): RunningStats => ({ count: 0, sum: 0 });
+    const histogram = (): RunningStats => ({ count: 0, sum: 0, buckets: LATENCY_BUCKETS_MS.map(() => 0) });
+    return {
+        segments: 0,
+        states: { announced: 0, received: 0, late: 0, missing: 0, expired: 0 },
+        received: 0,
+        missed: 0,
+        bytes: 0,
+        transferDelay: histogram(),
+        preAnnounceLead: stats(),
+        lateness: stats(),
+        uploadDuration: histogram(),
+        arrivalInterval: histogram(),
+        inspected: 0,
+        payloadProblems: 0,
+        durationMismatch: stats()
+    };
+}
+
+function addSample(stats: RunningStats, value: number): void {
+    stats.count++;
+    stats.sum += value;
+    stats.min = stats.min === undefined ? value : Math.min(stats.min, value);
+    stats.max = stats.max === undefined ? value : Math.max(stats.max, value);
+    stats.buckets?.forEach((count, index) => {
+        if (value <= LATENCY_BUCKETS_MS[index]) {
+            stats.buckets![index]++;
+        }
+    });
+}
+
+function mergeStats(target: RunningStats, source: RunningStats): void {
+    target.count += source.count;
+    target.sum += source.sum;
+    if (source.min !== undefined) {
+        target.min = target.min === undefined ? source.min : Math.min(target.min, source.min);
+    }
+    if (source.max !== undefined) {
+        target.max = target.max === undefined ? source.max : Math.max(target.max, source.max);
+    }
+    if (target.buckets && source.buckets) {
+        source.buckets.forEach((count, index) => {
+            target.buckets![index] += count;
+        });
+    }
+}
+
+export function averageOf(stats: RunningStats): number {
+    return stats.count > 0 ? stats.sum / stats.count : 0;
+}
+
+// 미디어 세그먼트 하나를 합계에 반영 (초기화 세그먼트는 호출하는 쪽에서 제외)
+export function addToSegmentTotals(totals: SegmentTotals, segment: SegmentInfo): void {
+    totals.segments++;
+    if (segment.state) {
+        totals.states[segment.state]++;
+    }
+    if (segment.state === 'late' && segment.lateByMs !== undefined) {
+        addSample(totals.lateness, segment.lateByMs);
+    }
+    if (wasSegmentMissed(segment)) {
+        totals.missed++;
+    }
+    if (!segment.received) {
+        return;
+    }
+
+    totals.received++;
+    totals.bytes += segment.size || 0;
+    if (segment.receivedAt !== undefined) {
+        totals.firstReceivedAt = Math.min(totals.firstReceivedAt ?? segment.receivedAt, segment.receivedAt);
+        totals.lastReceivedAt = Math.max(totals.lastReceivedAt ?? segment.receivedAt, segment.receivedAt);
+        // 플레이리스트보다 먼저 도착한 세그먼트는 전송 지연 대신 선행 시간으로 별도 집계
+        if (segment.firstSeenAt !== undefined) {
+            addSample(segment.preAnnounced ? totals.preAnnounceLead : totals.transferDelay,
+                segment.preAnnounced ? segment.firstSeenAt - segment.receivedAt : segment.receivedAt - segment.firstSeenAt);
+        }
+    }
+    if (segment.uploadDurationMs !== undefined) {
+        addSample(totals.uploadDuration, segment.uploadDurationMs);
+    }
+    if (segment.arrivalIntervalMs !== undefined) {
+        addSample(totals.arrivalInterval, segment.arrivalIntervalMs);
+    }
+    if (segment.payload) {
+        totals.inspected++;
+        if (segment.payload.problems.length > 0) {
+            totals.payloadProblems++;
+        }
+        const mismatch = getDurationMismatch(segment);
+        if (mismatch !== undefined) {
+            addSample(totals.durationMismatch, Math.abs(mismatch));
+        }
+    }
+}
+
+export function mergeSegmentTotals(target: SegmentTotals, source: SegmentTotals): void {
+    target.segments += source.segments;
+    (Object.keys(target.states) as SegmentState[]).forEach(state => {
+        target.states[state] += source.states[state];
+    });
+    target.received += source.received;
+    target.missed += source.missed;
+    target.bytes += source.bytes;
+    if (source.firstReceivedAt !== undefined) {
+        target.firstReceivedAt = Math.min(target.firstReceivedAt ?? source.firstReceivedAt, source.firstReceivedAt);
+    }
+    if (source.lastReceivedAt !== undefined) {
+        target.lastReceivedAt = Math.max(target.lastReceivedAt ?? source.lastReceivedAt, source.lastReceivedAt);
+    }
+    mergeStats(target.transferDelay, source.transferDelay);
+    mergeStats(target.preAnnounceLead, source.preAnnounceLead);
+    mergeStats(target.lateness, source.lateness);
+    mergeStats(target.uploadDuration, source.uploadDuration);
+    mergeStats(target.arrivalInterval, source.arrivalInterval);
+    target.inspected += source.inspected;
+    target.payloadProblems += source.payloadProblems;
+    mergeStats(target.durationMismatch, source.durationMismatch);
+}
+
+// 세션 전체 미디어 세그먼트 합계: 원장과 윈도우에 남은 항목 + 압축된 항목
+export function getSessionTotals(trackingInfo: M3u8TrackingInfo): SegmentTotals {
+    const totals = createSegmentTotals();
+    for (const segment of getSessionSegments(trackingInfo)) {
+        if (segment.kind !== 'init') {
+            addToSegmentTotals(totals, segment);
+        }
+    }
+    if (trackingInfo.compactedSegments) {
+        mergeSegmentTotals(totals, trackingInfo.compactedSegments);
+    }
+    return totals;
+}
+
+// 원장에서 항목을 빼고 합계로 옮김 (URI 색인이 같은 항목을 가리킬 때만 색인에서도 제거)
+function retireLedgerEntry(trackingInfo: M3u8TrackingInfo, mediaSequence: number, segment: SegmentInfo): void {
+    trackingInfo.ledger.delete(mediaSequence);
+    if (trackingInfo.ledgerIndex.get(segment.uri) === segment) {
+        trackingInfo.ledgerIndex.delete(segment.uri);
+    }
+    trackingInfo.compactedSegments = trackingInfo.compactedSegments || createSegmentTotals();
+    addToSegmentTotals(trackingInfo.compactedSegments, segment);
+}
+
+// 원장이 상한을 넘으면 윈도우에서 빠진 가장 오래된(먼저 기록된) 항목부터 합계로 압축
+export function compactLedger(trackingInfo: M3u8TrackingInfo, maxEntries: number): number {
+    let compacted = 0;
+    for (const [mediaSequence, segment] of trackingInfo.ledger.entries()) {
+        if (trackingInfo.ledger.size <= maxEntries || segment.expiredAt === undefined) {
+            break;
+        }
+        retireLedgerEntry(trackingInfo, mediaSequence, segment);
+        compacted++;
+    }
+    return compacted;
+}
+
+// 새 플레이리스트 윈도우를 원장에 반영 - 윈도우 세그먼트는 원장 항목과 같은 객체를 공유
+// 이전 윈도우에서 빠진 세그먼트는 expiredAt을 기록하고, 수신되지 않았다면 expired로 전환
+// (원장 전체가 아닌 이전 윈도우만 확인하며, 미디어 시퀀스가 재시작되어 더 큰 시퀀스가 남은 경우도 윈도우에서 빠진 것으로 처리)
+export function updateLedger(
+    trackingInfo: M3u8TrackingInfo,
+    previousWindow: Map<string, SegmentInfo> | undefined,
+    now: number,
+    maxEntries = DEFAULT_MAX_LEDGER_ENTRIES
+): SegmentInfo[] {
+    const windowSegments = Array.from(trackingInfo.segments.values())
+        .filter(segment => segment.kind !== 'init' && segment.mediaSequence !== undefined);
+    const inWindow = new Set(windowSegments);
+
+    const expired: SegmentInfo[] = [];
+    for (const segment of previousWindow?.values() || []) {
+        if (inWindow.has(segment) || segment.expiredAt !== undefined || segment.kind === 'init' || segment.mediaSequence === undefined) {
+            continue;
+        }
+        segment.expiredAt = now;
+        if (!segment.received) {
+            segment.state = 'expired';
+            expired.push(segment);
+        }
+    }
+
+    for (const segment of windowSegments) {
+        // 재시작된 시퀀스가 이전 세션의 다른 세그먼트와 겹치면 이전 항목은 합계로 옮김
+        const replaced = trackingInfo.ledger.get(segment.mediaSequence!);
+        if (replaced && replaced !== segment) {
+            retireLedgerEntry(trackingInfo, segment.mediaSequence!, replaced);
+        }
+        trackingInfo.ledger.set(segment.mediaSequence!, segment);
+        trackingInfo.ledgerIndex.set(segment.uri, segment);
+        segment.state = segment.state ?? 'announced';
+    }
+
+    compactLedger(trackingInfo, maxEntries);
+    return expired;
+}
+
+// 마감 시각 이후 또는 윈도우에서 빠진 뒤 도착한 세그먼트는 late (마감 시각 대비 지연 시간 기록)
+export function markSegmentReceived(segment: SegmentInfo, now: number): SegmentState {
+    const pastDeadline = segment.deadlineAt !== undefined && now > segment.deadlineAt;
+    if (segment.state === 'missing' || segment.state === 'expired' || pastDeadline) {
+        segment.state = 'late';
+        segment.lateByMs = segment.deadlineAt !== undefined ? Math.max(0, now - segment.deadlineAt) : undefined;
+    } else {
+        segment.state = 'received';
+    }
+    return segment.state;
+}
+
+// 세그먼트 수신 기록 - 수신 상태, 연속 타임아웃 초기화, 도착 간격(지터 계산용) 갱신
+// 플레이리스트보다 먼저 도착해 나중에 매칭된 세그먼트도 실제 도착 시각 기준으로 집계
+export function recordSegmentArrival(trackingInfo: M3u8TrackingInfo, segment: SegmentInfo, arrival: SegmentArrival): SegmentState {
+    segment.received = true;
+    segment.receivedAt = arrival.receivedAt;
+    segment.size = arrival.size;
+    segment.uploadDurationMs = arrival.uploadDurationMs;
+    segment.payload = arrival.payload;
+    const state = markSegmentReceived(segment, arrival.receivedAt);
+
+    trackingInfo.successiveTimeouts = 0;
+    if (segment.kind !== 'init') {
+        trackingInfo.firstSegmentReceivedAt = Math.min(trackingInfo.firstSegmentReceivedAt ?? arrival.receivedAt, arrival.receivedAt);
+        trackingInfo.lastSegmentReceivedAt = Math.max(trackingInfo.lastSegmentReceivedAt ?? arrival.receivedAt, arrival.receivedAt);
+    }
+
+    const previousTime = trackingInfo.lastSegmentReceivedTime;
+    if (previousTime > 0 && arrival.receivedAt >= previousTime) {
+        segment.arrivalIntervalMs = arrival.receivedAt - previousTime;
+        trackingInfo.segmentArrivalIntervals.push(segment.arrivalIntervalMs);
+        if (trackingInfo.segmentArrivalIntervals.length > MAX_ARRIVAL_INTERVALS) {
+            trackingInfo.segmentArrivalIntervals.shift();
+        }
+    }
+    trackingInfo.lastSegmentReceivedTime = Math.max(previousTime, arrival.receivedAt);
+
+    return state;
+}
+
+// 윈도우에 남아 있는 미수신 세그먼트를 missing으로 전환 (이미 전환된 경우 false)
+export function markSegmentMissing(segment: SegmentInfo): boolean {
+    if (segment.received || segment.state === 'missing' || segment.state === 'expired') {
+        return false;
+    }
+    segment.state = 'missing';
+    segment.timeoutOccurred = true;
+    return true;
+}
+
+// 마감 시각을 넘겼거나 수신 전에 윈도우에서 빠진 세그먼트 (나중에 늦게 도착해도 유지되므로 누적 누락 수에 사용)
+export function wasSegmentMissed(segment: SegmentInfo): boolean {
+    if (segment.timeoutOccurred || segment.state === 'missing' || segment.state === 'expired') {
+        return true;
+    }
+    return segment.expiredAt !== undefined && (!segment.received || (segment.receivedAt !== undefined && segment.receivedAt > segment.expiredAt));
+}
+
+// 현재 윈도우에서 먼저 찾고, 없으면 원장의 URI 색인에서 찾음 (압축된 항목은 찾을 수 없음)
+export function findSessionSegment(trackingInfo: M3u8TrackingInfo, uri: string): SegmentInfo | undefined {
+    return trackingInfo.segments.get(uri) || trackingInfo.ledgerIndex.get(uri);
+}
+
+// 원장 항목의 URI 색인 생성 (저장된 상태 복원, 테스트용 트래커)
+export function buildLedgerIndex(ledger: Map<number, SegmentInfo>): Map<string, SegmentInfo> {
+    return new Map(Array.from(ledger.values()).map(segment => [segment.uri, segment]));
+}
+
+// 세션 전체 세그먼트: 원장 + 원장에 없는 윈도우 항목 (초기화 세그먼트, 플레이리스트에 없던 업로드)
+export function getSessionSegments(trackingInfo: M3u8TrackingInfo): SegmentInfo[] {
+    const segments = Array.from(trackingInfo.ledger.values());
+    const inLedger = new Set(segments);
+    for (const segment of trackingInfo.segments.values()) {
+        if (!inLedger.has(segment)) {
+            segments.push(segment);
+        }
+    }
+    return segments;
+}
+
+export function countSegmentStates(segments: SegmentInfo[]): SegmentStateCounts {
+    const counts: SegmentStateCounts = { announced: 0, received: 0, late: 0, missing: 0, expired: 0 };
+    for (const segment of segments) {
+        if (segment.state) {
+            counts[segment.state]++;
+        }
+    }
+    return counts;
+}
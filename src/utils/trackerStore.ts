@@ -0,0 +1,181 @@
+import fs from 'fs';
+import path from 'path';
+import { Logger } from 'winston';
+import logger from './logger';
+import { M3u8TrackingInfo, MasterPlaylistInfo, SegmentInfo } from '../types';
+import { buildLedgerIndex, getSessionSegments } from './segmentLedger';
+
+export const STATE_DIR = '.state';
+const STATE_FILENAME = 'tracker-state.json';
+const STATE_VERSION = 1;
+
+// 윈도우(segments)와 원장(ledger)은 같은 세그먼트 객체를 공유하므로 세그먼트는 한 번만 저장하고 인덱스로 참조
+// 원장의 URI 색인은 저장하지 않고 복원할 때 다시 만듦 (압축된 항목은 compactedSegments 합계로만 저장)
+interface SerializedTracker extends Omit<M3u8TrackingInfo, 'segments' | 'ledger' | 'ledgerIndex' | 'timeoutId' | 'nextDeadlineAt'> {
+    key: string;
+    segments: SegmentInfo[];
+    window: Array<[string, number]>;    // URI -> index into segments
+    ledger: Array<[number, number]>;    // Media sequence -> index into segments
+}
+
+interface TrackerState {
+    version: number;
+    savedAt: number;
+    streams: SerializedTracker[];
+    masters: Array<[string, MasterPlaylistInfo]>;
+}
+
+// 트래커 상태를 스토리지 디렉토리에 주기적으로 저장하고 서버 시작 시 복원
+// 타이머(timeoutId)는 저장하지 않으며, 복원 후 M3u8Handler가 마감 시각 기준으로 다시 예약
+export class TrackerStore {
+    private streamTracker: Map<string, M3u8TrackingInfo>;
+    private masterTracker: Map<string, MasterPlaylistInfo>;
+    private statePath: string;
+    private isEnabled: boolean;
+    private saveIntervalMs: number;
+    private intervalId: NodeJS.Timeout | null = null;
+    private logger: Logger;
+
+    constructor(
+        mockStoragePath: string,
+        streamTracker: Map<string, M3u8TrackingInfo>,
+        masterTracker: Map<string, MasterPlaylistInfo>,
+        options: {
+            isEnabled?: boolean;
+            saveIntervalMs?: number;
+            loggerInstance?: Logger;
+        } = {}
+    ) {
+        this.streamTracker = streamTracker;
+        this.masterTracker = masterTracker;
+        this.statePath = path.join(mockStoragePath, STATE_DIR, STATE_FILENAME);
+        this.isEnabled = options.isEnabled ?? false;
+        this.saveIntervalMs = options.saveIntervalMs ?? 30000;
+        this.logger = options.loggerInstance || logger;
+    }
+
+    public start(): void {
+        if (!this.isEnabled) {
+            this.logger.info('Tracker state persistence is disabled');
+            return;
+        }
+        this.intervalId = setInterval(() => this.save(), this.saveIntervalMs);
+        this.logger.info(`Saving tracker state to ${this.statePath} every ${this.saveIntervalMs / 1000} seconds`);
+    }
+
+    // 주기 저장 중지 후 마지막으로 한 번 저장 (SIGTERM/SIGINT)
+    public stop(): void {
+        if (this.intervalId) {
+            clearInterval(this.intervalId);
+            this.intervalId = null;
+        }
+        if (this.isEnabled) {
+            this.save();
+        }
+    }
+
+    public save(): boolean {
+        const state: TrackerState = {
+            version: STATE_VERSION,
+            savedAt: Date.now(),
+            streams: Array.from(this.streamTracker.entries()).map(([key, trackingInfo]) => this.serializeTracker(key, trackingInfo)),
+            masters: Array.from(this.masterTracker.entries())
+        };
+
+        // 임시 파일에 쓴 뒤 rename - 저장 도중 종료되어도 이전 상태 파일 유지
+        const tempPath = `${this.statePath}.tmp`;
+        try {
+            fs.mkdirSync(path.dirname(this.statePath), { recursive: true });
+            fs.writeFileSync(tempPath, JSON.stringify(state));
+            fs.renameSync(tempPath, this.statePath);
+            this.logger.debug(`Saved tracker state for ${state.streams.length} stream(s) to ${this.statePath}`);
+            return true;
+        } catch (error) {
+            this.logger.error(`Failed to save tracker state to ${this.statePath}`, error);
+            return false;
+        }
+    }
+
+    // 저장된 상태를 트래커에 복원하고 복원한 미디어 플레이리스트 수 반환
+    public restore(): number {
+        if (!this.isEnabled || !fs.existsSync(this.statePath)) {
+            return 0;
+        }
+
+        let state: TrackerState;
+        try {
+            state = JSON.parse(fs.readFileSync(this.statePath, 'utf-8'));
+        } catch (error) {
+            this.logger.error(`Failed to read tracker state from ${this.statePath}, starting with empty trackers`, error);
+            return 0;
+        }
+        if (state.version !== STATE_VERSION) {
+            this.logger.warn(`Ignoring tracker state ${this.statePath} with unsupported version ${state.version}`);
+            return 0;
+        }
+
+        for (const serialized of state.streams) {
+            this.streamTracker.set(serialized.key, this.deserializeTracker(serialized));
+        }
+        for (const [key, masterInfo] of state.masters) {
+            this.masterTracker.set(key, masterInfo);
+        }
+
+        this.logger.info(`Restored tracker state for ${state.streams.length} stream(s) and ${state.masters.length} master playlist(s) saved at ${new Date(state.savedAt).toISOString()}`);
+        return state.streams.length;
+    }
+
+    // 채널(또는 전체) 트래커 초기화 - 예약된 마감 시각 검사도 취소하고 초기화한 키 반환
+    public reset(channelId?: string): string[] {
+        const removed: string[] = [];
+        for (const [key, trackingInfo] of Array.from(this.streamTracker.entries())) {
+            if (channelId !== undefined && trackingInfo.channelId !== channelId) {
+                continue;
+            }
+            if (trackingInfo.timeoutId) {
+                clearTimeout(trackingInfo.timeoutId);
+            }
+            this.streamTracker.delete(key);
+            removed.push(key);
+        }
+        for (const [key, masterInfo] of Array.from(this.masterTracker.entries())) {
+            if (channelId === undefined || masterInfo.channelId === channelId) {
+                this.masterTracker.delete(key);
+                removed.push(key);
+            }
+        }
+
+        this.logger.info(`Reset tracker state for ${channelId ? `channel ${channelId}` : 'all channels'} (${removed.length} playlist(s))`);
+        if (this.isEnabled) {
+            this.save();
+        }
+        return removed;
+    }
+
+    private serializeTracker(key: string, trackingInfo: M3u8TrackingInfo): SerializedTracker {
+        const { segments: window, ledger, ledgerIndex, timeoutId, nextDeadlineAt, ...fields } = trackingInfo;
+        const segments = Array.from(new Set(getSessionSegments(trackingInfo)));
+        const indexes = new Map(segments.map((segment, index) => [segment, index]));
+        return {
+            ...fields,
+            key,
+            segments,
+            window: Array.from(window.entries()).map(([uri, segment]) => [uri, indexes.get(segment)!]),
+            ledger: Array.from(ledger.entries()).map(([mediaSequence, segment]) => [mediaSequence, indexes.get(segment)!])
+        };
+    }
+
+    private deserializeTracker(serialized: SerializedTracker): M3u8TrackingInfo {
+        const { key, segments, window, ledger, ...fields } = serialized;
+        const restoredLedger = new Map(ledger.map(([mediaSequence, index]) => [mediaSequence, segments[index]]));
+        return {
+            ...fields,
+            // 매칭 횟수가 없는 이전 상태 파일은 남아 있는 매칭 기록으로 계산
+            sequenceMatches: fields.sequenceMatches ?? fields.inexactMatches.filter(match => match.mode === 'sequence').length,
+            fuzzyMatches: fields.fuzzyMatches ?? fields.inexactMatches.filter(match => match.mode === 'fuzzy').length,
+            segments: new Map(window.map(([uri, index]) => [uri, segments[index]])),
+            ledger: restoredLedger,
+            ledgerIndex: buildLedgerIndex(restoredLedger)
+        };
+    }
+}
@@ -0,0 +1,324 @@
+// MPEG-TS (ISO/IEC 13818-1) 세그먼트 페이로드 검사
+// 패킷 동기, 시작 부분의 PAT/PMT, PID별 continuity counter, PCR/PTS 범위, 첫 비디오 프레임의 키프레임 여부
+import { SegmentInfo, TsInspection, TsTimeRange, TsVideoCodec } from '../types';
+
+// 페이로드의 실제 길이와 #EXTINF 비교 허용 오차 (초) - PTS 기반 길이는 마지막 프레임 간격을 추정하므로 약간의 여유
+export const DURATION_MISMATCH_TOLERANCE = 0.2;
+
+const PACKET_SIZE = 188;
+const SYNC_BYTE = 0x47;
+const NULL_PID = 0x1fff;
+const PTS_CLOCK = 90000;
+const PTS_WRAP = 2 ** 33;
+
+// 키프레임 판별을 위해 첫 비디오 PES에서 수집하는 최대 바이트 수
+const KEYFRAME_SCAN_BYTES = 4096;
+
+const VIDEO_STREAM_TYPES: Record<number, TsVideoCodec> = {
+    0x01: 'mpeg2',
+    0x02: 'mpeg2',
+    0x1b: 'h264',
+    0x24: 'hevc'
+};
+
+// 33비트 타임스탬프 (PTS/PCR base) - 32비트 비트 연산 오버플로를 피하기 위해 곱셈 사용
+function readTimestamp(data: Buffer, offset: number): number {
+    return ((data[offset] >> 1) & 0x07) * 2 ** 30
+        + data[offset + 1] * 2 ** 22
+        + (data[offset + 2] >> 1) * 2 ** 15
+        + data[offset + 3] * 2 ** 7
+        + (data[offset + 4] >> 1);
+}
+
+function readPcrBase(data: Buffer, offset: number): number {
+    return data[offset] * 2 ** 25
+        + data[offset + 1] * 2 ** 17
+        + data[offset + 2] * 2 ** 9
+        + data[offset + 3] * 2
+        + (data[offset + 4] >> 7);
+}
+
+function toRange(values: number[]): TsTimeRange | undefined {
+    if (values.length === 0) {
+        return undefined;
+    }
+    const first = values[0];
+    // 33비트 랩어라운드 보정
+    const unwrapped = values.map(value => value < first - PTS_WRAP / 2 ? value + PTS_WRAP : value);
+    const min = Math.min(...unwrapped);
+    const max = Math.max(...unwrapped);
+    return { first: min, last: max, seconds: (max - min) / PTS_CLOCK };
+}
+
+// 가장 흔한 프레임 간격 (PTS 정렬 후 인접 차이의 최빈값)
+function getFrameInterval(values: number[]): number {
+    const sorted = [...values].sort((a, b) => a - b);
+    const counts = new Map<number, number>();
+    for (let i = 1; i < sorted.length; i++) {
+        const delta = sorted[i] - sorted[i - 1];
+        if (delta > 0) {
+            counts.set(delta, (counts.get(delta) || 0) + 1);
+        }
+    }
+    let interval = 0;
+    let best = 0;
+    for (const [delta, count] of counts.entries()) {
+        if (count > best) {
+            interval = delta;
+            best = count;
+        }
+    }
+    return interval;
+}
+
+// Annex B 바이트 스트림의 첫 VCL NAL 유닛이 IDR(H.264) / IRAP(HEVC)인지 확인
+function isKeyframe(codec: TsVideoCodec, data: Buffer): boolean | undefined {
+    for (let i = 0; i + 3 < data.length; i++) {
+        if (data[i] !== 0 || data[i + 1] !== 0 || data[i + 2] !== 1) {
+            continue;
+        }
+        const header = data[i + 3];
+        if (codec === 'h264') {
+            const nalType = header & 0x1f;
+            if (nalType >= 1 && nalType <= 5) {
+                return nalType === 5;
+            }
+        } else if (codec === 'hevc') {
+            const nalType = (header >> 1) & 0x3f;
+            if (nalType <= 31) {
+                return nalType >= 16 && nalType <= 21;
+            }
+        } else {
+            // MPEG-2: 첫 picture_start_code(0x00)의 picture_coding_type == 1 (I-frame)
+            if (header === 0x00 && i + 5 < data.length) {
+                return ((data[i + 5] >> 3) & 0x07) === 1;
+            }
+        }
+        i += 2;
+    }
+    return undefined;
+}
+
+// 188바이트 패킷 단위 증분 검사기 - 업로드 스트림의 청크를 순서대로 push하고 마지막에 finish
+// 청크 경계에 걸친 패킷은 다음 청크와 합쳐 검사하므로 세그먼트 전체를 메모리에 올리지 않음
+export class TransportStreamInspector {
+    private remainder: Buffer = Buffer.alloc(0);
+    private packets = 0;
+    private continuityErrors: Record<number, number> = {};
+    private lastContinuity = new Map<number, number>();
+    private pmtPids = new Set<number>();
+    private streamTypes = new Map<number, number>();   // elementary PID -> stream_type
+    private ptsByPid = new Map<number, number[]>();
+    private pcrValues: number[] = [];
+
+    private syncErrors = 0;
+    private startsWithPat = false;
+    private pmtSeen = false;
+    private pmtBeforeMedia = false;
+    private mediaSeen = false;
+    private videoPid: number | undefined;
+    private keyframeScan: Buffer[] | undefined;
+    private keyframeScanBytes = 0;
+    private keyframeScanDone = false;
+
+    public push(chunk: Buffer): void {
+        const data = this.remainder.length > 0 ? Buffer.concat([this.remainder, chunk]) : chunk;
+        const complete = Math.floor(data.length / PACKET_SIZE);
+        for (let index = 0; index < complete; index++) {
+            this.inspectPacket(data.subarray(index * PACKET_SIZE, (index + 1) * PACKET_SIZE));
+        }
+        // 남은 바이트는 복사해서 보관 (청크 전체가 메모리에 남지 않도록)
+        this.remainder = Buffer.from(data.subarray(complete * PACKET_SIZE));
+    }
+
+    public finish(): TsInspection {
+        const packets = this.packets;
+        const trailingBytes = this.remainder.length;
+        const videoPid = this.videoPid;
+        const videoCodec = videoPid !== undefined ? VIDEO_STREAM_TYPES[this.streamTypes.get(videoPid)!] : undefined;
+        const startsWithKeyframe = videoCodec && this.keyframeScan
+            ? isKeyframe(videoCodec, Buffer.concat(this.keyframeScan)) ?? false
+            : undefined;
+
+        const ptsValues = (videoPid !== undefined ? this.ptsByPid.get(videoPid) : undefined)
+            || Array.from(this.ptsByPid.values())[0]
+            || [];
+        const pts = toRange(ptsValues);
+        const durationSeconds = pts ? pts.seconds + getFrameInterval(ptsValues) / PTS_CLOCK : undefined;
+
+        const problems: string[] = [];
+        if (packets === 0) {
+            problems.push('no complete 188-byte packets');
+        }
+        if (this.syncErrors > 0) {
+            problems.push(`${this.syncErrors} packet(s) without sync byte`);
+        }
+        if (trailingBytes > 0) {
+            problems.push(`${trailingBytes} trailing byte(s) after the last packet`);
+        }
+        if (packets > 0 && !this.startsWithPat) {
+            problems.push('segment does not start with a PAT');
+        }
+        if (this.mediaSeen && !this.pmtBeforeMedia) {
+            problems.push('no PMT before the first PES packet');
+        }
+        for (const [pid, count] of Object.entries(this.continuityErrors)) {
+            problems.push(`${count} continuity counter error(s) on PID ${pid}`);
+        }
+        if (this.mediaSeen && !pts) {
+            problems.push('no PTS found');
+        }
+        if (startsWithKeyframe === false) {
+            problems.push('segment does not start with a keyframe');
+        }
+
+        return {
+            packets,
+            syncErrors: this.syncErrors,
+            trailingBytes,
+            startsWithPat: this.startsWithPat,
+            pmtBeforeMedia: this.pmtBeforeMedia,
+            continuityErrors: this.continuityErrors,
+            pcr: toRange(this.pcrValues),
+            pts,
+            durationSeconds,
+            videoCodec,
+            startsWithKeyframe,
+            problems
+        };
+    }
+
+    private inspectPacket(data: Buffer): void {
+        const index = this.packets++;
+        if (data[0] !== SYNC_BYTE) {
+            this.syncErrors++;
+            return;
+        }
+
+        const payloadUnitStart = (data[1] & 0x40) !== 0;
+        const pid = ((data[1] & 0x1f) << 8) | data[2];
+        const adaptationControl = (data[3] >> 4) & 0x03;
+        const continuity = data[3] & 0x0f;
+        const hasPayload = (adaptationControl & 0x01) !== 0;
+
+        if (index === 0) {
+            this.startsWithPat = pid === 0;
+        }
+        if (pid === NULL_PID) {
+            return;
+        }
+
+        let payloadOffset = 4;
+        let discontinuity = false;
+        if (adaptationControl & 0x02) {
+            const adaptationLength = data[4];
+            payloadOffset += 1 + adaptationLength;
+            if (adaptationLength > 0) {
+                const flags = data[5];
+                discontinuity = (flags & 0x80) !== 0;
+                if ((flags & 0x10) && adaptationLength >= 7) {
+                    this.pcrValues.push(readPcrBase(data, 6));
+                }
+            }
+        }
+
+        // continuity counter: 페이로드가 있으면 1씩 증가, 중복 패킷 1개 허용, discontinuity_indicator 이후 재설정
+        const previous = this.lastContinuity.get(pid);
+        if (previous !== undefined && !discontinuity) {
+            const expected = hasPayload ? (previous + 1) & 0x0f : previous;
+            if (continuity !== expected && !(hasPayload && continuity === previous)) {
+                this.continuityErrors[pid] = (this.continuityErrors[pid] || 0) + 1;
+            }
+        }
+        this.lastContinuity.set(pid, continuity);
+
+        if (!hasPayload || payloadOffset >= PACKET_SIZE) {
+            return;
+        }
+        const payload = data.subarray(payloadOffset, PACKET_SIZE);
+
+        // PAT: program_number -> PMT PID
+        if (pid === 0 && payloadUnitStart) {
+            const section = payload.subarray(1 + payload[0]);
+            if (section[0] === 0x00) {
+                const sectionEnd = Math.min(section.length, 3 + (((section[1] & 0x0f) << 8) | section[2]) - 4);
+                for (let i = 8; i + 4 <= sectionEnd; i += 4) {
+                    const programNumber = (section[i] << 8) | section[i + 1];
+                    if (programNumber !== 0) {
+                        this.pmtPids.add(((section[i + 2] & 0x1f) << 8) | section[i + 3]);
+                    }
+                }
+            }
+            return;
+        }
+
+        // PMT: elementary PID -> stream_type
+        if (this.pmtPids.has(pid) && payloadUnitStart) {
+            const section = payload.subarray(1 + payload[0]);
+            if (section[0] === 0x02) {
+                this.pmtSeen = true;
+                const sectionEnd = Math.min(section.length, 3 + (((section[1] & 0x0f) << 8) | section[2]) - 4);
+                let i = 12 + (((section[10] & 0x0f) << 8) | section[11]);
+                while (i + 5 <= sectionEnd) {
+                    const streamType = section[i];
+                    const elementaryPid = ((section[i + 1] & 0x1f) << 8) | section[i + 2];
+                    this.streamTypes.set(elementaryPid, streamType);
+                    if (this.videoPid === undefined && VIDEO_STREAM_TYPES[streamType]) {
+                        this.videoPid = elementaryPid;
+                    }
+                    i += 5 + (((section[i + 3] & 0x0f) << 8) | section[i + 4]);
+                }
+            }
+            return;
+        }
+
+        // PES
+        if (payloadUnitStart && payload.length >= 9 && payload[0] === 0 && payload[1] === 0 && payload[2] === 1) {
+            if (!this.mediaSeen) {
+                this.mediaSeen = true;
+                this.pmtBeforeMedia = this.pmtSeen;
+            }
+            const ptsDtsFlags = payload[7] >> 6;
+            if ((ptsDtsFlags & 0x02) && payload.length >= 14) {
+                const values = this.ptsByPid.get(pid) || [];
+                values.push(readTimestamp(payload, 9));
+                this.ptsByPid.set(pid, values);
+            }
+
+            if (pid === this.videoPid && !this.keyframeScanDone) {
+                if (this.keyframeScan) {
+                    this.keyframeScanDone = true;    // 다음 PES 시작 - 첫 액세스 유닛 수집 완료
+                } else {
+                    this.keyframeScan = [];
+                    this.collectKeyframeBytes(payload.subarray(9 + payload[8]));
+                }
+            }
+        } else if (pid === this.videoPid && this.keyframeScan && !this.keyframeScanDone) {
+            this.collectKeyframeBytes(payload);
+        }
+    }
+
+    private collectKeyframeBytes(payload: Buffer): void {
+        this.keyframeScan!.push(Buffer.from(payload));
+        this.keyframeScanBytes += payload.length;
+        if (this.keyframeScanBytes >= KEYFRAME_SCAN_BYTES) {
+            this.keyframeScanDone = true;
+        }
+    }
+}
+
+export function inspectTransportStream(data: Buffer): TsInspection {
+    const inspector = new TransportStreamInspector();
+    inspector.push(data);
+    return inspector.finish();
+}
+
+// 페이로드의 실제 길이와 #EXTINF 차이 (허용 오차 이내이거나 비교할 수 없으면 undefined)
+export function getDurationMismatch(segment: SegmentInfo): number | undefined {
+    const actual = segment.payload?.durationSeconds;
+    if (actual === undefined || segment.kind === 'init') {
+        return undefined;
+    }
+    const difference = actual - segment.duration;
+    return Math.abs(difference) > DURATION_MISMATCH_TOLERANCE ? difference : undefined;
+}
@@ -0,0 +1,148 @@
+import { Logger } from 'winston';
+import logger from './logger';
+
+// first: 첫 업로드, identical: 같은 내용의 재업로드(재시도), replaced: 이미 수신한 세그먼트의 내용을 바꾼 업로드
+export type UploadOutcome = 'first' | 'identical' | 'replaced';
+
+export interface UploadAttempt {
+    hash: string;               // SHA-256 of the uploaded body
+    size: number;
+    receivedAt: number;
+    uploadDurationMs?: number;
+    outcome: UploadOutcome;
+}
+
+export interface SegmentUploadHistory {
+    uri: string;                // Path relative to the channel (or pipeline) root
+    channelId: string;
+    redundantId?: string;
+    attempts: UploadAttempt[];  // First upload and the most recent attempts
+    uploads: number;            // Every upload attempt, including ones dropped from attempts
+    identical: number;
+    replaced: number;
+}
+
+export interface UploadSummary {
+    segments: number;           // Distinct segment paths uploaded
+    uploads: number;            // Every upload attempt
+    retries: number;            // Attempts after the first one for the same path
+    identical: number;
+    replaced: number;
+}
+
+const MAX_ATTEMPTS_PER_SEGMENT = 50;
+
+// 채널(파이프라인)별로 기록을 유지하는 세그먼트 경로 수 - 넘으면 가장 오래전에 업로드된 경로부터 제거
+// 보고서는 세션 원장에 남아 있는 세그먼트의 기록만 조회하므로 렌디션 여러 개의 원장(streaming.maxLedgerEntries)을 덮을 정도로 유지
+export const DEFAULT_MAX_SEGMENTS_PER_CHANNEL = 20000;
+
+// 세그먼트 경로별 모든 업로드 시도 (내용 해시, 크기, 시각) 기록
+// 같은 경로의 이전 업로드와 해시를 비교해 동일한 재업로드와 내용이 바뀐 덮어쓰기를 구분
+export class UploadHistory {
+    private logger: Logger;
+    private maxSegmentsPerChannel: number;
+    // 채널 키별 세그먼트 경로 -> 기록 (삽입 순서 = 마지막 업로드 순서)
+    private histories: Map<string, Map<string, SegmentUploadHistory>> = new Map();
+
+    constructor(loggerInstance?: Logger, options: { maxSegmentsPerChannel?: number } = {}) {
+        this.logger = loggerInstance || logger;
+        this.maxSegmentsPerChannel = options.maxSegmentsPerChannel ?? DEFAULT_MAX_SEGMENTS_PER_CHANNEL;
+    }
+
+    public record(upload: {
+        uri: string;
+        channelId: string;
+        redundantId?: string;
+        hash: string;
+        size: number;
+        receivedAt: number;
+        uploadDurationMs?: number;
+    }): UploadAttempt {
+        const historyKey = this.getHistoryKey(upload.channelId, upload.redundantId);
+        const channelHistories = this.histories.get(historyKey) || new Map<string, SegmentUploadHistory>();
+        this.histories.set(historyKey, channelHistories);
+
+        const history = channelHistories.get(upload.uri)
+            || { uri: upload.uri, channelId: upload.channelId, redundantId: upload.redundantId, attempts: [], uploads: 0, identical: 0, replaced: 0 };
+        // 다시 업로드된 경로는 가장 최근 항목으로 옮겨 제거 순서를 늦춤
+        channelHistories.delete(upload.uri);
+        channelHistories.set(upload.uri, history);
+        if (channelHistories.size > this.maxSegmentsPerChannel) {
+            const oldestUri = channelHistories.keys().next().value!;
+            channelHistories.delete(oldestUri);
+            this.logger.debug(`[${upload.channelId}] Dropped upload history of ${oldestUri} (more than ${this.maxSegmentsPerChannel} segment paths)`);
+        }
+
+        const previous = history.attempts[history.attempts.length - 1];
+        const outcome: UploadOutcome = !previous ? 'first' : previous.hash === upload.hash ? 'identical' : 'replaced';
+        const attempt: UploadAttempt = {
+            hash: upload.hash,
+            size: upload.size,
+            receivedAt: upload.receivedAt,
+            uploadDurationMs: upload.uploadDurationMs,
+            outcome
+        };
+
+        history.attempts.push(attempt);
+        history.uploads++;
+        if (outcome !== 'first') {
+            history[outcome]++;
+        }
+        if (history.attempts.length > MAX_ATTEMPTS_PER_SEGMENT) {
+            // 첫 업로드는 유지하고 그 다음으로 오래된 시도부터 제거
+            history.attempts.splice(1, 1);
+        }
+
+        if (outcome === 'identical') {
+            this.logger.warn(`[${upload.channelId}] Segment ${upload.uri} was uploaded again with identical content (upload ${history.uploads})`);
+        } else if (outcome === 'replaced') {
+            this.logger.warn(`[${upload.channelId}] Segment ${upload.uri} was overwritten with different content (${previous.size} -> ${upload.size} bytes)`);
+        }
+
+        return attempt;
+    }
+
+    public get(channelId: string, redundantId: string | undefined, uri: string): SegmentUploadHistory | undefined {
+        return this.histories.get(this.getHistoryKey(channelId, redundantId))?.get(uri);
+    }
+
+    // 두 번 이상 업로드된 세그먼트 (채널/파이프라인 키별)
+    public getRepeatedUploads(): Map<string, SegmentUploadHistory[]> {
+        const repeated = new Map<string, SegmentUploadHistory[]>();
+        for (const [historyKey, channelHistories] of this.histories.entries()) {
+            const histories = Array.from(channelHistories.values()).filter(history => history.uploads > 1);
+            if (histories.length > 0) {
+                repeated.set(historyKey, histories);
+            }
+        }
+        return repeated;
+    }
+
+    // 채널(또는 전체)의 업로드 기록 초기화 (파이프라인 기록 포함)
+    public reset(channelId?: string): void {
+        if (channelId === undefined) {
+            this.histories.clear();
+            return;
+        }
+        for (const historyKey of Array.from(this.histories.keys())) {
+            if (historyKey === channelId || historyKey.startsWith(`${channelId}/`)) {
+                this.histories.delete(historyKey);
+            }
+        }
+    }
+
+    private getHistoryKey(channelId: string, redundantId?: string): string {
+        return redundantId ? `${channelId}/${redundantId}` : channelId;
+    }
+}
+
+export function summarizeUploads(histories: SegmentUploadHistory[]): UploadSummary {
+    const summary: UploadSummary = { segments: histories.length, uploads: 0, retries: 0, identical: 0, replaced: 0 };
+    for (const history of histories) {
+        summary.uploads += history.uploads;
+        summary.retries += history.uploads - 1;
+        summary.identical += history.identical;
+        summary.replaced += history.replaced;
+    }
+    return summary;
+}
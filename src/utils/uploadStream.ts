@@ -0,0 +1,141 @@
+import { Request, Response, NextFunction, RequestHandler } from 'express';
+import fs from 'fs';
+import path from 'path';
+import crypto from 'crypto';
+import { Logger } from 'winston';
+import logger from './logger';
+import { parseIngestPath } from './ingestPath';
+import { TransportStreamInspector } from './tsInspector';
+
+export const UPLOAD_TEMP_DIR = '.uploads';
+
+// PUT 요청 본문 처리 미들웨어
+// - 세그먼트: 임시 파일로 스트리밍 (req.uploadedFile), 핸들러에서 응답 전에 최종 경로로 rename
+//   rename되지 않은 임시 파일(잘못된 경로, 매칭되는 라우트 없음, 핸들러의 조기 반환)은 응답이 끝나면 삭제
+//   inspectSegments가 켜져 있으면 .ts 본문은 sha256과 함께 스트리밍 중에 MPEG-TS 검사 (req.uploadedFile.payload)
+// - M3U8 등 기타: 기존과 같이 메모리에 버퍼링 (req.rawBody)
+export function createUploadMiddleware(
+    mockStoragePath: string,
+    loggerInstance?: Logger,
+    options: { inspectSegments?: boolean } = {}
+): RequestHandler {
+    const log = loggerInstance || logger;
+    const tempDir = path.join(mockStoragePath, UPLOAD_TEMP_DIR);
+
+    // 이전 실행이 업로드 도중 종료되어 남은 임시 파일 정리
+    try {
+        fs.rmSync(tempDir, { recursive: true, force: true });
+    } catch (error) {
+        log.error(`Failed to clear upload temp directory ${tempDir}`, error);
+    }
+
+    return (req: Request, res: Response, next: NextFunction) => {
+        if (req.method !== 'PUT') {
+            next();
+            return;
+        }
+
+        const pathInfo = parseIngestPath(req.path);
+        if (pathInfo?.fileType === 'segment') {
+            const inspect = options.inspectSegments === true && path.posix.extname(pathInfo.filename.split('?')[0]).toLowerCase() === '.ts';
+            streamToTempFile(req, res, next, tempDir, log, inspect ? new TransportStreamInspector() : undefined);
+        } else {
+            bufferBody(req, next, log);
+        }
+    };
+}
+
+function bufferBody(req: Request, next: NextFunction, log: Logger): void {
+    const data: Buffer[] = [];
+    req.on('data', chunk => {
+        data.push(chunk);
+    });
+    req.on('end', () => {
+        req.rawBody = Buffer.concat(data);
+        log.http(`[${req.method}] ${req.originalUrl} - Body length: ${req.rawBody?.length || 0}`);
+        next();
+    });
+}
+
+function streamToTempFile(
+    req: Request,
+    res: Response,
+    next: NextFunction,
+    tempDir: string,
+    log: Logger,
+    inspector?: TransportStreamInspector
+): void {
+    let startedAt: number | undefined;
+    const tempPath = path.join(tempDir, `${crypto.randomBytes(8).toString('hex')}.part`);
+    const hash = crypto.createHash('sha256');
+    let size = 0;
+    let finished = false;
+
+    try {
+        fs.mkdirSync(tempDir, { recursive: true });
+    } catch (error) {
+        log.error(`Failed to create upload temp directory ${tempDir}`, error);
+        res.status(500).send('Internal Server Error: Failed to write file');
+        return;
+    }
+
+    const fileStream = fs.createWriteStream(tempPath);
+
+    const removeTempFile = () => {
+        fs.unlink(tempPath, () => undefined);
+    };
+
+    // 핸들러가 rename했으면 ENOENT로 무시됨
+    res.on('finish', removeTempFile);
+    res.on('close', removeTempFile);
+
+    req.on('data', (chunk: Buffer) => {
+        startedAt ??= Date.now();
+        size += chunk.length;
+        hash.update(chunk);
+        inspector?.push(chunk);
+    });
+
+    // 클라이언트가 업로드 도중 연결을 끊은 경우 임시 파일 정리
+    req.on('close', () => {
+        if (!finished && !req.complete) {
+            log.warn(`[${req.method}] ${req.originalUrl} - Upload aborted after ${size} bytes`);
+            fileStream.destroy();
+            removeTempFile();
+        }
+    });
+
+    fileStream.on('error', error => {
+        if (finished) {
+            return;
+        }
+        finished = true;
+        log.error(`Failed to stream upload to ${tempPath}`, error);
+        req.unpipe(fileStream);
+        req.resume();
+        removeTempFile();
+        if (!res.headersSent) {
+            res.status(500).send('Internal Server Error: Failed to write file');
+        }
+    });
+
+    fileStream.on('finish', () => {
+        if (finished || !req.complete) {
+            return;
+        }
+        finished = true;
+        const finishedAt = Date.now();
+        req.uploadedFile = {
+            tempPath,
+            size,
+            sha256: hash.digest('hex'),
+            startedAt: startedAt ?? finishedAt,
+            durationMs: finishedAt - (startedAt ?? finishedAt),
+            payload: inspector?.finish()
+        };
+        log.http(`[${req.method}] ${req.originalUrl} - Body length: ${size} (streamed in ${req.uploadedFile.durationMs}ms)`);
+        next();
+    });
+
+    req.pipe(fileStream);
+}
@@ -0,0 +1,106 @@
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import { Request, Response } from 'express';
+import { DeleteHandler } from '../../src/handlers/deleteHandler';
+import { M3u8TrackingInfo, MasterPlaylistInfo, SegmentInfo } from '../../src/types';
+import { createTrackingInfo, segmentsBySequence, segmentsByUri, silentLogger } from '../helpers';
+
+describe('Delete Handler', () => {
+    let storagePath: string;
+    let streamTracker: Map<string, M3u8TrackingInfo>;
+    let masterTracker: Map<string, MasterPlaylistInfo>;
+    let handler: DeleteHandler;
+    let trackingInfo: M3u8TrackingInfo;
+
+    const received: () => SegmentInfo = () => ({ uri: 'seg_1.ts', duration: 6, mediaSequence: 1, received: true, state: 'received' });
+    const unreceived: () => SegmentInfo = () => ({ uri: 'seg_2.ts', duration: 6, mediaSequence: 2, received: false, state: 'announced' });
+
+    const writeFile = (relativePath: string) => {
+        const filePath = path.join(storagePath, relativePath);
+        fs.mkdirSync(path.dirname(filePath), { recursive: true });
+        fs.writeFileSync(filePath, 'data');
+        return filePath;
+    };
+
+    const sendDelete = (urlPath: string) => {
+        const res = { status: jest.fn().mockReturnThis(), send: jest.fn() };
+        handler.handleDelete({ path: urlPath, originalUrl: urlPath } as unknown as Request, res as unknown as Response);
+        return res;
+    };
+
+    beforeEach(() => {
+        storagePath = fs.mkdtempSync(path.join(os.tmpdir(), 'delete-handler-'));
+        const segments = [received(), unreceived()];
+        trackingInfo = createTrackingInfo({ segments: segmentsByUri(segments), ledger: segmentsBySequence(segments) });
+        streamTracker = new Map([['channel1/index.m3u8', trackingInfo]]);
+        masterTracker = new Map();
+        handler = new DeleteHandler(streamTracker, masterTracker, storagePath, silentLogger);
+    });
+
+    afterEach(() => {
+        fs.rmSync(storagePath, { recursive: true, force: true });
+    });
+
+    it('should remove a received segment and count the delete', () => {
+        const filePath = writeFile('channel1/seg_1.ts');
+
+        const res = sendDelete('/live/channel1/seg_1.ts');
+
+        expect(res.status).toHaveBeenCalledWith(204);
+        expect(fs.existsSync(filePath)).toBe(false);
+        expect(trackingInfo.deletedSegments).toBe(1);
+        expect(trackingInfo.deletedUnreceivedSegments).toBe(0);
+        expect(trackingInfo.ledger.get(1)!.deletedAt).toBeDefined();
+    });
+
+    it('should count a delete of an announced segment that was never received', () => {
+        const res = sendDelete('/live/channel1/seg_2.ts');
+
+        expect(res.status).toHaveBeenCalledWith(204);
+        expect(trackingInfo.deletedSegments).toBe(1);
+        expect(trackingInfo.deletedUnreceivedSegments).toBe(1);
+        expect(trackingInfo.ledger.get(2)!.deletedAt).toBeDefined();
+    });
+
+    it('should remove a playlist and mark its tracker deleted', () => {
+        const filePath = writeFile('channel1/index.m3u8');
+        trackingInfo.timeoutId = setTimeout(() => undefined, 60000);
+
+        const res = sendDelete('/live/channel1/index.m3u8');
+
+        expect(res.status).toHaveBeenCalledWith(204);
+        expect(fs.existsSync(filePath)).toBe(false);
+        expect(trackingInfo.deletedAt).toBeDefined();
+        expect(trackingInfo.timeoutId).toBeUndefined();
+    });
+
+    it('should delete files of a redundant pipeline from its own directory', () => {
+        const pipelineInfo = createTrackingInfo({ m3u8Uri: '/in/v2/channel1/0/channel', redundantId: '0', segments: segmentsByUri([received()]), ledger: segmentsBySequence([received()]) });
+        streamTracker.set('channel1/0/playlist.m3u8', pipelineInfo);
+        const pipelineFile = writeFile('channel1/0/seg_1.ts');
+        const otherFile = writeFile('channel1/seg_1.ts');
+
+        expect(sendDelete('/in/v2/channel1/0/seg_1.ts').status).toHaveBeenCalledWith(204);
+        expect(fs.existsSync(pipelineFile)).toBe(false);
+        expect(fs.existsSync(otherFile)).toBe(true);
+        expect(pipelineInfo.deletedSegments).toBe(1);
+        expect(trackingInfo.deletedSegments).toBe(0);
+    });
+
+    it('should reject paths outside of the channel directory', () => {
+        const outsideFile = writeFile('channel2/seg_1.ts');
+
+        const res = sendDelete('/live/channel1/../channel2/seg_1.ts');
+
+        expect(res.status).toHaveBeenCalledWith(400);
+        expect(fs.existsSync(outsideFile)).toBe(true);
+    });
+
+    it('should answer 404 for a file that neither exists nor is tracked', () => {
+        expect(sendDelete('/live/channel1/seg_9.ts').status).toHaveBeenCalledWith(404);
+        expect(sendDelete('/live/channel1/other.m3u8').status).toHaveBeenCalledWith(404);
+        expect(trackingInfo.deletedSegments).toBe(0);
+        expect(trackingInfo.deletedAt).toBeUndefined();
+    });
+});
@@ -0,0 +1,105 @@
+import { EgressHandler } from '../../src/handlers/egressHandler';
+import { M3u8TrackingInfo, SegmentInfo } from '../../src/types';
+import { createTrackingInfo, segmentsBySequence, segmentsByUri, silentLogger } from '../helpers';
+
+const SESSION_START = Date.parse('2026-01-01T00:00:00Z');
+
+// 시퀀스 n은 SESSION_START + n * 6초에 수신된 6초 세그먼트
+function receivedSegment(mediaSequence: number, receivedDelayMs = 0): SegmentInfo {
+    return {
+        uri: `seg_${mediaSequence}.ts`,
+        duration: 6,
+        mediaSequence,
+        received: true,
+        state: 'received',
+        receivedAt: SESSION_START + mediaSequence * 6000 + receivedDelayMs
+    };
+}
+
+function range(first: number, last: number): number[] {
+    return Array.from({ length: last - first + 1 }, (_, index) => first + index);
+}
+
+// 세션 원장에는 first..last, 인코더의 현재 윈도우에는 마지막 windowSize개
+function createSession(first: number, last: number, windowSize: number, overrides: Partial<M3u8TrackingInfo> = {}): M3u8TrackingInfo {
+    const segments = range(first, last).map(sequence => receivedSegment(sequence));
+    return createTrackingInfo({
+        segments: segmentsByUri(segments.slice(-windowSize)),
+        ledger: segmentsBySequence(segments),
+        ...overrides
+    });
+}
+
+function mediaSequenceOf(playlist: string): number {
+    return Number(playlist.match(/#EXT-X-MEDIA-SEQUENCE:(\d+)/)![1]);
+}
+
+function urisOf(playlist: string): string[] {
+    return playlist.split('\n').filter(line => line !== '' && !line.startsWith('#'));
+}
+
+describe('Egress Handler', () => {
+    let streamTracker: Map<string, M3u8TrackingInfo>;
+    let handler: EgressHandler;
+
+    beforeEach(() => {
+        streamTracker = new Map();
+        handler = new EgressHandler(streamTracker, new Map(), '/mock/storage', 18, silentLogger);
+    });
+
+    const build = (options: { windowSeconds?: number; start?: number; end?: number } = {}) =>
+        handler.buildPlaylist('channel1', 'index.m3u8', { windowSeconds: 18, now: SESSION_START + 3600000, ...options })!;
+
+    it('should advance EXT-X-MEDIA-SEQUENCE as the window slides', () => {
+        const trackingInfo = createSession(1, 10, 3);
+        streamTracker.set('channel1/index.m3u8', trackingInfo);
+        expect(mediaSequenceOf(build())).toBe(8);
+
+        const next = receivedSegment(11);
+        trackingInfo.ledger.set(11, next);
+        trackingInfo.segments = segmentsByUri([trackingInfo.ledger.get(10)!, next]);
+
+        const playlist = build();
+        expect(mediaSequenceOf(playlist)).toBe(9);
+        expect(urisOf(playlist)).toEqual(['seg_9.ts', 'seg_10.ts', 'seg_11.ts']);
+    });
+
+    it('should trim the live playlist to windowSeconds using segments older than the encoder window', () => {
+        streamTracker.set('channel1/index.m3u8', createSession(1, 10, 2));
+
+        expect(urisOf(build({ windowSeconds: 12 }))).toEqual(['seg_9.ts', 'seg_10.ts']);
+        expect(urisOf(build({ windowSeconds: 30 }))).toEqual(['seg_6.ts', 'seg_7.ts', 'seg_8.ts', 'seg_9.ts', 'seg_10.ts']);
+    });
+
+    it('should serve start/end time-shift windows outside of the encoder window', () => {
+        streamTracker.set('channel1/index.m3u8', createSession(1, 10, 2));
+
+        const playlist = build({ start: SESSION_START + 2 * 6000, end: SESSION_START + 4 * 6000 });
+
+        expect(mediaSequenceOf(playlist)).toBe(2);
+        expect(urisOf(playlist)).toEqual(['seg_2.ts', 'seg_3.ts', 'seg_4.ts']);
+        expect(playlist).toContain('#EXT-X-PLAYLIST-TYPE:VOD');
+        expect(playlist).toContain('#EXT-X-ENDLIST');
+    });
+
+    it('should leave out segments the encoder deleted', () => {
+        const trackingInfo = createSession(1, 10, 2);
+        trackingInfo.ledger.get(3)!.deletedAt = SESSION_START;
+        streamTracker.set('channel1/index.m3u8', trackingInfo);
+
+        // 삭제된 시퀀스 3 이후의 연속 구간만 포함
+        expect(urisOf(build({ start: SESSION_START, end: SESSION_START + 5 * 6000 }))).toEqual(['seg_4.ts', 'seg_5.ts']);
+    });
+
+    it('should de-duplicate sequences delivered by redundant pipelines using the first arrival', () => {
+        const pipelineA = [receivedSegment(1), receivedSegment(2, 500), receivedSegment(3)];
+        const pipelineB = [receivedSegment(1, 200), receivedSegment(2), receivedSegment(4)];
+        streamTracker.set('channel1/A/index.m3u8', createTrackingInfo({ redundantId: 'A', segments: segmentsByUri(pipelineA), ledger: segmentsBySequence(pipelineA) }));
+        streamTracker.set('channel1/B/index.m3u8', createTrackingInfo({ redundantId: 'B', segments: segmentsByUri(pipelineB), ledger: segmentsBySequence(pipelineB) }));
+
+        const playlist = build({ windowSeconds: 60 });
+
+        expect(mediaSequenceOf(playlist)).toBe(1);
+        expect(urisOf(playlist)).toEqual(['A/seg_1.ts', 'B/seg_2.ts', 'A/seg_3.ts', 'B/seg_4.ts']);
+    });
+});
@@ -1,12 +1,17 @@
 import { M3u8Handler } from '../../src/handlers/m3u8Handler';
-import { M3u8TrackingInfo } from '../../src/types';
+import { M3u8TrackingInfo, MasterPlaylistInfo } from '../../src/types';
+import { HlsValidator } from '../../src/utils/hlsValidator';
+import { silentLogger } from '../helpers';
+import { PendingSegmentPool } from '../../src/utils/pendingSegmentPool';
+import { RemotePlaylistFetcher } from '../../src/utils/remotePlaylistFetcher';
 import { Request, Response } from 'express';
 import fs from 'fs';
 import path from 'path';
 import axios from 'axios';
 
-// Mock fs module
+// Mock fs module (keep the rest of fs for the logger's file transports)
 jest.mock('fs', () => ({
+    ...jest.requireActual('fs'),
     existsSync: jest.fn(),
     mkdirSync: jest.fn(),
     writeFileSync: jest.fn(),
@@ -19,16 +24,20 @@ const mockedAxios = axios as jest.Mocked<typeof axios>;
 describe('M3U8 Handler', () => {
     let handler: M3u8Handler;
     let streamTracker: Map<string, M3u8TrackingInfo>;
+    let masterTracker: Map<string, MasterPlaylistInfo>;
     const mockStoragePath = '/mock/storage';
     const segmentArrivalTimeoutBufferMs = 2000;
 
     beforeEach(() => {
         streamTracker = new Map();
-        handler = new M3u8Handler(streamTracker, mockStoragePath, segmentArrivalTimeoutBufferMs);
+        masterTracker = new Map();
+        handler = new M3u8Handler(streamTracker, masterTracker, mockStoragePath, segmentArrivalTimeoutBufferMs);
         jest.clearAllMocks();
     });
 
     afterEach(() => {
+        // 마감 검사 타이머는 실제 타이머이므로 clearAllTimers로는 정리되지 않음
+        streamTracker.forEach(trackingInfo => clearTimeout(trackingInfo.timeoutId));
         jest.clearAllTimers();
         jest.clearAllMocks();
         streamTracker.clear();
@@ -175,20 +184,190 @@ index.m3u8?apikey=ed4ede75-fb21588a-98635595-219242bc&resolution=640x360&channel
         expect(res.status).toHaveBeenCalledWith(200);
         expect(res.send).toHaveBeenCalledWith('OK');
 
-        // Verify axios was called with the correct URL
-        expect(mockedAxios.get).toHaveBeenCalledWith(m3u8Url);
+        // Verify axios was called with the correct URL, a time limit and a size limit
+        expect(mockedAxios.get).toHaveBeenCalledWith(m3u8Url, expect.objectContaining({ timeout: 5000, maxContentLength: 1048576 }));
 
         // Verify file system operations
         expect(fs.mkdirSync).toHaveBeenCalled();
         expect(fs.writeFileSync).toHaveBeenCalled();
 
-        // Verify stream tracker
-        const trackingInfo = streamTracker.get('channel1/playlist.m3u8');
-        expect(trackingInfo).toBeDefined();
-        if (trackingInfo) {
-            expect(trackingInfo.m3u8Uri).toBe('/live/channel1/playlist.m3u8');
-            expect(trackingInfo.segments.size).toBe(4); // 4 different quality streams
-            expect(trackingInfo.allSegmentsReceived).toBe(false);
+        // Master playlists are tracked separately, not as segments
+        expect(streamTracker.has('channel1/playlist.m3u8')).toBe(false);
+        const masterInfo = masterTracker.get('channel1/playlist.m3u8');
+        expect(masterInfo).toBeDefined();
+        if (masterInfo) {
+            expect(masterInfo.m3u8Uri).toBe('/live/channel1/playlist.m3u8');
+            expect(masterInfo.renditions.length).toBe(4); // 4 different quality streams
+            expect(masterInfo.renditions[0].trackingKey).toBe('channel1/index.m3u8');
+            expect(masterInfo.renditions[0].resolution).toEqual({ width: 1920, height: 1080 });
         }
     });
-}); 
\ No newline at end of file
+
+    it('should keep segments that slide out of the window in the session ledger', async () => {
+        const putPlaylist = async (content: string) => {
+            const req = {
+                params: { channelId: 'channel1' },
+                path: '/live/channel1/playlist.m3u8',
+                method: 'PUT',
+                rawBody: Buffer.from(content)
+            } as unknown as Request;
+            const res = { status: jest.fn().mockReturnThis(), send: jest.fn() } as unknown as Response;
+            await handler.handlePut(req, res);
+        };
+
+        await putPlaylist(`#EXTM3U
+#EXT-X-VERSION:3
+#EXT-X-TARGETDURATION:6
+#EXT-X-MEDIA-SEQUENCE:1
+#EXTINF:6.0,
+segment1.ts
+#EXTINF:6.0,
+segment2.ts`);
+        streamTracker.get('channel1/playlist.m3u8')!.segments.get('segment2.ts')!.received = true;
+
+        await putPlaylist(`#EXTM3U
+#EXT-X-VERSION:3
+#EXT-X-TARGETDURATION:6
+#EXT-X-MEDIA-SEQUENCE:2
+#EXTINF:6.0,
+segment2.ts
+#EXTINF:6.0,
+segment3.ts`);
+
+        const trackingInfo = streamTracker.get('channel1/playlist.m3u8')!;
+        clearTimeout(trackingInfo.timeoutId);
+
+        expect(Array.from(trackingInfo.segments.keys())).toEqual(['segment2.ts', 'segment3.ts']);
+        expect(Array.from(trackingInfo.ledger.keys())).toEqual([1, 2, 3]);
+        expect(trackingInfo.ledger.get(1)!.state).toBe('expired');
+        // Window entries and ledger entries are the same objects
+        expect(trackingInfo.ledger.get(2)).toBe(trackingInfo.segments.get('segment2.ts'));
+        expect(trackingInfo.ledger.get(2)!.received).toBe(true);
+        expect(trackingInfo.ledger.get(3)!.state).toBe('announced');
+    });
+
+    it('should time out each segment at its own deadline across playlist refreshes', async () => {
+        jest.useFakeTimers({ now: 0 });
+        try {
+            const putPlaylist = async (mediaSequence: number, uris: string[]) => {
+                const content = [
+                    '#EXTM3U',
+                    '#EXT-X-VERSION:3',
+                    '#EXT-X-TARGETDURATION:6',
+                    `#EXT-X-MEDIA-SEQUENCE:${mediaSequence}`,
+                    ...uris.flatMap(uri => ['#EXTINF:2.0,', uri])
+                ].join('\n');
+                const req = {
+                    params: { channelId: 'channel1' },
+                    path: '/live/channel1/playlist.m3u8',
+                    method: 'PUT',
+                    rawBody: Buffer.from(content)
+                } as unknown as Request;
+                const res = { status: jest.fn().mockReturnThis(), send: jest.fn() } as unknown as Response;
+                await handler.handlePut(req, res);
+            };
+
+            // Playlist refreshed every 2s; segment1's deadline is 0 + 6s target duration + 2s buffer
+            await putPlaylist(1, ['segment1.ts']);
+            for (let i = 2; i <= 4; i++) {
+                jest.advanceTimersByTime(2000);
+                await putPlaylist(1, Array.from({ length: i }, (_, index) => `segment${index + 1}.ts`));
+            }
+
+            const trackingInfo = streamTracker.get('channel1/playlist.m3u8')!;
+            expect(trackingInfo.segments.get('segment1.ts')!.deadlineAt).toBe(8000);
+            expect(trackingInfo.segments.get('segment1.ts')!.state).toBe('announced');
+
+            jest.advanceTimersByTime(2000);
+            expect(trackingInfo.segments.get('segment1.ts')!.state).toBe('missing');
+            expect(trackingInfo.segments.get('segment2.ts')!.state).toBe('announced');
+            expect(trackingInfo.timeoutEvents).toBe(1);
+
+            // Later checks only count segments whose own deadline passed
+            jest.advanceTimersByTime(2000);
+            expect(trackingInfo.timeoutEvents).toBe(2);
+            expect(trackingInfo.segments.get('segment1.ts')!.state).toBe('missing');
+
+            jest.clearAllTimers();
+        } finally {
+            jest.useRealTimers();
+        }
+    });
+
+    it('should match segments uploaded before the playlist that references them', async () => {
+        const pendingSegmentPool = new PendingSegmentPool(30000);
+        handler = new M3u8Handler(streamTracker, masterTracker, mockStoragePath, segmentArrivalTimeoutBufferMs, undefined, { pendingSegmentPool });
+        const uploadedAt = Date.now() - 500;
+        pendingSegmentPool.add({ uri: 'segment1.ts', channelId: 'channel1', size: 1000, receivedAt: uploadedAt });
+
+        const req = {
+            params: { channelId: 'channel1' },
+            path: '/live/channel1/playlist.m3u8',
+            method: 'PUT',
+            rawBody: Buffer.from(`#EXTM3U
+#EXT-X-VERSION:3
+#EXT-X-TARGETDURATION:6
+#EXTINF:6.0,
+segment1.ts
+#EXTINF:6.0,
+segment2.ts`)
+        } as unknown as Request;
+        const res = { status: jest.fn().mockReturnThis(), send: jest.fn() } as unknown as Response;
+        await handler.handlePut(req, res);
+
+        const trackingInfo = streamTracker.get('channel1/playlist.m3u8')!;
+        clearTimeout(trackingInfo.timeoutId);
+
+        const segment = trackingInfo.segments.get('segment1.ts')!;
+        expect(segment).toMatchObject({ received: true, receivedAt: uploadedAt, size: 1000, preAnnounced: true, state: 'received' });
+        expect(segment.firstSeenAt! - segment.receivedAt!).toBeGreaterThanOrEqual(500);
+        expect(trackingInfo.segments.get('segment2.ts')!.received).toBe(false);
+        expect(pendingSegmentPool.getPending('channel1')).toEqual([]);
+    });
+
+    it('should answer 502 and record the failure when the playlist URL cannot be fetched', async () => {
+        const remotePlaylistFetcher = new RemotePlaylistFetcher({ maxRetries: 0 });
+        handler = new M3u8Handler(streamTracker, masterTracker, mockStoragePath, segmentArrivalTimeoutBufferMs, undefined, { remotePlaylistFetcher });
+        mockedAxios.get.mockRejectedValue(Object.assign(new Error('connect ECONNREFUSED'), { code: 'ECONNREFUSED' }));
+
+        const req = {
+            params: { channelId: 'channel1' },
+            path: '/live/channel1/playlist.m3u8',
+            method: 'PUT',
+            rawBody: Buffer.from('http://upstream.invalid/live/index.m3u8\n')
+        } as unknown as Request;
+        const res = { status: jest.fn().mockReturnThis(), send: jest.fn() } as unknown as Response;
+
+        await handler.handlePut(req, res);
+
+        expect(mockedAxios.get).toHaveBeenCalledWith('http://upstream.invalid/live/index.m3u8', expect.anything());
+        expect(res.status).toHaveBeenCalledWith(502);
+        expect(fs.writeFileSync).not.toHaveBeenCalled();
+        expect(remotePlaylistFetcher.getStats().get('channel1')).toMatchObject({ failures: 1, failuresByReason: { network: 1 } });
+    });
+
+    it('should not let a rejected playlist become the baseline for the next revision', async () => {
+        handler = new M3u8Handler(streamTracker, masterTracker, mockStoragePath, segmentArrivalTimeoutBufferMs, undefined, {
+            hlsValidator: new HlsValidator(silentLogger),
+            rejectInvalidPlaylists: true
+        });
+        const putPlaylist = async (mediaSequence: number, segments: string[]) => {
+            const req = {
+                params: { channelId: 'channel1' },
+                path: '/live/channel1/playlist.m3u8',
+                method: 'PUT',
+                rawBody: Buffer.from(['#EXTM3U', '#EXT-X-VERSION:3', '#EXT-X-TARGETDURATION:6', `#EXT-X-MEDIA-SEQUENCE:${mediaSequence}`, ...segments].join('\n'))
+            } as unknown as Request;
+            const res = { status: jest.fn().mockReturnThis(), send: jest.fn() };
+            await handler.handlePut(req, res as unknown as Response);
+            return res.status.mock.calls[0][0];
+        };
+
+        expect(await putPlaylist(10, ['#EXTINF:6.0,', 'segment10.ts', '#EXTINF:6.0,', 'segment11.ts'])).toBe(200);
+        // 이미 게시된 시퀀스 11의 길이를 바꾼 리비전은 거부
+        expect(await putPlaylist(11, ['#EXTINF:9.0,', 'segment11.ts'])).toBe(400);
+        expect(await putPlaylist(11, ['#EXTINF:6.0,', 'segment11.ts', '#EXTINF:6.0,', 'segment12.ts'])).toBe(200);
+
+        clearTimeout(streamTracker.get('channel1/playlist.m3u8')!.timeoutId);
+    });
+});
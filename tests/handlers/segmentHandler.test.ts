@@ -0,0 +1,54 @@
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import { Request, Response } from 'express';
+import { SegmentHandler } from '../../src/handlers/segmentHandler';
+import { M3u8TrackingInfo, SegmentInfo } from '../../src/types';
+import { createTrackingInfo, segmentsBySequence, segmentsByUri, silentLogger } from '../helpers';
+
+describe('Segment Handler', () => {
+    let storagePath: string;
+    let trackingInfo: M3u8TrackingInfo;
+    let handler: SegmentHandler;
+
+    const sendPut = (urlPath: string) => {
+        const res = { status: jest.fn().mockReturnThis(), send: jest.fn() };
+        const req = { path: urlPath, originalUrl: urlPath, params: { channelId: 'channel1' }, rawBody: Buffer.from('data') };
+        return handler.handlePut(req as unknown as Request, res as unknown as Response).then(() => res);
+    };
+
+    beforeEach(() => {
+        storagePath = fs.mkdtempSync(path.join(os.tmpdir(), 'segment-handler-'));
+        const segments: SegmentInfo[] = [];
+        for (let sequence = 1; sequence <= 105; sequence++) {
+            segments.push({ uri: `seg_${sequence}.ts`, duration: 6, mediaSequence: sequence, received: false, state: 'announced' });
+        }
+        trackingInfo = createTrackingInfo({ segments: segmentsByUri(segments), ledger: segmentsBySequence(segments) });
+        handler = new SegmentHandler(new Map([['channel1/index.m3u8', trackingInfo]]), storagePath, silentLogger, { segmentMatching: 'sequence' });
+    });
+
+    afterEach(() => {
+        fs.rmSync(storagePath, { recursive: true, force: true });
+    });
+
+    it('should match an upload by media sequence and record the inexact match', async () => {
+        const res = await sendPut('/live/channel1/video_3.ts');
+
+        expect(res.status).toHaveBeenCalledWith(200);
+        expect(trackingInfo.segments.get('seg_3.ts')!.received).toBe(true);
+        expect(trackingInfo.sequenceMatches).toBe(1);
+        expect(trackingInfo.inexactMatches).toMatchObject([{ mode: 'sequence', uploadedUri: 'video_3.ts', matchedUri: 'seg_3.ts' }]);
+    });
+
+    it('should keep only the most recent inexact matches while counting all of them', async () => {
+        for (let sequence = 1; sequence <= 105; sequence++) {
+            await sendPut(`/live/channel1/video_${sequence}.ts`);
+        }
+
+        expect(trackingInfo.sequenceMatches).toBe(105);
+        expect(trackingInfo.fuzzyMatches).toBe(0);
+        expect(trackingInfo.inexactMatches).toHaveLength(100);
+        expect(trackingInfo.inexactMatches[0].uploadedUri).toBe('video_6.ts');
+        expect(trackingInfo.inexactMatches[99].uploadedUri).toBe('video_105.ts');
+    });
+});
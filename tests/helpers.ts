@@ -0,0 +1,48 @@
+import { createLogger, transports } from 'winston';
+import { M3u8TrackingInfo, SegmentInfo } from '../src/types';
+import { buildLedgerIndex } from '../src/utils/segmentLedger';
+
+// 테스트 공용 헬퍼 - 출력 없는 로거와 트래킹 정보 팩토리
+
+export const silentLogger = createLogger({ transports: [new transports.Console({ silent: true })] });
+
+// 플레이리스트 윈도우 형태 (URI 키)
+export function segmentsByUri(segments: SegmentInfo[]): Map<string, SegmentInfo> {
+    return new Map(segments.map(segment => [segment.uri, segment]));
+}
+
+// 세션 원장 형태 (미디어 시퀀스 키, 시퀀스가 없는 init 세그먼트는 제외)
+export function segmentsBySequence(segments: SegmentInfo[]): Map<number, SegmentInfo> {
+    return new Map(segments
+        .filter(segment => segment.mediaSequence !== undefined)
+        .map(segment => [segment.mediaSequence as number, segment]));
+}
+
+// 빈 윈도우와 원장을 가진 channel1 트래킹 정보 - 테스트에 필요한 필드만 덮어씀 (원장의 URI 색인은 덮어쓴 원장으로 생성)
+export function createTrackingInfo(overrides: Partial<M3u8TrackingInfo> = {}): M3u8TrackingInfo {
+    const now = Date.now();
+    const ledger = overrides.ledger || new Map<number, SegmentInfo>();
+    return {
+        m3u8Uri: '/live/channel1/index.m3u8',
+        targetDuration: 6,
+        segments: new Map(),
+        ledger,
+        ledgerIndex: buildLedgerIndex(ledger),
+        allSegmentsReceived: false,
+        receivedAt: now,
+        channelId: 'channel1',
+        lastSegmentReceivedTime: now,
+        segmentArrivalTimeoutBufferMs: 0,
+        previousM3u8Updates: [now],
+        timeoutEvents: 0,
+        successiveTimeouts: 0,
+        maxSuccessiveTimeouts: 0,
+        segmentArrivalIntervals: [],
+        deletedSegments: 0,
+        deletedUnreceivedSegments: 0,
+        inexactMatches: [],
+        sequenceMatches: 0,
+        fuzzyMatches: 0,
+        ...overrides
+    };
+}
@@ -0,0 +1,77 @@
+import { ChannelLifecycleTracker } from '../../src/utils/channelLifecycle';
+import { silentLogger } from '../helpers';
+
+describe('Channel Lifecycle Tracker', () => {
+    let lifecycle: ChannelLifecycleTracker;
+
+    beforeEach(() => {
+        jest.useFakeTimers({ now: 0 });
+        lifecycle = new ChannelLifecycleTracker(3, silentLogger);
+    });
+
+    afterEach(() => {
+        lifecycle.stop();
+        jest.useRealTimers();
+    });
+
+    const states = (channelId = 'channel1') => lifecycle.get(channelId)!.history.map(transition => transition.state);
+
+    it('should start provisioned channels idle and become active on the first upload', () => {
+        lifecycle.register('channel1');
+        expect(lifecycle.get('channel1')?.state).toBe('idle');
+
+        jest.advanceTimersByTime(1000);
+        lifecycle.recordPlaylist('channel1', 'channel1/index.m3u8', 2, false, Date.now());
+
+        expect(lifecycle.get('channel1')).toMatchObject({ state: 'active', since: 1000, targetDuration: 2 });
+        expect(states()).toEqual(['idle', 'active']);
+    });
+
+    it('should stall after N target durations without uploads and recover on the next upload', () => {
+        lifecycle.recordPlaylist('channel1', 'channel1/index.m3u8', 2, false, Date.now());
+
+        jest.advanceTimersByTime(5000);
+        lifecycle.recordSegment('channel1', 'seg_1.ts', Date.now());
+        jest.advanceTimersByTime(5999);
+        expect(lifecycle.get('channel1')?.state).toBe('active');
+
+        jest.advanceTimersByTime(1);
+        expect(lifecycle.get('channel1')).toMatchObject({ state: 'stalled', since: 11000 });
+
+        jest.advanceTimersByTime(4000);
+        lifecycle.recordSegment('channel1', 'seg_2.ts', Date.now());
+
+        expect(lifecycle.get('channel1')).toMatchObject({ state: 'recovered', since: 15000 });
+        expect(states()).toEqual(['idle', 'active', 'stalled', 'recovered']);
+    });
+
+    it('should end only when every media playlist of the channel has #EXT-X-ENDLIST', () => {
+        lifecycle.recordPlaylist('channel1', 'channel1/video.m3u8', 2, false, Date.now());
+        lifecycle.recordPlaylist('channel1', 'channel1/audio.m3u8', 2, false, Date.now());
+
+        lifecycle.recordPlaylist('channel1', 'channel1/video.m3u8', 2, true, Date.now());
+        expect(lifecycle.get('channel1')?.state).toBe('active');
+
+        lifecycle.recordPlaylist('channel1', 'channel1/audio.m3u8', 2, true, Date.now());
+        expect(lifecycle.get('channel1')?.state).toBe('ended');
+
+        // 종료 후 도착한 마지막 세그먼트는 상태를 바꾸지 않고, 정체 검사도 하지 않음
+        lifecycle.recordSegment('channel1', 'seg_9.ts', Date.now());
+        jest.advanceTimersByTime(60000);
+        expect(lifecycle.get('channel1')?.state).toBe('ended');
+
+        lifecycle.recordPlaylist('channel1', 'channel1/video.m3u8', 2, false, Date.now());
+        expect(states()).toEqual(['idle', 'active', 'ended', 'active']);
+    });
+
+    it('should reset channels back to idle with a new history', () => {
+        lifecycle.recordPlaylist('channel1', 'channel1/index.m3u8', 2, false, Date.now());
+        lifecycle.recordPlaylist('channel2', 'channel2/index.m3u8', 2, false, Date.now());
+
+        lifecycle.reset('channel1');
+        jest.advanceTimersByTime(60000);
+
+        expect(states('channel1')).toEqual(['idle']);
+        expect(lifecycle.get('channel2')?.state).toBe('stalled');
+    });
+});
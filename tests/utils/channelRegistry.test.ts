@@ -0,0 +1,89 @@
+import express from 'express';
+import http from 'http';
+import { AddressInfo } from 'net';
+import { ChannelRegistry, ChannelRegistryError } from '../../src/utils/channelRegistry';
+import { IngestAuthenticator } from '../../src/utils/ingestAuth';
+
+describe('Channel Registry', () => {
+    let authenticator: IngestAuthenticator;
+    let registry: ChannelRegistry;
+
+    beforeEach(() => {
+        authenticator = new IngestAuthenticator({ realm: 'MediaPackage', nonceTtlSeconds: 300, channels: {} });
+        registry = new ChannelRegistry({ requireProvisionedChannels: true, ingestAuthenticator: authenticator });
+    });
+
+    it('should create a channel with two digest-protected ingest endpoints', () => {
+        const channel = registry.create('channel1', 'test channel', { env: 'dev' });
+        const description = registry.describe(channel, 'http://localhost:3001');
+
+        expect(description.id).toBe('channel1');
+        expect(description.description).toBe('test channel');
+        expect(description.tags).toEqual({ env: 'dev' });
+        expect(description.arn).toMatch(/^arn:aws:mediapackage:/);
+        expect(description.hlsIngest.ingestEndpoints).toHaveLength(2);
+
+        for (const endpoint of description.hlsIngest.ingestEndpoints) {
+            expect(endpoint.url).toBe(`http://localhost:3001/in/v2/channel1/${endpoint.id}/channel`);
+            expect(authenticator.getCredentials('channel1', endpoint.id)).toEqual({
+                username: endpoint.username,
+                password: endpoint.password,
+                scheme: 'digest'
+            });
+        }
+    });
+
+    it('should reject invalid or duplicate channel ids', () => {
+        registry.create('channel1');
+
+        expect(() => registry.create('channel1')).toThrow(ChannelRegistryError);
+        expect(() => registry.create('bad/id')).toThrow(ChannelRegistryError);
+        expect(() => registry.create(undefined)).toThrow(ChannelRegistryError);
+    });
+
+    it('should remove ingest credentials when a channel is deleted', () => {
+        const channel = registry.create('channel1');
+        const endpointId = channel.ingestEndpoints[0].id;
+
+        registry.delete('channel1');
+
+        expect(registry.has('channel1')).toBe(false);
+        expect(authenticator.getCredentials('channel1', endpointId)).toBeUndefined();
+        expect(() => registry.get('channel1')).toThrow(expect.objectContaining({ statusCode: 404 }));
+    });
+
+    describe('middleware', () => {
+        let server: http.Server;
+        let baseUrl: string;
+
+        beforeEach(async () => {
+            const app = express();
+            app.use(registry.middleware());
+            app.put('*', (req, res) => {
+                req.resume();
+                res.status(200).send('OK');
+            });
+
+            server = app.listen(0);
+            await new Promise(resolve => server.once('listening', resolve));
+            baseUrl = `http://127.0.0.1:${(server.address() as AddressInfo).port}`;
+        });
+
+        afterEach(async () => {
+            await new Promise(resolve => server.close(resolve));
+        });
+
+        it('should only accept ingest for provisioned channels and endpoints', async () => {
+            const channel = registry.create('channel1');
+            const endpointId = channel.ingestEndpoints[0].id;
+
+            const known = await fetch(`${baseUrl}/in/v2/channel1/${endpointId}/channel`, { method: 'PUT', body: '#EXTM3U' });
+            const unknownEndpoint = await fetch(`${baseUrl}/in/v2/channel1/unknown/channel`, { method: 'PUT', body: '#EXTM3U' });
+            const unknownChannel = await fetch(`${baseUrl}/live/channel2/playlist.m3u8`, { method: 'PUT', body: '#EXTM3U' });
+
+            expect(known.status).toBe(200);
+            expect(unknownEndpoint.status).toBe(404);
+            expect(unknownChannel.status).toBe(404);
+        });
+    });
+});
@@ -0,0 +1,53 @@
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import { CleanupManager } from '../../src/utils/cleanupManager';
+import { SegmentInfo } from '../../src/types';
+import { createTrackingInfo, segmentsBySequence, segmentsByUri, silentLogger } from '../helpers';
+
+describe('Cleanup Manager', () => {
+    let storagePath: string;
+
+    const writeOldFile = (relativePath: string) => {
+        const filePath = path.join(storagePath, relativePath);
+        fs.mkdirSync(path.dirname(filePath), { recursive: true });
+        fs.writeFileSync(filePath, 'data');
+        const twoHoursAgo = new Date(Date.now() - 2 * 60 * 60 * 1000);
+        fs.utimesSync(filePath, twoHoursAgo, twoHoursAgo);
+        return filePath;
+    };
+
+    beforeEach(() => {
+        storagePath = fs.mkdtempSync(path.join(os.tmpdir(), 'cleanup-manager-'));
+    });
+
+    afterEach(() => {
+        fs.rmSync(storagePath, { recursive: true, force: true });
+    });
+
+    it('should remove old segment files but keep files a tracked playlist still references', () => {
+        const init: SegmentInfo = { uri: 'video/init.mp4', duration: 0, kind: 'init', received: true };
+        const current: SegmentInfo = { uri: 'video/seg_2.m4s', duration: 6, mediaSequence: 2, received: true, state: 'received' };
+        const streamTracker = new Map([
+            ['channel1/video/index.m3u8', createTrackingInfo({ segments: segmentsByUri([init, current]), ledger: segmentsBySequence([current]) })],
+            ['channel2/1/index.m3u8', createTrackingInfo({ channelId: 'channel2', redundantId: '1', segments: segmentsByUri([{ ...init, uri: 'init.mp4' }]) })]
+        ]);
+        const initPath = writeOldFile('channel1/video/init.mp4');
+        const currentPath = writeOldFile('channel1/video/seg_2.m4s');
+        const expiredPath = writeOldFile('channel1/video/seg_1.m4s');
+        const pipelineInitPath = writeOldFile('channel2/1/init.mp4');
+        const otherPipelineInitPath = writeOldFile('channel2/0/init.mp4');
+        const playlistPath = writeOldFile('channel1/video/index.m3u8');
+
+        const cleanupManager = new CleanupManager(storagePath, { isEnabled: true, retentionPeriodMs: 60 * 60 * 1000, streamTracker, loggerInstance: silentLogger });
+        cleanupManager.start();
+        cleanupManager.stop();
+
+        expect(fs.existsSync(initPath)).toBe(true);
+        expect(fs.existsSync(currentPath)).toBe(true);
+        expect(fs.existsSync(pipelineInitPath)).toBe(true);
+        expect(fs.existsSync(playlistPath)).toBe(true);
+        expect(fs.existsSync(expiredPath)).toBe(false);
+        expect(fs.existsSync(otherPipelineInitPath)).toBe(false);
+    });
+});
@@ -0,0 +1,71 @@
+import { IngestEventBus, IngestEvents } from '../../src/utils/eventBus';
+import { ChannelLifecycleTracker } from '../../src/utils/channelLifecycle';
+import { silentLogger } from '../helpers';
+
+const expiredEvent: IngestEvents['segment-expired'] = {
+    channelId: 'channel1',
+    at: 1000,
+    m3u8Key: 'channel1/index.m3u8',
+    m3u8Uri: '/live/channel1/index.m3u8',
+    uri: 'seg_1.ts',
+    mediaSequence: 1
+};
+
+describe('Ingest Event Bus', () => {
+    let eventBus: IngestEventBus;
+
+    beforeEach(() => {
+        eventBus = new IngestEventBus(silentLogger);
+    });
+
+    it('should deliver events only to listeners of that event until they unsubscribe', () => {
+        const expired = jest.fn();
+        const late = jest.fn();
+        const unsubscribe = eventBus.on('segment-expired', expired);
+        eventBus.on('segment-late', late);
+
+        eventBus.emit('segment-expired', expiredEvent);
+        unsubscribe();
+        eventBus.emit('segment-expired', expiredEvent);
+
+        expect(expired).toHaveBeenCalledTimes(1);
+        expect(expired).toHaveBeenCalledWith(expiredEvent);
+        expect(late).not.toHaveBeenCalled();
+    });
+
+    it('should deliver every event with its name to onAny listeners', () => {
+        const received: string[] = [];
+        eventBus.onAny(event => received.push(event));
+
+        eventBus.emit('segment-expired', expiredEvent);
+        eventBus.emit('channel-state-changed', { channelId: 'channel1', at: 1000, from: 'idle', state: 'active', reason: 'first upload' });
+
+        expect(received).toEqual(['segment-expired', 'channel-state-changed']);
+    });
+
+    it('should keep delivering to other listeners when one throws', () => {
+        const after = jest.fn();
+        const any = jest.fn();
+        eventBus.on('segment-expired', () => { throw new Error('plugin failure'); });
+        eventBus.on('segment-expired', after);
+        eventBus.onAny(any);
+
+        expect(() => eventBus.emit('segment-expired', expiredEvent)).not.toThrow();
+        expect(after).toHaveBeenCalledTimes(1);
+        expect(any).toHaveBeenCalledWith('segment-expired', expiredEvent);
+    });
+
+    it('should publish channel state transitions from the lifecycle tracker', () => {
+        jest.useFakeTimers({ now: 0 });
+        const lifecycle = new ChannelLifecycleTracker(3, silentLogger, { eventBus });
+        const transitions: string[] = [];
+        eventBus.on('channel-state-changed', ({ from, state }) => transitions.push(`${from}->${state}`));
+
+        lifecycle.recordPlaylist('channel1', 'channel1/index.m3u8', 2, false, Date.now());
+        jest.advanceTimersByTime(6000);
+
+        expect(transitions).toEqual(['idle->active', 'active->stalled']);
+        lifecycle.stop();
+        jest.useRealTimers();
+    });
+});
@@ -0,0 +1,137 @@
+import { EventEmitter } from 'events';
+import { NextFunction, Request, Response } from 'express';
+import { FaultRule } from '../../src/utils/configLoader';
+import { FaultInjector, FaultRuleError, validateFaultRule } from '../../src/utils/faultInjector';
+import { silentLogger } from '../helpers';
+
+function createRequest(urlPath: string) {
+    const req = Object.assign(new EventEmitter(), {
+        method: 'PUT',
+        path: urlPath,
+        originalUrl: urlPath,
+        resume: jest.fn(),
+        socket: { destroy: jest.fn() }
+    });
+    return req;
+}
+
+function createResponse() {
+    return { status: jest.fn().mockReturnThis(), send: jest.fn() };
+}
+
+describe('Fault Injector', () => {
+    const send = (injector: FaultInjector, urlPath = '/live/channel1/seg_1.ts') => {
+        const req = createRequest(urlPath);
+        const res = createResponse();
+        const next = jest.fn() as NextFunction;
+        injector.middleware()(req as unknown as Request, res as unknown as Response, next);
+        return { req, res, next };
+    };
+
+    const createInjector = (rules: FaultRule[]) => new FaultInjector({ enabled: true, rules }, silentLogger);
+
+    afterEach(() => {
+        jest.restoreAllMocks();
+        jest.useRealTimers();
+    });
+
+    it('should answer with one of the configured status codes for error faults', () => {
+        const injector = createInjector([{ errorRate: 1, errorStatusCodes: [503] }]);
+
+        const { req, res, next } = send(injector);
+
+        expect(res.status).toHaveBeenCalledWith(503);
+        expect(req.resume).toHaveBeenCalled();
+        expect(next).not.toHaveBeenCalled();
+        expect(injector.getSummary('channel1').byType.error).toBe(1);
+        expect(injector.wasUploadFailureInjected('channel1', undefined, 'seg_1.ts')).toBe(true);
+    });
+
+    it('should treat errorRate as a probability bounded by 0 and 1', () => {
+        jest.spyOn(Math, 'random').mockReturnValue(0.5);
+
+        expect(send(createInjector([{ errorRate: 0 }])).next).toHaveBeenCalled();
+        expect(send(createInjector([{ errorRate: 0.4 }])).next).toHaveBeenCalled();
+        expect(send(createInjector([{ errorRate: 0.6 }])).res.status).toHaveBeenCalled();
+        expect(send(createInjector([{ errorRate: 1 }])).res.status).toHaveBeenCalled();
+    });
+
+    it('should delay requests for latency faults without counting them as failed uploads', () => {
+        jest.useFakeTimers();
+        const injector = createInjector([{ latencyMs: 500 }]);
+
+        const { next } = send(injector);
+        jest.advanceTimersByTime(499);
+        expect(next).not.toHaveBeenCalled();
+        jest.advanceTimersByTime(1);
+
+        expect(next).toHaveBeenCalled();
+        expect(injector.getSummary('channel1').byType.latency).toBe(1);
+        expect(injector.wasUploadFailureInjected('channel1', undefined, 'seg_1.ts')).toBe(false);
+    });
+
+    it('should drop the connection once the body starts for drop faults', () => {
+        const injector = createInjector([{ dropConnectionRate: 1 }]);
+
+        const { req, next } = send(injector);
+        req.emit('data', Buffer.alloc(10));
+
+        expect(req.socket.destroy).toHaveBeenCalled();
+        expect(next).not.toHaveBeenCalled();
+        expect(injector.getSummary('channel1').byType.drop).toBe(1);
+    });
+
+    it('should reject every Nth segment of a channel but not playlists', () => {
+        const injector = createInjector([{ rejectNthSegment: 3, errorStatusCodes: [500] }]);
+
+        const statuses = [1, 2, 3, 4, 5, 6].map(n => send(injector, `/live/channel1/seg_${n}.ts`).res.status.mock.calls[0]?.[0]);
+        expect(statuses).toEqual([undefined, undefined, 500, undefined, undefined, 500]);
+        expect(send(injector, '/live/channel1/index.m3u8').next).toHaveBeenCalled();
+        expect(injector.getSummary('channel1').byType.reject).toBe(2);
+    });
+
+    it('should apply only rules matching the channel and file type', () => {
+        const injector = createInjector([{ channel: 'channel2', errorRate: 1 }, { fileType: 'playlist', errorRate: 1 }]);
+
+        expect(send(injector, '/live/channel1/seg_1.ts').next).toHaveBeenCalled();
+        expect(send(injector, '/live/channel2/seg_1.ts').res.status).toHaveBeenCalled();
+        expect(send(injector, '/live/channel1/index.m3u8').res.status).toHaveBeenCalled();
+    });
+
+    it('should reject invalid rules with the index of the offending rule', () => {
+        const invalidRules: unknown[] = [
+            { errorRate: 1.5 },
+            { errorRate: -0.1 },
+            { dropConnectionRate: '0.5' },
+            { latencyMs: Number.NaN },
+            { latencyMs: -1 },
+            { rejectNthSegment: 0 },
+            { errorStatusCodes: [200] },
+            { fileType: 'video' },
+            { channel: '' },
+            { probability: 0.5 },
+            'error'
+        ];
+        for (const rule of invalidRules) {
+            expect(() => validateFaultRule(rule, 2)).toThrow(FaultRuleError);
+        }
+
+        const injector = createInjector([{ errorRate: 0.5 }]);
+        let thrown: unknown;
+        try {
+            injector.updateConfig({ rules: [{ errorRate: 0.1 }, { errorRate: 2 }] });
+        } catch (error) {
+            thrown = error;
+        }
+        expect(thrown).toBeInstanceOf(FaultRuleError);
+        expect((thrown as FaultRuleError).ruleIndex).toBe(1);
+        // 잘못된 설정은 적용되지 않음
+        expect(injector.getConfig().rules).toEqual([{ errorRate: 0.5 }]);
+    });
+
+    it('should ignore invalid rules from the configuration file', () => {
+        const injector = new FaultInjector({ enabled: true, rules: [{ errorRate: 3 }, { latencyMs: 100 }] as FaultRule[] }, silentLogger);
+
+        expect(injector.getConfig().rules).toEqual([{ latencyMs: 100 }]);
+    });
+});
@@ -0,0 +1,152 @@
+import { parsePlaylist } from '../../src/utils/m3u8Parser';
+import { HlsValidator } from '../../src/utils/hlsValidator';
+import { silentLogger } from '../helpers';
+
+function mediaPlaylist(options: {
+    mediaSequence?: number;
+    discontinuitySequence?: number;
+    segments: Array<[string, string]>;  // [EXTINF value, URI] - URI '#DISCONTINUITY' inserts a discontinuity tag
+    header?: string[];
+}): string {
+    return [
+        '#EXTM3U',
+        ...(options.header || ['#EXT-X-VERSION:3', '#EXT-X-TARGETDURATION:6']),
+        `#EXT-X-MEDIA-SEQUENCE:${options.mediaSequence ?? 0}`,
+        ...(options.discontinuitySequence !== undefined ? [`#EXT-X-DISCONTINUITY-SEQUENCE:${options.discontinuitySequence}`] : []),
+        ...options.segments.flatMap(([duration, uri]) => uri === '#DISCONTINUITY'
+            ? ['#EXT-X-DISCONTINUITY']
+            : [`#EXTINF:${duration},`, uri])
+    ].join('\n');
+}
+
+// 검사 후 수락된 것으로 간주하고 스냅샷 반영
+function validate(validator: HlsValidator, content: string, key = 'channel1/index.m3u8') {
+    const { violations, snapshot } = validator.validate(key, '/live/channel1/index.m3u8', 'channel1', undefined, content, parsePlaylist(content));
+    validator.commit(key, snapshot);
+    return violations;
+}
+
+describe('HLS Validator', () => {
+    let validator: HlsValidator;
+
+    beforeEach(() => {
+        validator = new HlsValidator(silentLogger);
+    });
+
+    it('should accept a conformant playlist', () => {
+        const content = mediaPlaylist({ segments: [['6.000', 'seg0.ts'], ['5.500', 'seg1.ts']] });
+
+        expect(validate(validator, content)).toEqual([]);
+        expect(validator.getViolations('channel1')).toEqual([]);
+    });
+
+    it('should require #EXTM3U on the first line', () => {
+        const content = mediaPlaylist({ segments: [['6.000', 'seg0.ts']] }).replace('#EXTM3U\n', '');
+
+        expect(validate(validator, content).map(violation => violation.rule)).toEqual(['missing-extm3u']);
+    });
+
+    it('should flag EXTINF durations exceeding the target duration after rounding', () => {
+        const content = mediaPlaylist({ segments: [['6.499', 'seg0.ts'], ['6.500', 'seg1.ts']] });
+
+        const violations = validate(validator, content);
+
+        expect(violations).toHaveLength(1);
+        expect(violations[0].rule).toBe('extinf-exceeds-target-duration');
+        expect(violations[0].message).toContain('seg1.ts');
+        expect(violations[0].lineNumber).toBe(8);
+    });
+
+    it('should flag features that need a higher EXT-X-VERSION', () => {
+        const floatWithoutVersion = mediaPlaylist({
+            header: ['#EXT-X-TARGETDURATION:6'],
+            segments: [['5.5', 'seg0.ts']]
+        });
+        const mapWithVersion5 = mediaPlaylist({
+            header: ['#EXT-X-VERSION:5', '#EXT-X-TARGETDURATION:6', '#EXT-X-MAP:URI="init.mp4"'],
+            segments: [['6', 'seg0.m4s']]
+        });
+
+        expect(validate(validator, floatWithoutVersion, 'channel1/a.m3u8')[0].message).toContain('requires EXT-X-VERSION 3');
+        expect(validate(validator, mapWithVersion5, 'channel1/b.m3u8')[0].message).toContain('requires EXT-X-VERSION 6');
+    });
+
+    it('should flag a decreasing media sequence', () => {
+        validate(validator, mediaPlaylist({ mediaSequence: 10, segments: [['6.000', 'seg10.ts']] }));
+
+        const violations = validate(validator, mediaPlaylist({ mediaSequence: 9, segments: [['6.000', 'seg9.ts']] }));
+
+        expect(violations.map(violation => violation.rule)).toEqual(['media-sequence-decreased']);
+        expect(violations[0].playlistRevision).toBe(2);
+    });
+
+    it('should flag published segments that change URI or duration', () => {
+        validate(validator, mediaPlaylist({ mediaSequence: 10, segments: [['6.000', 'seg10.ts'], ['6.000', 'seg11.ts']] }));
+
+        const violations = validate(validator, mediaPlaylist({
+            mediaSequence: 11,
+            segments: [['5.000', 'seg11.ts'], ['6.000', 'seg12.ts']]
+        }));
+
+        expect(violations.map(violation => violation.rule)).toEqual(['segment-changed']);
+        expect(violations[0].message).toContain('Media sequence 11');
+    });
+
+    it('should flag a discontinuity sequence that is not advanced when a discontinuity leaves the window', () => {
+        validate(validator, mediaPlaylist({
+            mediaSequence: 10,
+            segments: [['6.000', 'seg10.ts'], ['', '#DISCONTINUITY'], ['6.000', 'seg11.ts'], ['6.000', 'seg12.ts']]
+        }));
+
+        const stale = validate(validator, mediaPlaylist({
+            mediaSequence: 11,
+            segments: [['', '#DISCONTINUITY'], ['6.000', 'seg11.ts'], ['6.000', 'seg12.ts']]
+        }), 'channel1/index.m3u8');
+        expect(stale).toEqual([]);
+
+        const violations = validate(validator, mediaPlaylist({
+            mediaSequence: 12,
+            segments: [['6.000', 'seg12.ts'], ['6.000', 'seg13.ts']]
+        }));
+
+        expect(violations.map(violation => violation.rule)).toEqual(['discontinuity-sequence']);
+    });
+
+    it('should accept a discontinuity sequence advanced with the window', () => {
+        validate(validator, mediaPlaylist({
+            mediaSequence: 10,
+            segments: [['6.000', 'seg10.ts'], ['', '#DISCONTINUITY'], ['6.000', 'seg11.ts']]
+        }));
+
+        expect(validate(validator, mediaPlaylist({
+            mediaSequence: 11,
+            discontinuitySequence: 1,
+            segments: [['6.000', 'seg11.ts'], ['6.000', 'seg12.ts']]
+        }))).toEqual([]);
+    });
+
+    it('should store violations per channel with the offending playlist revision', () => {
+        const content = mediaPlaylist({ segments: [['9.000', 'seg0.ts']] });
+        validate(validator, mediaPlaylist({ segments: [['6.000', 'seg0.ts']] }), 'channel1/other.m3u8');
+        validate(validator, content, 'channel1/index.m3u8');
+
+        const records = validator.getViolations('channel1');
+
+        expect(records).toHaveLength(1);
+        expect(records[0].playlist).toBe(content);
+        expect(records[0].violations[0]).toMatchObject({ channelId: 'channel1', playlistRevision: 1 });
+        expect(validator.getRuleCounts('channel1')).toEqual({ 'extinf-exceeds-target-duration': 1 });
+    });
+
+    it('should compare against the last committed revision rather than a rejected one', () => {
+        validate(validator, mediaPlaylist({ mediaSequence: 10, segments: [['6.000', 'seg10.ts'], ['6.000', 'seg11.ts']] }));
+        const rejectedContent = mediaPlaylist({ mediaSequence: 11, segments: [['6.000', 'seg11-bad.ts']] });
+        const rejected = validator.validate('channel1/index.m3u8', '/live/channel1/index.m3u8', 'channel1', undefined, rejectedContent, parsePlaylist(rejectedContent));
+        expect(rejected.violations.map(violation => violation.rule)).toEqual(['segment-changed']);
+
+        const violations = validate(validator, mediaPlaylist({ mediaSequence: 11, segments: [['6.000', 'seg11.ts'], ['6.000', 'seg12.ts']] }));
+
+        expect(violations).toEqual([]);
+        expect(validate(validator, mediaPlaylist({ mediaSequence: 9, segments: [['6.000', 'seg9.ts']] }))[0].playlistRevision).toBe(4);
+    });
+});
@@ -0,0 +1,96 @@
+import express from 'express';
+import http from 'http';
+import crypto from 'crypto';
+import { AddressInfo } from 'net';
+import { IngestAuthenticator, parseDigestParams } from '../../src/utils/ingestAuth';
+
+const md5 = (value: string) => crypto.createHash('md5').update(value).digest('hex');
+
+describe('Ingest Authenticator', () => {
+    let server: http.Server;
+    let baseUrl: string;
+    let authenticator: IngestAuthenticator;
+
+    beforeEach(async () => {
+        authenticator = new IngestAuthenticator({
+            realm: 'MediaPackage',
+            nonceTtlSeconds: 300,
+            channels: {
+                basicChannel: { username: 'encoder', password: 'secret', scheme: 'basic' },
+                digestChannel: { username: 'encoder', password: 'secret', scheme: 'digest' }
+            }
+        });
+
+        const app = express();
+        app.use(authenticator.middleware());
+        app.put('*', (req, res) => {
+            req.resume();
+            res.status(200).send('OK');
+        });
+
+        server = app.listen(0);
+        await new Promise(resolve => server.once('listening', resolve));
+        baseUrl = `http://127.0.0.1:${(server.address() as AddressInfo).port}`;
+    });
+
+    afterEach(async () => {
+        await new Promise(resolve => server.close(resolve));
+    });
+
+    it('should accept channels without credentials', async () => {
+        const response = await fetch(`${baseUrl}/live/openChannel/segment1.ts`, { method: 'PUT', body: 'data' });
+        expect(response.status).toBe(200);
+    });
+
+    it('should challenge and verify Basic credentials', async () => {
+        const url = `${baseUrl}/live/basicChannel/segment1.ts`;
+
+        const challenge = await fetch(url, { method: 'PUT', body: 'data' });
+        expect(challenge.status).toBe(401);
+        expect(challenge.headers.get('www-authenticate')).toBe('Basic realm="MediaPackage"');
+
+        const wrong = await fetch(url, {
+            method: 'PUT',
+            body: 'data',
+            headers: { Authorization: `Basic ${Buffer.from('encoder:wrong').toString('base64')}` }
+        });
+        expect(wrong.status).toBe(401);
+
+        const ok = await fetch(url, {
+            method: 'PUT',
+            body: 'data',
+            headers: { Authorization: `Basic ${Buffer.from('encoder:secret').toString('base64')}` }
+        });
+        expect(ok.status).toBe(200);
+
+        expect(authenticator.getStats().get('basicChannel')).toMatchObject({ failures: 1, challenges: 1 });
+    });
+
+    it('should complete a Digest challenge/response', async () => {
+        const uri = '/in/v2/digestChannel/A/channel';
+
+        const challenge = await fetch(`${baseUrl}${uri}`, { method: 'PUT', body: 'data' });
+        expect(challenge.status).toBe(401);
+        const params = parseDigestParams(challenge.headers.get('www-authenticate') || '');
+        expect(params.realm).toBe('MediaPackage');
+        expect(params.nonce).toBeDefined();
+
+        const cnonce = 'abcdef';
+        const nc = '00000001';
+        const ha1 = md5(`encoder:MediaPackage:secret`);
+        const ha2 = md5(`PUT:${uri}`);
+        const response = md5(`${ha1}:${params.nonce}:${nc}:${cnonce}:auth:${ha2}`);
+        const authorization = `Digest username="encoder", realm="MediaPackage", nonce="${params.nonce}", uri="${uri}", qop=auth, nc=${nc}, cnonce="${cnonce}", response="${response}", opaque="${params.opaque}"`;
+
+        const ok = await fetch(`${baseUrl}${uri}`, { method: 'PUT', body: 'data', headers: { Authorization: authorization } });
+        expect(ok.status).toBe(200);
+
+        const basic = await fetch(`${baseUrl}${uri}`, {
+            method: 'PUT',
+            body: 'data',
+            headers: { Authorization: `Basic ${Buffer.from('encoder:secret').toString('base64')}` }
+        });
+        expect(basic.status).toBe(401);
+        expect(authenticator.getStats().get('digestChannel')?.failures).toBe(1);
+    });
+});
@@ -0,0 +1,27 @@
+import { parseIngestPath, resolveSegmentPath, isOutsidePipelineRoot } from '../../src/utils/ingestPath';
+
+describe('Ingest Path', () => {
+    const livePlaylist = parseIngestPath('/live/channel1/video/index.m3u8')!;
+    const v2Playlist = parseIngestPath('/in/v2/channel1/A/channel')!;
+
+    it('should resolve relative segment URIs against the playlist directory', () => {
+        expect(resolveSegmentPath(livePlaylist, 'segment_1.ts')).toBe('video/segment_1.ts');
+        expect(resolveSegmentPath(livePlaylist, '../audio/segment_1.aac')).toBe('audio/segment_1.aac');
+        expect(resolveSegmentPath(v2Playlist, 'channel_845548_23.ts')).toBe('channel_845548_23.ts');
+    });
+
+    it('should resolve absolute URIs relative to the channel or pipeline root', () => {
+        expect(resolveSegmentPath(livePlaylist, '/live/channel1/video/segment_1.ts')).toBe('video/segment_1.ts');
+        expect(resolveSegmentPath(v2Playlist, 'https://example.com/in/v2/channel1/A/seg.ts?token=1')).toBe('seg.ts');
+        expect(isOutsidePipelineRoot(resolveSegmentPath(v2Playlist, '/in/v2/channel1/B/seg.ts'))).toBe(true);
+    });
+
+    it('should strip query strings from segment URIs', () => {
+        expect(resolveSegmentPath(livePlaylist, 'segment_1.ts?session=abc')).toBe('video/segment_1.ts');
+    });
+
+    it('should detect paths that escape the pipeline root', () => {
+        expect(isOutsidePipelineRoot(resolveSegmentPath(livePlaylist, '../../other/segment.ts'))).toBe(true);
+        expect(isOutsidePipelineRoot('video/segment.ts')).toBe(false);
+    });
+});
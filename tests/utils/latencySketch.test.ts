@@ -0,0 +1,64 @@
+import { IngestEventBus } from '../../src/utils/eventBus';
+import { LatencyPercentileTracker, QuantileSketch } from '../../src/utils/latencySketch';
+import { silentLogger } from '../helpers';
+
+describe('Latency Sketches', () => {
+    it('should estimate quantiles within the relative accuracy', () => {
+        const sketch = new QuantileSketch();
+        for (let value = 1; value <= 10000; value++) {
+            sketch.add(value);
+        }
+
+        expect(sketch.count).toBe(10000);
+        expect(Math.abs(sketch.quantile(0.5)! - 5000) / 5000).toBeLessThan(0.02);
+        expect(Math.abs(sketch.quantile(0.99)! - 9900) / 9900).toBeLessThan(0.02);
+    });
+
+    it('should keep the number of buckets bounded', () => {
+        const sketch = new QuantileSketch();
+        for (let exponent = 0; exponent < 3000; exponent++) {
+            sketch.add(Math.pow(1.05, exponent));
+        }
+
+        expect((sketch as unknown as { buckets: Map<number, number> }).buckets.size).toBeLessThanOrEqual(1024);
+        expect(sketch.quantile(1)).toBeGreaterThan(Math.pow(1.05, 2990));
+    });
+
+    it('should drop samples older than a rolling window but keep them in the session', () => {
+        const tracker = new LatencyPercentileTracker([60, 3600], silentLogger);
+        tracker.record('channel1/index.m3u8', 'channel1', 'transferDelay', 5000, 0);
+        tracker.record('channel1/index.m3u8', 'channel1', 'transferDelay', 100, 120000);
+
+        const percentiles = tracker.getPercentiles('channel1/index.m3u8', 125000)!.transferDelay;
+
+        expect(Object.keys(percentiles)).toEqual(['session', '1m', '1h']);
+        expect(percentiles.session!.count).toBe(2);
+        expect(percentiles['1m']!.count).toBe(1);
+        expect(Math.round(percentiles['1m']!.p99)).toBe(100);
+        expect(percentiles['1h']!.count).toBe(2);
+        expect(tracker.getPercentiles('channel1/index.m3u8', 1000000)!.transferDelay['1m']).toBeUndefined();
+    });
+
+    it('should record transfer delays, arrival intervals and playlist update intervals from ingest events', () => {
+        const eventBus = new IngestEventBus(silentLogger);
+        const tracker = new LatencyPercentileTracker([60], silentLogger, { eventBus });
+        const segment = { channelId: 'channel1', m3u8Key: 'channel1/index.m3u8', m3u8Uri: '/live/channel1/index.m3u8', state: 'received' as const, size: 1000 };
+        const playlist = { channelId: 'channel1', m3u8Key: 'channel1/index.m3u8', m3u8Uri: '/live/channel1/index.m3u8', targetDuration: 6, segmentCount: 3, endList: false };
+
+        eventBus.emit('playlist-updated', { ...playlist, at: 0 });
+        eventBus.emit('playlist-updated', { ...playlist, at: 6000 });
+        eventBus.emit('segment-received', { ...segment, at: 2000, uri: 'seg_1.ts', preAnnounced: false, transferDelayMs: 2000 });
+        eventBus.emit('segment-received', { ...segment, at: 8000, uri: 'seg_2.ts', preAnnounced: false, transferDelayMs: 2000 });
+        // 나중에 매칭된 선행 업로드는 전송 지연과 도착 간격에서 제외
+        eventBus.emit('segment-received', { ...segment, at: 7000, uri: 'seg_3.ts', preAnnounced: true });
+
+        const percentiles = tracker.getPercentiles('channel1/index.m3u8', 9000)!;
+        expect(percentiles.transferDelay.session!.count).toBe(2);
+        expect(percentiles.arrivalInterval.session!.count).toBe(1);
+        expect(Math.abs(percentiles.arrivalInterval.session!.p50 - 6000) / 6000).toBeLessThan(0.02);
+        expect(percentiles.m3u8UpdateInterval['1m']!.count).toBe(1);
+
+        tracker.reset('channel1');
+        expect(tracker.getPercentiles('channel1/index.m3u8')).toBeUndefined();
+    });
+});
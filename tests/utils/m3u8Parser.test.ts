@@ -1,4 +1,4 @@
-import { parseM3u8 } from '../../src/utils/m3u8Parser';
+import { parseAttributeList, parseM3u8, parsePlaylist } from '../../src/utils/m3u8Parser';
 
 describe('M3U8 Parser', () => {
     const sampleM3u8 = `#EXTM3U
@@ -76,4 +76,160 @@ segment2.ts
             expect(result.segments.size).toBe(2);
         }
     });
-}); 
\ No newline at end of file
+
+    it('should track #EXT-X-MAP init segments separately from media segments', () => {
+        const cmafM3u8 = `#EXTM3U
+#EXT-X-VERSION:7
+#EXT-X-TARGETDURATION:6
+#EXT-X-MAP:URI="init.mp4"
+#EXTINF:6.0,
+segment1.m4s
+#EXTINF:6.0,
+segment2.m4s`;
+
+        const result = parseM3u8(cmafM3u8, '/live/channel1/playlist.m3u8', 'channel1');
+        expect(result).not.toBeNull();
+        if (result) {
+            expect(result.segments.size).toBe(3);
+            expect(result.segments.get('init.mp4')?.kind).toBe('init');
+            expect(result.segments.get('segment1.m4s')?.kind).toBe('media');
+            expect(result.segments.get('segment2.m4s')?.duration).toBe(6.0);
+        }
+    });
+});
+
+describe('HLS Playlist Model', () => {
+    it('should parse quoted attribute values containing commas', () => {
+        const attributes = parseAttributeList('BANDWIDTH=2010800,CODECS="avc1.64001f,mp4a.40.2",RESOLUTION=1280x720');
+
+        expect(attributes).toEqual({
+            BANDWIDTH: '2010800',
+            CODECS: 'avc1.64001f,mp4a.40.2',
+            RESOLUTION: '1280x720'
+        });
+    });
+
+    it('should parse media playlist tags into segments', () => {
+        const playlist = parsePlaylist(`#EXTM3U
+#EXT-X-VERSION:4
+#EXT-X-TARGETDURATION:6
+#EXT-X-MEDIA-SEQUENCE:100
+#EXT-X-DISCONTINUITY-SEQUENCE:3
+#EXT-X-PLAYLIST-TYPE:EVENT
+#EXT-X-KEY:METHOD=AES-128,URI="key.bin",IV=0x1234
+#EXT-X-PROGRAM-DATE-TIME:2025-01-01T00:00:00.000Z
+#EXTINF:6.0,first
+#EXT-X-BYTERANGE:1000@0
+media.ts
+#EXTINF:6.0,
+#EXT-X-BYTERANGE:500
+media.ts
+#EXT-X-DISCONTINUITY
+#EXT-X-KEY:METHOD=NONE
+#EXTINF:4.5,
+segment102.ts
+#EXT-X-ENDLIST`);
+
+        expect(playlist.type).toBe('media');
+        if (playlist.type !== 'media') {
+            return;
+        }
+        expect(playlist.version).toBe(4);
+        expect(playlist.targetDuration).toBe(6);
+        expect(playlist.mediaSequence).toBe(100);
+        expect(playlist.playlistType).toBe('EVENT');
+        expect(playlist.endList).toBe(true);
+        expect(playlist.segments).toHaveLength(3);
+
+        const [first, second, third] = playlist.segments;
+        expect(first.title).toBe('first');
+        expect(first.mediaSequence).toBe(100);
+        expect(first.programDateTime).toBe(Date.parse('2025-01-01T00:00:00.000Z'));
+        expect(first.byteRange).toEqual({ length: 1000, offset: 0 });
+        expect(first.key).toEqual({ method: 'AES-128', uri: 'key.bin', iv: '0x1234', keyFormat: undefined, keyFormatVersions: undefined });
+
+        expect(second.byteRange).toEqual({ length: 500, offset: 1000 });
+        expect(second.discontinuitySequence).toBe(3);
+
+        expect(third.mediaSequence).toBe(102);
+        expect(third.duration).toBe(4.5);
+        expect(third.discontinuity).toBe(true);
+        expect(third.discontinuitySequence).toBe(4);
+        expect(third.key).toBeUndefined();
+    });
+
+    it('should parse master playlist variants and renditions', () => {
+        const playlist = parsePlaylist(`#EXTM3U
+#EXT-X-INDEPENDENT-SEGMENTS
+#EXT-X-MEDIA:TYPE=AUDIO,GROUP-ID="aac",NAME="English",LANGUAGE="en",DEFAULT=YES,AUTOSELECT=YES,URI="audio.m3u8"
+#EXT-X-STREAM-INF:BANDWIDTH=2010800,AVERAGE-BANDWIDTH=1800000,CODECS="avc1.64001f,mp4a.40.2",RESOLUTION=1280x720,FRAME-RATE=29.970,AUDIO="aac"
+video_720.m3u8
+#EXT-X-I-FRAME-STREAM-INF:BANDWIDTH=200000,URI="iframe.m3u8"`);
+
+        expect(playlist.type).toBe('master');
+        if (playlist.type !== 'master') {
+            return;
+        }
+        expect(playlist.independentSegments).toBe(true);
+        expect(playlist.variants).toHaveLength(1);
+        expect(playlist.variants[0]).toMatchObject({
+            uri: 'video_720.m3u8',
+            bandwidth: 2010800,
+            averageBandwidth: 1800000,
+            codecs: 'avc1.64001f,mp4a.40.2',
+            resolution: { width: 1280, height: 720 },
+            frameRate: 29.97,
+            audio: 'aac'
+        });
+        expect(playlist.iFrameVariants[0].uri).toBe('iframe.m3u8');
+        expect(playlist.renditions[0]).toMatchObject({
+            type: 'AUDIO',
+            groupId: 'aac',
+            name: 'English',
+            language: 'en',
+            uri: 'audio.m3u8',
+            isDefault: true,
+            autoselect: true
+        });
+    });
+
+    it('should attach the playlist model to the tracking info', () => {
+        const result = parseM3u8(`#EXTM3U
+#EXT-X-TARGETDURATION:6
+#EXT-X-MEDIA-SEQUENCE:7
+#EXTINF:6.0,
+segment7.ts`, '/live/channel1/playlist.m3u8', 'channel1');
+
+        expect(result?.playlist?.type).toBe('media');
+        expect(result?.segments.get('segment7.ts')?.mediaSequence).toBe(7);
+    });
+});
+
+describe('Segment URI resolution', () => {
+    it('should register only the announced segments for MediaPackage v2 playlists', () => {
+        const result = parseM3u8(`#EXTM3U
+#EXT-X-TARGETDURATION:6
+#EXT-X-MEDIA-SEQUENCE:23
+#EXTINF:6.0,
+channel_845548_23.ts
+#EXTINF:6.0,
+channel_845548_24.ts`, '/in/v2/channel1/A/channel', 'channel1');
+
+        expect(result).not.toBeNull();
+        expect(Array.from(result!.segments.keys())).toEqual(['channel_845548_23.ts', 'channel_845548_24.ts']);
+    });
+
+    it('should key segments by their path relative to the channel root', () => {
+        const result = parseM3u8(`#EXTM3U
+#EXT-X-TARGETDURATION:6
+#EXT-X-MAP:URI="init.mp4"
+#EXTINF:6.0,
+segment1.m4s
+#EXTINF:6.0,
+https://origin.example.com/live/channel1/video/segment2.m4s?token=abc`, '/live/channel1/video/index.m3u8', 'channel1');
+
+        expect(result).not.toBeNull();
+        expect(Array.from(result!.segments.keys())).toEqual(['video/init.mp4', 'video/segment1.m4s', 'video/segment2.m4s']);
+        expect(result!.segments.get('video/segment1.m4s')?.uri).toBe('video/segment1.m4s');
+    });
+});
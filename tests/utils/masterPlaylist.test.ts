@@ -0,0 +1,83 @@
+import { M3u8TrackingInfo, MasterPlaylistInfo } from '../../src/types';
+import { parsePlaylist, parseM3u8 } from '../../src/utils/m3u8Parser';
+import { buildMasterPlaylistInfo, summarizeLadder } from '../../src/utils/masterPlaylist';
+import { addToSegmentTotals, createSegmentTotals } from '../../src/utils/segmentLedger';
+
+const masterContent = `#EXTM3U
+#EXT-X-MEDIA:TYPE=AUDIO,GROUP-ID="aac",NAME="English",LANGUAGE="en",DEFAULT=YES,URI="audio/index.m3u8"
+#EXT-X-MEDIA:TYPE=SUBTITLES,GROUP-ID="subs",NAME="English",URI="subs/index.m3u8"
+#EXT-X-STREAM-INF:BANDWIDTH=5000000,RESOLUTION=1920x1080,AUDIO="aac",SUBTITLES="subs"
+1080p/index.m3u8
+#EXT-X-STREAM-INF:BANDWIDTH=2000000,RESOLUTION=1280x720,AUDIO="aac",SUBTITLES="subs"
+720p/index.m3u8`;
+
+function mediaPlaylist(durations: number[]): string {
+    return [
+        '#EXTM3U',
+        '#EXT-X-TARGETDURATION:6',
+        '#EXT-X-MEDIA-SEQUENCE:10',
+        ...durations.flatMap((duration, index) => [`#EXTINF:${duration.toFixed(3)},`, `segment${10 + index}.ts`])
+    ].join('\n');
+}
+
+function createMaster(): MasterPlaylistInfo {
+    const playlist = parsePlaylist(masterContent);
+    if (playlist.type !== 'master') {
+        throw new Error('expected a master playlist');
+    }
+    return buildMasterPlaylistInfo(playlist, '/live/channel1/master.m3u8', 'channel1');
+}
+
+describe('Master Playlist', () => {
+    it('should link variants and renditions to media playlist trackers', () => {
+        const master = createMaster();
+
+        expect(master.renditions.map(rendition => [rendition.kind, rendition.trackingKey])).toEqual([
+            ['variant', 'channel1/1080p/index.m3u8'],
+            ['variant', 'channel1/720p/index.m3u8'],
+            ['audio', 'channel1/audio/index.m3u8'],
+            ['subtitles', 'channel1/subs/index.m3u8']
+        ]);
+    });
+
+    it('should not track master playlist variants as segments', () => {
+        expect(parseM3u8(masterContent, '/live/channel1/master.m3u8', 'channel1')).toBeNull();
+    });
+
+    it('should report renditions that were never uploaded and cross-rendition misalignment', () => {
+        const master = createMaster();
+        const streamTracker = new Map<string, M3u8TrackingInfo>();
+        streamTracker.set('channel1/1080p/index.m3u8', parseM3u8(mediaPlaylist([6, 6, 6]), '/live/channel1/1080p/index.m3u8', 'channel1')!);
+        streamTracker.set('channel1/720p/index.m3u8', parseM3u8(mediaPlaylist([6, 4, 6]), '/live/channel1/720p/index.m3u8', 'channel1')!);
+        streamTracker.set('channel1/audio/index.m3u8', parseM3u8(mediaPlaylist([6.02, 6, 5.98]), '/live/channel1/audio/index.m3u8', 'channel1')!);
+        streamTracker.get('channel1/1080p/index.m3u8')!.segments.get('1080p/segment10.ts')!.received = true;
+
+        const ladder = summarizeLadder(master, streamTracker);
+
+        expect(ladder.missingRenditions.map(rendition => rendition.uri)).toEqual(['subs/index.m3u8']);
+        expect(ladder.renditions[0]).toMatchObject({ uploaded: true, totalSegments: 3, receivedSegments: 1 });
+        expect(ladder.comparedRenditions).toHaveLength(3);
+        expect(ladder.alignment).toMatchObject({
+            overlapStart: 10,
+            overlapEnd: 12,
+            comparedSequences: 3,
+            alignedSequences: 2,
+            misalignedSequences: [11]
+        });
+    });
+
+    it('should count rendition segments over the whole session', () => {
+        const master = createMaster();
+        const trackingInfo = parseM3u8(mediaPlaylist([6, 6]), '/live/channel1/1080p/index.m3u8', 'channel1')!;
+        trackingInfo.compactedSegments = createSegmentTotals();
+        for (let sequence = 1; sequence <= 3; sequence++) {
+            addToSegmentTotals(trackingInfo.compactedSegments, { uri: `1080p/segment${sequence}.ts`, duration: 6, mediaSequence: sequence, received: true, state: 'expired' });
+        }
+        trackingInfo.segments.delete('1080p/segment10.ts');
+
+        const ladder = summarizeLadder(master, new Map([['channel1/1080p/index.m3u8', trackingInfo]]));
+
+        expect(ladder.renditions[0]).toMatchObject({ uploaded: true, totalSegments: 5, receivedSegments: 3 });
+        expect(ladder.renditions[1]).toMatchObject({ uploaded: false, totalSegments: 0, receivedSegments: 0 });
+    });
+});
@@ -0,0 +1,105 @@
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import { M3u8TrackingInfo, SegmentInfo } from '../../src/types';
+import { MetricsExporter } from '../../src/utils/metricsExporter';
+import { compactLedger } from '../../src/utils/segmentLedger';
+import { TrackerStore } from '../../src/utils/trackerStore';
+import { createTrackingInfo, segmentsBySequence, segmentsByUri, silentLogger } from '../helpers';
+
+function createExportedTrackingInfo(): M3u8TrackingInfo {
+    const init: SegmentInfo = { uri: 'init.mp4', duration: 0, kind: 'init', received: true, size: 500 };
+    const expired: SegmentInfo = { uri: 'seg_1.ts', duration: 6, mediaSequence: 1, received: false, state: 'expired', timeoutOccurred: true, expiredAt: 6000 };
+    const received: SegmentInfo = { uri: 'seg_2.ts', duration: 6, mediaSequence: 2, received: true, state: 'received', size: 1000, firstSeenAt: 1000, receivedAt: 1200, uploadDurationMs: 80, expiredAt: 12000 };
+    const late: SegmentInfo = { uri: 'seg_3.ts', duration: 6, mediaSequence: 3, received: true, state: 'late', timeoutOccurred: true, size: 2000, firstSeenAt: 7000, receivedAt: 15200, uploadDurationMs: 300, arrivalIntervalMs: 14000 };
+    const pending: SegmentInfo = { uri: 'seg_4.ts', duration: 6, mediaSequence: 4, received: false, state: 'announced', firstSeenAt: 13000 };
+    return createTrackingInfo({
+        segments: segmentsByUri([init, late, pending]),
+        ledger: segmentsBySequence([expired, received, late, pending]),
+        receivedAt: 13000,
+        lastSegmentReceivedTime: 15200,
+        previousM3u8Updates: [13000, 7000, 1000],
+        timeoutEvents: 2,
+        maxSuccessiveTimeouts: 1,
+        segmentArrivalIntervals: [14000]
+    });
+}
+
+describe('Prometheus Metrics Exporter', () => {
+    const labels = 'channel="channel1",pipeline="",playlist="/live/channel1/index.m3u8"';
+    let exporter: MetricsExporter;
+    let streamTracker: Map<string, M3u8TrackingInfo>;
+    let metrics: string;
+
+    beforeEach(() => {
+        exporter = new MetricsExporter(silentLogger);
+        streamTracker = new Map([['channel1/index.m3u8', createExportedTrackingInfo()]]);
+        metrics = exporter.render(streamTracker, 20000);
+    });
+
+    it('should expose segment, byte and timeout counters for the session', () => {
+        expect(metrics).toContain('# TYPE mp_mock_segments_announced_total counter');
+        expect(metrics).toContain(`mp_mock_segments_announced_total{${labels}} 4`);
+        expect(metrics).toContain(`mp_mock_segments_received_total{${labels}} 2`);
+        expect(metrics).toContain(`mp_mock_segments_late_total{${labels}} 1`);
+        expect(metrics).toContain(`mp_mock_segments_missed_total{${labels}} 2`);
+        expect(metrics).toContain(`mp_mock_received_bytes_total{${labels}} 3000`);
+        expect(metrics).toContain(`mp_mock_timeout_events_total{${labels}} 2`);
+        expect(metrics).not.toContain('deadline_missed');
+    });
+
+    it('should expose cumulative histograms in seconds', () => {
+        expect(metrics).toContain('# TYPE mp_mock_segment_transfer_delay_seconds histogram');
+        expect(metrics).toContain(`mp_mock_segment_transfer_delay_seconds_bucket{${labels},le="0.25"} 1`);
+        expect(metrics).toContain(`mp_mock_segment_transfer_delay_seconds_bucket{${labels},le="10"} 2`);
+        expect(metrics).toContain(`mp_mock_segment_transfer_delay_seconds_sum{${labels}} 8.4`);
+        expect(metrics).toContain(`mp_mock_segment_arrival_interval_seconds_bucket{${labels},le="+Inf"} 1`);
+        expect(metrics).toContain(`mp_mock_segment_arrival_interval_seconds_sum{${labels}} 14`);
+        expect(metrics).toContain(`mp_mock_segment_upload_duration_seconds_bucket{${labels},le="0.1"} 1`);
+        expect(metrics).toContain(`mp_mock_segment_upload_duration_seconds_count{${labels}} 2`);
+    });
+
+    it('should expose time since the last playlist and segment', () => {
+        expect(metrics).toContain(`mp_mock_seconds_since_last_playlist{${labels}} 7`);
+        expect(metrics).toContain(`mp_mock_seconds_since_last_segment{${labels}} 4.8`);
+    });
+
+    it('should expose missing segments as a gauge next to a monotonic missed counter', () => {
+        expect(metrics).toContain('# TYPE mp_mock_segments_missing gauge');
+        expect(metrics).toContain(`mp_mock_segments_missing{${labels}} 1`);
+
+        // 윈도우에서 빠진 뒤 늦게 도착 - 게이지는 줄고 누락 카운터는 유지
+        const trackingInfo = streamTracker.get('channel1/index.m3u8')!;
+        Object.assign(trackingInfo.ledger.get(1)!, { received: true, state: 'late', receivedAt: 19000, size: 1000, arrivalIntervalMs: 3800 });
+
+        const updated = exporter.render(streamTracker, 20000);
+        expect(updated).toContain(`mp_mock_segments_missing{${labels}} 0`);
+        expect(updated).toContain(`mp_mock_segments_missed_total{${labels}} 2`);
+        expect(updated).toContain(`mp_mock_segment_arrival_interval_seconds_count{${labels}} 2`);
+    });
+
+    it('should keep counters and histograms of entries compacted out of the ledger', () => {
+        const trackingInfo = streamTracker.get('channel1/index.m3u8')!;
+        expect(compactLedger(trackingInfo, 2)).toBe(2);
+
+        expect(exporter.render(streamTracker, 20000)).toBe(metrics);
+    });
+
+    it('should export the same metrics from tracker state restored after a restart', () => {
+        const storagePath = fs.mkdtempSync(path.join(os.tmpdir(), 'metrics-exporter-'));
+        try {
+            new TrackerStore(storagePath, streamTracker, new Map(), { isEnabled: true, loggerInstance: silentLogger }).save();
+            const restoredTracker = new Map<string, M3u8TrackingInfo>();
+            new TrackerStore(storagePath, restoredTracker, new Map(), { isEnabled: true, loggerInstance: silentLogger }).restore();
+
+            expect(new MetricsExporter(silentLogger).render(restoredTracker, 20000)).toBe(metrics);
+        } finally {
+            fs.rmSync(storagePath, { recursive: true, force: true });
+        }
+    });
+
+    it('should escape label values', () => {
+        const trackingInfo = { ...createExportedTrackingInfo(), channelId: 'odd"channel' };
+        expect(exporter.render(new Map([['key', trackingInfo]]), 20000)).toContain('channel="odd\\"channel"');
+    });
+});
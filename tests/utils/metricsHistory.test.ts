@@ -0,0 +1,129 @@
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import { M3u8TrackingInfo, SegmentInfo } from '../../src/types';
+import { MetricsHistory } from '../../src/utils/metricsHistory';
+import { ReportGenerator } from '../../src/utils/reportGenerator';
+import { STATE_DIR } from '../../src/utils/trackerStore';
+import { createTrackingInfo, segmentsBySequence, segmentsByUri, silentLogger } from '../helpers';
+
+function createStreamTrackingInfo(channelId: string, m3u8Uri: string, transferDelayMs: number): M3u8TrackingInfo {
+    const received: SegmentInfo = { uri: 'seg_1.ts', duration: 6, mediaSequence: 1, received: true, state: 'received', size: 1000, firstSeenAt: 1000, receivedAt: 1000 + transferDelayMs };
+    const missing: SegmentInfo = { uri: 'seg_2.ts', duration: 6, mediaSequence: 2, received: false, state: 'missing' };
+    return createTrackingInfo({
+        m3u8Uri,
+        segments: segmentsByUri([received, missing]),
+        ledger: segmentsBySequence([received, missing]),
+        receivedAt: 1000,
+        channelId,
+        lastSegmentReceivedTime: 1000 + transferDelayMs,
+        previousM3u8Updates: [1000],
+        timeoutEvents: 1,
+        successiveTimeouts: 1,
+        maxSuccessiveTimeouts: 1
+    });
+}
+
+describe('Metrics History', () => {
+    let storagePath: string;
+    let streamTracker: Map<string, M3u8TrackingInfo>;
+    let reportGenerator: ReportGenerator;
+
+    beforeEach(() => {
+        storagePath = fs.mkdtempSync(path.join(os.tmpdir(), 'metrics-history-'));
+        streamTracker = new Map<string, M3u8TrackingInfo>([
+            ['channel1/video.m3u8', createStreamTrackingInfo('channel1', '/live/channel1/video.m3u8', 200)],
+            ['channel1/audio.m3u8', createStreamTrackingInfo('channel1', '/live/channel1/audio.m3u8', 400)],
+            ['channel2/index.m3u8', createStreamTrackingInfo('channel2', '/live/channel2/index.m3u8', 100)]
+        ]);
+        reportGenerator = new ReportGenerator(storagePath, streamTracker, silentLogger);
+    });
+
+    afterEach(() => {
+        fs.rmSync(storagePath, { recursive: true, force: true });
+    });
+
+    const createHistory = (options: { resolutionMs?: number; retentionMs?: number } = {}) =>
+        new MetricsHistory(storagePath, reportGenerator, { isEnabled: true, resolutionMs: 10000, loggerInstance: silentLogger, ...options });
+
+    it('should aggregate the streams of a channel into one snapshot', () => {
+        const history = createHistory();
+        expect(history.record(10000)).toBe(2);
+
+        const [series] = history.query({ channelId: 'channel1' });
+        expect(series.channelId).toBe('channel1');
+        expect(series.timestamps).toEqual([10000]);
+        expect(series.metrics).toMatchObject({
+            streams: [2],
+            totalSegments: [4],
+            receivedSegments: [2],
+            timedOutSegments: [2],
+            missRate: [0.5],
+            intervalMissRate: [0.5],
+            timeoutEvents: [2],
+            avgSegmentTransferDelay: [300],
+            intervalTransferDelay: [300],
+            totalBytes: [2000]
+        });
+    });
+
+    it('should record the miss rate and transfer delay of each interval next to the session values', () => {
+        const history = createHistory();
+        history.record(10000);
+
+        const trackingInfo = streamTracker.get('channel2/index.m3u8')!;
+        const added: SegmentInfo[] = [
+            { uri: 'seg_3.ts', duration: 6, mediaSequence: 3, received: true, state: 'received', size: 1000, firstSeenAt: 13000, receivedAt: 13500 },
+            { uri: 'seg_4.ts', duration: 6, mediaSequence: 4, received: true, state: 'received', size: 1000, firstSeenAt: 19000, receivedAt: 19700 }
+        ];
+        added.forEach(segment => trackingInfo.ledger.set(segment.mediaSequence!, segment));
+        history.record(20000);
+
+        const [series] = history.query({ channelId: 'channel2' });
+        expect(series.metrics.missRate).toEqual([0.5, 0.25]);
+        expect(series.metrics.intervalMissRate).toEqual([0.5, 0]);
+        expect(series.metrics.avgSegmentTransferDelay[1]).toBeCloseTo(1300 / 3);
+        expect(series.metrics.intervalTransferDelay).toEqual([100, 600]);
+    });
+
+    it('should select a time range and keep the last snapshot of every step', () => {
+        const history = createHistory();
+        for (let at = 0; at < 60000; at += 10000) {
+            history.record(at);
+        }
+
+        expect(history.query({ channelId: 'channel2', from: 20000, to: 40000 })[0].timestamps).toEqual([20000, 30000, 40000]);
+        expect(history.query({ channelId: 'channel2', stepMs: 30000 })[0].timestamps).toEqual([20000, 50000]);
+    });
+
+    it('should keep only the snapshots within the retention period on disk and in memory', () => {
+        const history = createHistory({ retentionMs: 40000 });
+        for (let at = 0; at < 100000; at += 10000) {
+            history.record(at);
+        }
+
+        expect(history.query({ channelId: 'channel1' })[0].timestamps).toEqual([60000, 70000, 80000, 90000]);
+        const lines = fs.readFileSync(path.join(storagePath, STATE_DIR, 'history', 'channel1.jsonl'), 'utf-8').trim().split('\n');
+        expect(lines.length).toBeLessThanOrEqual(6);
+    });
+
+    it('should restore snapshots saved before a restart and drop expired ones', () => {
+        const history = createHistory({ retentionMs: 60000 });
+        history.record(0);
+        history.record(50000);
+
+        const restored = createHistory({ retentionMs: 60000 });
+        expect(restored.restore(100000)).toBe(2);
+        expect(restored.query({ channelId: 'channel1' })[0].timestamps).toEqual([50000]);
+    });
+
+    it('should remove the history of a reset channel', () => {
+        const history = createHistory();
+        history.record(0);
+        history.reset('channel1');
+
+        expect(history.query().map(series => series.channelId)).toEqual(['channel2']);
+        expect(fs.existsSync(path.join(storagePath, STATE_DIR, 'history', 'channel1.jsonl'))).toBe(false);
+        expect(createHistory().restore()).toBe(1);
+    });
+});
@@ -0,0 +1,33 @@
+import { PendingSegmentPool } from '../../src/utils/pendingSegmentPool';
+import { silentLogger } from '../helpers';
+
+describe('Pending Segment Pool', () => {
+    let pool: PendingSegmentPool;
+
+    beforeEach(() => {
+        pool = new PendingSegmentPool(10000, silentLogger);
+    });
+
+    it('should hand out early uploads per channel and pipeline', () => {
+        const now = Date.now();
+        pool.add({ uri: 'seg_1.ts', channelId: 'channel1', size: 100, receivedAt: now });
+        pool.add({ uri: 'seg_1.ts', channelId: 'channel1', redundantId: 'A', size: 200, receivedAt: now });
+
+        expect(pool.take('channel2', undefined, 'seg_1.ts')).toBeUndefined();
+        expect(pool.take('channel1', 'A', 'seg_1.ts')?.size).toBe(200);
+        expect(pool.take('channel1', 'A', 'seg_1.ts')).toBeUndefined();
+        expect(pool.getPending('channel1').map(upload => upload.uri)).toEqual(['seg_1.ts']);
+    });
+
+    it('should report uploads no playlist referenced within the window', () => {
+        const now = Date.now();
+        pool.add({ uri: 'old.ts', channelId: 'channel1', size: 100, receivedAt: now - 15000 });
+        pool.add({ uri: 'recent.ts', channelId: 'channel1', size: 100, receivedAt: now - 5000 });
+
+        const unreferenced = pool.getUnreferenced().get('channel1') || [];
+
+        expect(unreferenced.map(upload => upload.uri)).toEqual(['old.ts']);
+        expect(pool.take('channel1', undefined, 'old.ts')).toBeUndefined();
+        expect(pool.getPending('channel1').map(upload => upload.uri)).toEqual(['recent.ts']);
+    });
+});
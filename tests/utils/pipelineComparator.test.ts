@@ -0,0 +1,46 @@
+import { comparePipelines } from '../../src/utils/pipelineComparator';
+import { M3u8TrackingInfo, SegmentInfo } from '../../src/types';
+import { createTrackingInfo, segmentsByUri } from '../helpers';
+
+function createPipelineTrackingInfo(redundantId: string, segments: SegmentInfo[]): M3u8TrackingInfo {
+    return createTrackingInfo({ m3u8Uri: `/in/v2/channel1/${redundantId}/channel`, redundantId, segments: segmentsByUri(segments) });
+}
+
+describe('Pipeline Comparator', () => {
+    it('should compare segment alignment, first delivery and gaps between pipelines', () => {
+        const streamTracker = new Map<string, M3u8TrackingInfo>();
+        streamTracker.set('channel1/A/playlist.m3u8', createPipelineTrackingInfo('A', [
+            { uri: 'seg_10.ts', duration: 6, mediaSequence: 10, received: true, receivedAt: 1000 },
+            { uri: 'seg_11.ts', duration: 6, mediaSequence: 11, received: true, receivedAt: 7000 },
+            { uri: 'seg_12.ts', duration: 6, mediaSequence: 12, received: false }
+        ]));
+        streamTracker.set('channel1/B/playlist.m3u8', createPipelineTrackingInfo('B', [
+            { uri: 'seg_11.ts', duration: 6, mediaSequence: 11, received: true, receivedAt: 6500 },
+            { uri: 'seg_12.ts', duration: 5, mediaSequence: 12, received: true, receivedAt: 12000 }
+        ]));
+
+        const comparisons = comparePipelines(streamTracker);
+
+        expect(comparisons).toHaveLength(1);
+        const comparison = comparisons[0];
+        expect(comparison.playlist).toBe('playlist.m3u8');
+        expect(comparison.pipelines).toEqual(['A', 'B']);
+        // Sequence 10 precedes pipeline B's window and is not compared
+        expect(comparison.overlapStart).toBe(11);
+        expect(comparison.overlapEnd).toBe(12);
+        expect(comparison.alignedSequences).toBe(1);
+        expect(comparison.misalignedSequences).toEqual([12]);
+        expect(comparison.firstDeliveries).toEqual({ A: 0, B: 2 });
+        expect(comparison.avgLeadMs).toBe(500);
+        expect(comparison.gaps).toEqual([{ mediaSequence: 12, deliveredBy: ['B'], missingFrom: ['A'] }]);
+    });
+
+    it('should ignore channels with a single pipeline', () => {
+        const streamTracker = new Map<string, M3u8TrackingInfo>();
+        streamTracker.set('channel1/A/playlist.m3u8', createPipelineTrackingInfo('A', [
+            { uri: 'seg_10.ts', duration: 6, mediaSequence: 10, received: true, receivedAt: 1000 }
+        ]));
+
+        expect(comparePipelines(streamTracker)).toHaveLength(0);
+    });
+});
@@ -0,0 +1,71 @@
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import { IngestEventBus } from '../../src/utils/eventBus';
+import { loadPlugins } from '../../src/utils/pluginLoader';
+import { silentLogger } from '../helpers';
+
+describe('Plugin Loader', () => {
+    let pluginDir: string;
+    let eventBus: IngestEventBus;
+
+    const writePlugin = (filename: string, source: string) => {
+        const filePath = path.join(pluginDir, filename);
+        fs.writeFileSync(filePath, source);
+        return filePath;
+    };
+
+    beforeEach(() => {
+        pluginDir = fs.mkdtempSync(path.join(os.tmpdir(), 'plugin-loader-'));
+        eventBus = new IngestEventBus(silentLogger);
+        jest.spyOn(silentLogger, 'error');
+    });
+
+    afterEach(() => {
+        jest.restoreAllMocks();
+        fs.rmSync(pluginDir, { recursive: true, force: true });
+    });
+
+    it('should register plugins exported as default or register', () => {
+        const modules = [
+            writePlugin('default.js', `exports.default = (events) => events.on('segment-late', () => undefined);`),
+            writePlugin('register.js', `exports.register = (events, context) => context.logger.info('registered');`)
+        ];
+
+        expect(loadPlugins(modules, eventBus, silentLogger)).toBe(2);
+        expect(silentLogger.error).not.toHaveBeenCalled();
+    });
+
+    it('should skip a missing module and keep loading the others', () => {
+        const modules = [
+            path.join(pluginDir, 'missing.js'),
+            writePlugin('valid.js', `module.exports = () => undefined;`)
+        ];
+
+        expect(loadPlugins(modules, eventBus, silentLogger)).toBe(1);
+        expect(silentLogger.error).toHaveBeenCalledWith(expect.stringContaining('Failed to load plugin'), expect.anything());
+    });
+
+    it('should skip a plugin that throws in register', () => {
+        const modules = [writePlugin('throws.js', `exports.register = () => { throw new Error('boom'); };`)];
+
+        expect(() => loadPlugins(modules, eventBus, silentLogger)).not.toThrow();
+        expect(silentLogger.error).toHaveBeenCalledWith(expect.stringContaining('Failed to load plugin'), expect.objectContaining({ message: 'boom' }));
+    });
+
+    it('should log an asynchronous register failure instead of leaving the rejection unhandled', async () => {
+        const modules = [writePlugin('rejects.js', `exports.register = async () => { throw new Error('async boom'); };`)];
+
+        loadPlugins(modules, eventBus, silentLogger);
+        await new Promise(resolve => setImmediate(resolve));
+
+        expect(silentLogger.error).toHaveBeenCalledWith(expect.stringContaining('failed during registration'), expect.objectContaining({ message: 'async boom' }));
+    });
+
+    it('should skip a module without a register export', () => {
+        const modules = [writePlugin('no-register.js', `exports.setup = () => undefined;`)];
+
+        expect(loadPlugins(modules, eventBus, silentLogger)).toBe(0);
+        expect(silentLogger.error).toHaveBeenCalledWith(expect.stringContaining('does not export a function'));
+    });
+});
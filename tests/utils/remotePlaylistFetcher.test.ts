@@ -0,0 +1,121 @@
+import http from 'http';
+import { AddressInfo } from 'net';
+import { RemoteFetchError, RemotePlaylistFetcher, resolvePlaylistUris } from '../../src/utils/remotePlaylistFetcher';
+import { silentLogger } from '../helpers';
+
+const MEDIA_PLAYLIST = `#EXTM3U
+#EXT-X-VERSION:7
+#EXT-X-TARGETDURATION:6
+#EXT-X-MAP:URI="init.mp4"
+#EXTINF:6.0,
+seg_1.m4s
+#EXTINF:6.0,
+../backup/seg_2.m4s`;
+
+describe('Remote Playlist Fetcher', () => {
+    let server: http.Server;
+    let baseUrl: string;
+    let hits: Map<string, number>;
+
+    beforeAll(async () => {
+        server = http.createServer((req, res) => {
+            const hit = (hits.get(req.url!) || 0) + 1;
+            hits.set(req.url!, hit);
+
+            switch (req.url) {
+                case '/redirect':
+                    res.writeHead(302, { Location: '/live/channel1/index.m3u8' }).end();
+                    break;
+                case '/live/channel1/index.m3u8':
+                    res.writeHead(200, { 'Content-Type': 'application/vnd.apple.mpegurl' }).end(MEDIA_PLAYLIST);
+                    break;
+                case '/flaky.m3u8':
+                    if (hit < 3) {
+                        res.writeHead(503).end();
+                    } else {
+                        res.writeHead(200, { 'Content-Type': 'application/x-mpegURL; charset=utf-8' }).end(MEDIA_PLAYLIST);
+                    }
+                    break;
+                case '/slow.m3u8':
+                    // 응답하지 않음 - 시간 제한 확인용
+                    break;
+                case '/large.m3u8':
+                    res.writeHead(200, { 'Content-Type': 'application/vnd.apple.mpegurl' }).end('#'.repeat(4096));
+                    break;
+                case '/page.html':
+                    res.writeHead(200, { 'Content-Type': 'text/html' }).end('<html></html>');
+                    break;
+                default:
+                    res.writeHead(404).end();
+            }
+        });
+        await new Promise<void>(resolve => server.listen(0, '127.0.0.1', resolve));
+        baseUrl = `http://127.0.0.1:${(server.address() as AddressInfo).port}`;
+    });
+
+    afterAll(async () => {
+        server.closeAllConnections();
+        await new Promise(resolve => server.close(resolve));
+    });
+
+    beforeEach(() => {
+        hits = new Map();
+    });
+
+    const createFetcher = () => new RemotePlaylistFetcher({ timeoutMs: 300, maxRetries: 2, retryBackoffMs: 10, maxBodyBytes: 1024 }, silentLogger);
+
+    const expectFailure = async (fetcher: RemotePlaylistFetcher, url: string, reason: string) => {
+        const error = await fetcher.fetch('channel1', url).catch(e => e);
+        expect(error).toBeInstanceOf(RemoteFetchError);
+        expect(error.reason).toBe(reason);
+    };
+
+    it('should follow redirects and resolve URIs relative to the fetched URL', async () => {
+        const fetcher = createFetcher();
+        const result = await fetcher.fetch('channel1', `${baseUrl}/redirect`);
+
+        expect(result.url).toBe(`${baseUrl}/live/channel1/index.m3u8`);
+        expect(result.attempts).toBe(1);
+
+        const resolved = resolvePlaylistUris(result.content, result.url);
+        expect(resolved).toContain('#EXT-X-MAP:URI="init.mp4"');
+        expect(resolved).toContain('\nseg_1.m4s');
+        expect(resolved).toContain(`\n${baseUrl}/live/backup/seg_2.m4s`);
+        expect(fetcher.getStats().get('channel1')).toMatchObject({ fetches: 1, failures: 0, retries: 0 });
+    });
+
+    it('should retry 5xx responses with backoff', async () => {
+        const fetcher = createFetcher();
+        const result = await fetcher.fetch('channel1', `${baseUrl}/flaky.m3u8`);
+
+        expect(result.attempts).toBe(3);
+        expect(hits.get('/flaky.m3u8')).toBe(3);
+        expect(fetcher.getStats().get('channel1')).toMatchObject({ fetches: 1, failures: 0, retries: 2 });
+    });
+
+    it('should give up on an upstream that never answers', async () => {
+        const fetcher = new RemotePlaylistFetcher({ timeoutMs: 200, maxRetries: 1, retryBackoffMs: 10 }, silentLogger);
+        const startedAt = Date.now();
+
+        await expectFailure(fetcher, `${baseUrl}/slow.m3u8`, 'timeout');
+
+        expect(Date.now() - startedAt).toBeLessThan(2000);
+        expect(hits.get('/slow.m3u8')).toBe(2);
+        expect(fetcher.getStats().get('channel1')).toMatchObject({ failures: 1, retries: 1, failuresByReason: { timeout: 1 } });
+    });
+
+    it('should reject oversized bodies, unexpected content types and 4xx responses without retrying', async () => {
+        const fetcher = createFetcher();
+
+        await expectFailure(fetcher, `${baseUrl}/large.m3u8`, 'too-large');
+        await expectFailure(fetcher, `${baseUrl}/page.html`, 'content-type');
+        await expectFailure(fetcher, `${baseUrl}/missing.m3u8`, 'http-status');
+
+        expect(Array.from(hits.values())).toEqual([1, 1, 1]);
+        expect(fetcher.getStats().get('channel1')).toMatchObject({
+            failures: 3,
+            retries: 0,
+            failuresByReason: { 'too-large': 1, 'content-type': 1, 'http-status': 1 }
+        });
+    });
+});
@@ -0,0 +1,142 @@
+import { M3u8TrackingInfo, SegmentInfo } from '../../src/types';
+import { REPORT_VERSION, ReportGenerator } from '../../src/utils/reportGenerator';
+import { addToSegmentTotals, createSegmentTotals } from '../../src/utils/segmentLedger';
+import { HlsValidator } from '../../src/utils/hlsValidator';
+import { parsePlaylist } from '../../src/utils/m3u8Parser';
+import { UploadHistory } from '../../src/utils/uploadHistory';
+import { createTrackingInfo, segmentsBySequence, segmentsByUri, silentLogger } from '../helpers';
+
+function createStreamTrackingInfo(channelId: string, m3u8Uri: string, redundantId?: string): M3u8TrackingInfo {
+    const received: SegmentInfo = { uri: 'seg_1.ts', duration: 6, mediaSequence: 1, received: true, state: 'received', size: 1000, firstSeenAt: 1000, receivedAt: 1500 };
+    const late: SegmentInfo = { uri: 'seg_2.ts', duration: 6, mediaSequence: 2, received: true, state: 'late', size: 1000, firstSeenAt: 7000, receivedAt: 16000, lateByMs: 1000 };
+    const missing: SegmentInfo = { uri: 'seg_3.ts', duration: 6, mediaSequence: 3, received: false, state: 'missing' };
+    return createTrackingInfo({
+        m3u8Uri,
+        segments: segmentsByUri([received, late, missing]),
+        ledger: segmentsBySequence([received, late, missing]),
+        receivedAt: 1000,
+        channelId,
+        redundantId,
+        lastSegmentReceivedTime: 16000,
+        previousM3u8Updates: [7000, 1000],
+        timeoutEvents: 1,
+        successiveTimeouts: 1,
+        maxSuccessiveTimeouts: 1,
+        segmentArrivalIntervals: [14500]
+    });
+}
+
+describe('Report Generator', () => {
+    let streamTracker: Map<string, M3u8TrackingInfo>;
+    let reportGenerator: ReportGenerator;
+
+    beforeEach(() => {
+        streamTracker = new Map<string, M3u8TrackingInfo>([
+            ['channel1/video.m3u8', createStreamTrackingInfo('channel1', '/live/channel1/video.m3u8')],
+            ['channel1/audio.m3u8', createStreamTrackingInfo('channel1', '/live/channel1/audio.m3u8')],
+            ['channel2/0/index.m3u8', createStreamTrackingInfo('channel2', '/in/v2/channel2/0/index.m3u8', '0')],
+            ['channel2/1/index.m3u8', createStreamTrackingInfo('channel2', '/in/v2/channel2/1/index.m3u8', '1')]
+        ]);
+        reportGenerator = new ReportGenerator('/mock/storage', streamTracker, silentLogger);
+    });
+
+    it('should build a versioned JSON report with every metric group by default', () => {
+        const report = reportGenerator.generateJsonReport();
+
+        expect(report.version).toBe(REPORT_VERSION);
+        expect(report.summary).toMatchObject({ totalStreams: 4, totalBytes: 8000 });
+        expect(report.streams).toHaveLength(4);
+        expect(Object.keys(report.streams[0].metrics)).toEqual(['segments', 'throughput', 'latency', 'reliability', 'payload', 'uploads', 'deletes']);
+        expect(report.streams[0].metrics.segments).toMatchObject({ totalSegments: 3, receivedSegments: 2, lateSegments: 1, timedOutSegments: 1 });
+        expect(report.streams[0].metrics.reliability).toMatchObject({ avgLateness: 1000, timeoutEvents: 1 });
+    });
+
+    it('should filter streams by channel, pipeline and playlist', () => {
+        const listStreams = (filter: Parameters<ReportGenerator['generateJsonReport']>[0]) =>
+            reportGenerator.generateJsonReport(filter).streams.map(stream => stream.m3u8Uri);
+
+        expect(listStreams({ channelId: 'channel1' })).toEqual(['/live/channel1/video.m3u8', '/live/channel1/audio.m3u8']);
+        expect(listStreams({ channelId: 'channel1', playlist: 'audio.m3u8' })).toEqual(['/live/channel1/audio.m3u8']);
+        expect(listStreams({ playlist: '/live/channel1/video.m3u8' })).toEqual(['/live/channel1/video.m3u8']);
+        expect(listStreams({ channelId: 'channel2', redundantId: '1' })).toEqual(['/in/v2/channel2/1/index.m3u8']);
+        expect(listStreams({ channelId: 'unknown' })).toEqual([]);
+    });
+
+    it('should include only the requested metric groups', () => {
+        const report = reportGenerator.generateJsonReport({ channelId: 'channel1', groups: ['segments', 'latency'] });
+
+        expect(report.filter.groups).toEqual(['segments', 'latency']);
+        expect(Object.keys(report.streams[0].metrics)).toEqual(['segments', 'latency']);
+        expect(report.streams[0].metrics.latency).toMatchObject({ avgSegmentTransferDelay: 4750, m3u8UpdateInterval: 6000 });
+    });
+
+    it('should include segments compacted out of the ledger in the session totals', () => {
+        const compacted = createSegmentTotals();
+        for (let sequence = 1; sequence <= 2; sequence++) {
+            addToSegmentTotals(compacted, { uri: `old_${sequence}.ts`, duration: 6, mediaSequence: sequence, received: true, state: 'expired', size: 500, firstSeenAt: 0, receivedAt: 100 });
+        }
+        const trackingInfo = createStreamTrackingInfo('channel3', '/live/channel3/index.m3u8');
+        Object.assign(trackingInfo, { compactedSegments: compacted, firstSegmentReceivedAt: 100, lastSegmentReceivedAt: 16000 });
+        const generator = new ReportGenerator('/mock/storage', new Map([['channel3/index.m3u8', trackingInfo]]), silentLogger);
+
+        const { segments, throughput, latency } = generator.generateJsonReport().streams[0].metrics;
+
+        expect(segments).toMatchObject({ totalSegments: 5, receivedSegments: 4, expiredSegments: 2, timedOutSegments: 1 });
+        expect(throughput).toMatchObject({ totalBytes: 3000, startTime: 100, endTime: 16000 });
+        expect(latency!.minSegmentTransferDelay).toBe(100);
+    });
+
+    it('should filter every report section the same way in both formats', () => {
+        const uploadHistory = new UploadHistory(silentLogger);
+        for (const [channelId, redundantId] of [['channel1', undefined], ['channel2', '1']] as const) {
+            ['a', 'b'].forEach(hash => uploadHistory.record({ uri: 'seg_1.ts', channelId, redundantId, hash, size: 1000, receivedAt: 1500 }));
+        }
+        const hlsValidator = new HlsValidator(silentLogger);
+        const invalid = '#EXT-X-TARGETDURATION:6\n#EXTINF:6.0,\nseg_1.ts';
+        hlsValidator.validate('channel1/video.m3u8', '/live/channel1/video.m3u8', 'channel1', undefined, invalid, parsePlaylist(invalid));
+        hlsValidator.validate('channel2/1/index.m3u8', '/in/v2/channel2/1/index.m3u8', 'channel2', '1', invalid, parsePlaylist(invalid));
+        const matchedInfo = streamTracker.get('channel1/video.m3u8')!;
+        matchedInfo.inexactMatches.push({ mode: 'sequence', uploadedUri: 'video_1.ts', matchedUri: 'seg_1.ts', at: 1500 });
+        matchedInfo.sequenceMatches = 3;
+        const generator = new ReportGenerator('/mock/storage', streamTracker, silentLogger, { uploadHistory, hlsValidator });
+
+        const report = generator.generateJsonReport();
+        expect(report.repeatedUploads.map(uploads => uploads.channelId)).toEqual(['channel1', 'channel2']);
+        expect(report.violations.map(violations => violations.channelId)).toEqual(['channel1', 'channel2']);
+        expect(report.inexactMatches).toMatchObject([{ m3u8Uri: '/live/channel1/video.m3u8', totalMatches: 3, matches: [{ uploadedUri: 'video_1.ts' }] }]);
+        expect(generator.generateReport()).toContain('... 2 earlier match(es) omitted');
+        expect(report.pipelineComparisons).toMatchObject([{ channelId: 'channel2', pipelines: ['0', '1'] }]);
+        expect(generator.generateJsonReport({ playlist: 'audio.m3u8' }).violations).toEqual([]);
+
+        const filter = { channelId: 'channel2', redundantId: '1' };
+        const filtered = generator.generateJsonReport(filter);
+        expect(filtered.repeatedUploads).toMatchObject([{ channelId: 'channel2', redundantId: '1', replaced: 1, omitted: 0 }]);
+        expect(filtered.violations).toMatchObject([{ channelId: 'channel2', revisions: 1, ruleCounts: { 'missing-extm3u': 1 } }]);
+        expect(filtered.inexactMatches).toEqual([]);
+        expect(filtered.pipelineComparisons).toHaveLength(1);
+
+        const text = generator.generateReport(filter);
+        expect(text).toContain('Channel: channel2 (pipeline 1) - 1 segment(s) uploaded more than once');
+        expect(text).toContain('[missing-extm3u] /in/v2/channel2/1/index.m3u8 revision 1');
+        expect(text).toContain('=== Redundant Pipeline Comparison ===');
+        expect(text).not.toContain('channel1');
+    });
+
+    it('should build the text report from the same metrics', () => {
+        const json = reportGenerator.generateJsonReport();
+        const text = reportGenerator.generateReport();
+
+        expect(text).toContain(`Total streams analyzed: ${json.summary.totalStreams}`);
+        const { receivedSegments, totalSegments } = json.streams[0].metrics.segments!;
+        expect(text).toContain(`Segments: ${receivedSegments}/${totalSegments}`);
+    });
+
+    it('should not print NaN for a playlist without media segments', () => {
+        const generator = new ReportGenerator('/mock/storage', new Map([['channel3/index.m3u8', createTrackingInfo({ channelId: 'channel3' })]]), silentLogger);
+
+        const text = generator.generateReport();
+
+        expect(text).toContain('Segments: 0/0 (0.00% received)');
+        expect(text).not.toContain('NaN');
+    });
+});
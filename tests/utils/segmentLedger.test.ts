@@ -0,0 +1,129 @@
+import { M3u8TrackingInfo, SegmentInfo } from '../../src/types';
+import {
+    countSegmentStates,
+    findSessionSegment,
+    getSessionSegments,
+    getSessionTotals,
+    markSegmentMissing,
+    markSegmentReceived,
+    recordSegmentArrival,
+    updateLedger
+} from '../../src/utils/segmentLedger';
+import { createTrackingInfo } from '../helpers';
+
+function windowOf(...sequences: number[]): Map<string, SegmentInfo> {
+    return new Map(sequences.map(sequence => [`seg_${sequence}.ts`, {
+        uri: `seg_${sequence}.ts`,
+        duration: 6,
+        kind: 'media',
+        mediaSequence: sequence,
+        received: false
+    } as SegmentInfo]));
+}
+
+// 플레이리스트 갱신처럼 윈도우를 바꾸고 원장 반영 (이전 윈도우에 있던 같은 URI의 세그먼트 객체는 재사용)
+function publish(trackingInfo: M3u8TrackingInfo, window: Map<string, SegmentInfo>, now: number, maxEntries?: number): SegmentInfo[] {
+    const previousWindow = trackingInfo.segments;
+    trackingInfo.segments = new Map(Array.from(window.entries()).map(([uri, segment]) => [uri, previousWindow.get(uri) || segment]));
+    return updateLedger(trackingInfo, previousWindow, now, maxEntries);
+}
+
+describe('Segment Ledger', () => {
+    it('should expire unreceived segments that slide out of the window', () => {
+        const trackingInfo = createTrackingInfo();
+        const ledger = trackingInfo.ledger;
+        publish(trackingInfo, windowOf(1, 2, 3), 1000);
+        trackingInfo.segments.get('seg_2.ts')!.received = true;
+
+        const expired = publish(trackingInfo, windowOf(3, 4, 5), 2000);
+
+        expect(expired.map(segment => segment.uri)).toEqual(['seg_1.ts']);
+        expect(ledger.size).toBe(5);
+        expect(ledger.get(1)).toMatchObject({ state: 'expired', expiredAt: 2000 });
+        // Received segments keep their state after leaving the window
+        expect(ledger.get(2)).toMatchObject({ received: true, expiredAt: 2000 });
+        expect(ledger.get(4)!.state).toBe('announced');
+    });
+
+    it('should move segments through missing and late states', () => {
+        const segment: SegmentInfo = { uri: 'seg_1.ts', duration: 6, mediaSequence: 1, received: false, state: 'announced', deadlineAt: 8000 };
+
+        expect(markSegmentMissing(segment)).toBe(true);
+        expect(markSegmentMissing(segment)).toBe(false);
+        expect(segment.timeoutOccurred).toBe(true);
+
+        segment.received = true;
+        expect(markSegmentReceived(segment, 9500)).toBe('late');
+        expect(segment.lateByMs).toBe(1500);
+    });
+
+    it('should mark segments late by their own deadline', () => {
+        const onTime: SegmentInfo = { uri: 'seg_1.ts', duration: 6, received: true, state: 'announced', deadlineAt: 8000 };
+        const pastDeadline: SegmentInfo = { ...onTime, uri: 'seg_2.ts' };
+
+        expect(markSegmentReceived(onTime, 8000)).toBe('received');
+        expect(onTime.lateByMs).toBeUndefined();
+        // Past its deadline even though the deadline check has not run yet
+        expect(markSegmentReceived(pastDeadline, 8200)).toBe('late');
+        expect(pastDeadline.lateByMs).toBe(200);
+    });
+
+    it('should find and count segments across the whole session', () => {
+        const trackingInfo = createTrackingInfo();
+        const ledger = trackingInfo.ledger;
+        publish(trackingInfo, windowOf(1, 2), 1000);
+        const window = windowOf(2, 3);
+        window.set('init.mp4', { uri: 'init.mp4', duration: 0, kind: 'init', received: true });
+        publish(trackingInfo, window, 2000);
+
+        expect(findSessionSegment(trackingInfo, 'seg_1.ts')).toBe(ledger.get(1));
+        expect(findSessionSegment(trackingInfo, 'seg_9.ts')).toBeUndefined();
+        expect(getSessionSegments(trackingInfo).map(segment => segment.uri)).toEqual(['seg_1.ts', 'seg_2.ts', 'seg_3.ts', 'init.mp4']);
+        expect(countSegmentStates(getSessionSegments(trackingInfo))).toEqual({ announced: 2, received: 0, late: 0, missing: 0, expired: 1 });
+    });
+
+    it('should expire segments left behind when the media sequence restarts', () => {
+        const trackingInfo = createTrackingInfo();
+        publish(trackingInfo, windowOf(100, 101, 102), 1000);
+
+        // 인코더 재시작 - 시퀀스가 0부터 다시 시작
+        const expired = publish(trackingInfo, windowOf(0, 1), 2000);
+
+        expect(expired.map(segment => segment.mediaSequence)).toEqual([100, 101, 102]);
+        expect(countSegmentStates(getSessionSegments(trackingInfo))).toMatchObject({ announced: 2, expired: 3 });
+    });
+
+    it('should keep the previous entry in the totals when a restarted sequence reuses its number', () => {
+        const trackingInfo = createTrackingInfo();
+        publish(trackingInfo, windowOf(1, 2), 1000);
+        const restarted = new Map([['restart_1.ts', { uri: 'restart_1.ts', duration: 6, kind: 'media', mediaSequence: 1, received: false } as SegmentInfo]]);
+
+        publish(trackingInfo, restarted, 2000);
+
+        expect(trackingInfo.ledger.get(1)!.uri).toBe('restart_1.ts');
+        expect(findSessionSegment(trackingInfo, 'seg_1.ts')).toBeUndefined();
+        expect(getSessionTotals(trackingInfo)).toMatchObject({ segments: 3, states: { announced: 1, expired: 2 } });
+    });
+
+    it('should compact the oldest entries beyond the cap into totals', () => {
+        const trackingInfo = createTrackingInfo({ lastSegmentReceivedTime: 0 });
+        for (let sequence = 1; sequence <= 10; sequence++) {
+            publish(trackingInfo, windowOf(sequence, sequence + 1), sequence * 1000, 4);
+            const segment = trackingInfo.segments.get(`seg_${sequence}.ts`)!;
+            segment.firstSeenAt = sequence * 1000;
+            recordSegmentArrival(trackingInfo, segment, { receivedAt: sequence * 1000 + sequence * 100, size: 1000 });
+        }
+
+        // 윈도우 밖으로 빠진 항목만 압축 (seg_11은 아직 윈도우에 있음)
+        expect(Array.from(trackingInfo.ledger.keys())).toEqual([8, 9, 10, 11]);
+        expect(findSessionSegment(trackingInfo, 'seg_9.ts')).toBe(trackingInfo.ledger.get(9));
+        expect(findSessionSegment(trackingInfo, 'seg_2.ts')).toBeUndefined();
+        const totals = getSessionTotals(trackingInfo);
+        expect(totals).toMatchObject({ segments: 11, received: 10, bytes: 10000, firstReceivedAt: 1100, lastReceivedAt: 11000 });
+        expect(totals.transferDelay).toEqual({ count: 10, sum: 5500, min: 100, max: 1000, buckets: [0, 1, 2, 5, 10, 10, 10, 10, 10] });
+        // 도착 간격은 수신 시점에 세그먼트에 기록되므로 압축된 항목도 합계에 남음
+        expect(totals.arrivalInterval).toMatchObject({ count: 9, min: 1100, max: 1100 });
+        expect(trackingInfo.firstSegmentReceivedAt).toBe(1100);
+        expect(trackingInfo.lastSegmentReceivedAt).toBe(11000);
+    });
+});
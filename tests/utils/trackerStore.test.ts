@@ -0,0 +1,100 @@
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import { M3u8TrackingInfo, MasterPlaylistInfo, SegmentInfo } from '../../src/types';
+import { STATE_DIR, TrackerStore } from '../../src/utils/trackerStore';
+import { createTrackingInfo, segmentsBySequence, segmentsByUri, silentLogger } from '../helpers';
+
+function createChannelTrackingInfo(channelId: string): M3u8TrackingInfo {
+    const expired: SegmentInfo = { uri: 'seg_9.ts', duration: 6, mediaSequence: 9, received: false, state: 'expired', expiredAt: 1500 };
+    const received: SegmentInfo = { uri: 'seg_10.ts', duration: 6, mediaSequence: 10, received: true, receivedAt: 2000, state: 'received', deadlineAt: 9000 };
+    const pending: SegmentInfo = { uri: 'seg_11.ts', duration: 6, mediaSequence: 11, received: false, state: 'announced', deadlineAt: 15000 };
+    const init: SegmentInfo = { uri: 'init.mp4', duration: 0, kind: 'init', received: true };
+    return createTrackingInfo({
+        m3u8Uri: `/live/${channelId}/index.m3u8`,
+        segments: segmentsByUri([init, received, pending]),
+        ledger: segmentsBySequence([expired, received, pending]),
+        receivedAt: 1000,
+        channelId,
+        timeoutId: setTimeout(() => undefined, 60000),
+        nextDeadlineAt: 15000,
+        lastSegmentReceivedTime: 2000,
+        previousM3u8Updates: [1000],
+        timeoutEvents: 3,
+        successiveTimeouts: 1,
+        maxSuccessiveTimeouts: 2,
+        segmentArrivalIntervals: [2000, 1990]
+    });
+}
+
+describe('Tracker Store', () => {
+    let storagePath: string;
+    let streamTracker: Map<string, M3u8TrackingInfo>;
+    let masterTracker: Map<string, MasterPlaylistInfo>;
+    let store: TrackerStore;
+
+    beforeEach(() => {
+        storagePath = fs.mkdtempSync(path.join(os.tmpdir(), 'tracker-store-'));
+        streamTracker = new Map([
+            ['channel1/index.m3u8', createChannelTrackingInfo('channel1')],
+            ['channel2/index.m3u8', createChannelTrackingInfo('channel2')]
+        ]);
+        masterTracker = new Map();
+        store = new TrackerStore(storagePath, streamTracker, masterTracker, { isEnabled: true, loggerInstance: silentLogger });
+    });
+
+    afterEach(() => {
+        streamTracker.forEach(trackingInfo => clearTimeout(trackingInfo.timeoutId));
+        fs.rmSync(storagePath, { recursive: true, force: true });
+    });
+
+    it('should restore segments, counters and arrival intervals without timers', () => {
+        expect(store.save()).toBe(true);
+
+        const restoredTracker = new Map<string, M3u8TrackingInfo>();
+        const restored = new TrackerStore(storagePath, restoredTracker, new Map(), { isEnabled: true, loggerInstance: silentLogger });
+        expect(restored.restore()).toBe(2);
+
+        const trackingInfo = restoredTracker.get('channel1/index.m3u8')!;
+        expect(trackingInfo.timeoutId).toBeUndefined();
+        expect(trackingInfo.nextDeadlineAt).toBeUndefined();
+        expect(trackingInfo).toMatchObject({ timeoutEvents: 3, maxSuccessiveTimeouts: 2, segmentArrivalIntervals: [2000, 1990] });
+        expect(Array.from(trackingInfo.segments.keys())).toEqual(['init.mp4', 'seg_10.ts', 'seg_11.ts']);
+        expect(Array.from(trackingInfo.ledger.keys())).toEqual([9, 10, 11]);
+        expect(trackingInfo.ledger.get(9)).toMatchObject({ state: 'expired', expiredAt: 1500 });
+        expect(trackingInfo.segments.get('seg_11.ts')?.deadlineAt).toBe(15000);
+    });
+
+    it('should keep window and ledger entries pointing at the same segment objects', () => {
+        store.save();
+
+        const restoredTracker = new Map<string, M3u8TrackingInfo>();
+        new TrackerStore(storagePath, restoredTracker, new Map(), { isEnabled: true, loggerInstance: silentLogger }).restore();
+
+        const trackingInfo = restoredTracker.get('channel1/index.m3u8')!;
+        expect(trackingInfo.segments.get('seg_10.ts')).toBe(trackingInfo.ledger.get(10));
+        expect(trackingInfo.segments.get('seg_11.ts')).toBe(trackingInfo.ledger.get(11));
+    });
+
+    it('should ignore state files with another version', () => {
+        fs.mkdirSync(path.join(storagePath, STATE_DIR), { recursive: true });
+        fs.writeFileSync(path.join(storagePath, STATE_DIR, 'tracker-state.json'), JSON.stringify({ version: 99, streams: [], masters: [] }));
+
+        expect(new TrackerStore(storagePath, new Map(), new Map(), { isEnabled: true, loggerInstance: silentLogger }).restore()).toBe(0);
+    });
+
+    it('should reset one channel and clear its pending deadline check', () => {
+        const timeoutId = streamTracker.get('channel1/index.m3u8')!.timeoutId;
+        const clearSpy = jest.spyOn(global, 'clearTimeout');
+
+        expect(store.reset('channel1')).toEqual(['channel1/index.m3u8']);
+
+        expect(clearSpy).toHaveBeenCalledWith(timeoutId);
+        expect(Array.from(streamTracker.keys())).toEqual(['channel2/index.m3u8']);
+        clearSpy.mockRestore();
+
+        const restoredTracker = new Map<string, M3u8TrackingInfo>();
+        new TrackerStore(storagePath, restoredTracker, new Map(), { isEnabled: true, loggerInstance: silentLogger }).restore();
+        expect(Array.from(restoredTracker.keys())).toEqual(['channel2/index.m3u8']);
+    });
+});
@@ -0,0 +1,123 @@
+import { SegmentInfo } from '../../src/types';
+import { TransportStreamInspector, getDurationMismatch, inspectTransportStream } from '../../src/utils/tsInspector';
+
+const VIDEO_PID = 0x100;
+const PMT_PID = 0x1000;
+const FRAME_TICKS = 3000;    // 30 fps in 90kHz ticks
+
+function packet(pid: number, payloadUnitStart: boolean, continuity: number, payload: Buffer, pcr?: number): Buffer {
+    const header = Buffer.from([0x47, (payloadUnitStart ? 0x40 : 0) | (pid >> 8), pid & 0xff, 0]);
+    const adaptation: number[] = [];
+    if (pcr !== undefined || payload.length < 184) {
+        const fields = pcr !== undefined
+            ? [0x10, Math.floor(pcr / 2 ** 25) & 0xff, Math.floor(pcr / 2 ** 17) & 0xff, Math.floor(pcr / 2 ** 9) & 0xff, Math.floor(pcr / 2) & 0xff, ((pcr & 1) << 7) | 0x7e, 0]
+            : [0x00];
+        const stuffing = 184 - payload.length - 1 - fields.length;
+        adaptation.push(fields.length + stuffing, ...fields, ...new Array(stuffing).fill(0xff));
+    }
+    header[3] = (adaptation.length > 0 ? 0x30 : 0x10) | continuity;
+    return Buffer.concat([header, Buffer.from(adaptation), payload]);
+}
+
+function pat(): Buffer {
+    return packet(0, true, 0, Buffer.from([0, 0x00, 0xb0, 13, 0, 1, 0xc1, 0, 0, 0, 1, 0xe0 | (PMT_PID >> 8), PMT_PID & 0xff, 0, 0, 0, 0]));
+}
+
+function pmt(): Buffer {
+    return packet(PMT_PID, true, 0, Buffer.from([
+        0, 0x02, 0xb0, 18, 0, 1, 0xc1, 0, 0, 0xe0 | (VIDEO_PID >> 8), VIDEO_PID & 0xff, 0xf0, 0,
+        0x1b, 0xe0 | (VIDEO_PID >> 8), VIDEO_PID & 0xff, 0xf0, 0,
+        0, 0, 0, 0
+    ]));
+}
+
+function pes(pts: number, nalType: number): Buffer {
+    return Buffer.from([
+        0, 0, 1, 0xe0, 0, 0, 0x80, 0x80, 5,
+        0x21 | (Math.floor(pts / 2 ** 29) & 0x0e), Math.floor(pts / 2 ** 22) & 0xff, (Math.floor(pts / 2 ** 14) & 0xfe) | 1,
+        Math.floor(pts / 2 ** 7) & 0xff, ((pts * 2) & 0xfe) | 1,
+        0, 0, 0, 1, 0x09, 0xf0,
+        0, 0, 0, 1, nalType, 0x88, 0x84
+    ]);
+}
+
+function segment(options: { frames?: number; firstNalType?: number; skipContinuity?: number } = {}): Buffer {
+    const frames = options.frames ?? 60;
+    const packets = [pat(), pmt()];
+    let continuity = 0;
+    for (let frame = 0; frame < frames; frame++) {
+        if (frame === options.skipContinuity) {
+            continuity++;
+        }
+        const nalType = frame === 0 ? options.firstNalType ?? 0x65 : 0x41;
+        const pts = 900000 + frame * FRAME_TICKS;
+        packets.push(packet(VIDEO_PID, true, continuity++ & 0x0f, pes(pts, nalType), frame === 0 ? pts - 900 : undefined));
+    }
+    return Buffer.concat(packets);
+}
+
+describe('TS Inspector', () => {
+    it('should inspect a healthy segment', () => {
+        const inspection = inspectTransportStream(segment());
+
+        expect(inspection.problems).toEqual([]);
+        expect(inspection.packets).toBe(62);
+        expect(inspection.startsWithPat).toBe(true);
+        expect(inspection.pmtBeforeMedia).toBe(true);
+        expect(inspection.videoCodec).toBe('h264');
+        expect(inspection.startsWithKeyframe).toBe(true);
+        expect(inspection.pts).toEqual({ first: 900000, last: 900000 + 59 * FRAME_TICKS, seconds: 59 * FRAME_TICKS / 90000 });
+        expect(inspection.pcr?.first).toBe(899100);
+        expect(inspection.durationSeconds).toBeCloseTo(2.0, 6);
+    });
+
+    it('should report continuity counter errors per PID', () => {
+        const inspection = inspectTransportStream(segment({ skipContinuity: 10 }));
+
+        expect(inspection.continuityErrors).toEqual({ [VIDEO_PID]: 1 });
+        expect(inspection.problems).toEqual([`1 continuity counter error(s) on PID ${VIDEO_PID}`]);
+    });
+
+    it('should report segments that do not start with a keyframe', () => {
+        const inspection = inspectTransportStream(segment({ firstNalType: 0x41 }));
+
+        expect(inspection.startsWithKeyframe).toBe(false);
+        expect(inspection.problems).toEqual(['segment does not start with a keyframe']);
+    });
+
+    it('should report broken packet structure and missing tables', () => {
+        const data = segment().subarray(188 * 2);
+        const corrupted = Buffer.concat([data, Buffer.from([0x47, 0x00])]);
+        corrupted[188 * 5] = 0x00;
+
+        const inspection = inspectTransportStream(corrupted);
+
+        expect(inspection.problems).toEqual([
+            '1 packet(s) without sync byte',
+            '2 trailing byte(s) after the last packet',
+            'segment does not start with a PAT',
+            'no PMT before the first PES packet',
+            `1 continuity counter error(s) on PID ${VIDEO_PID}`     // the unsynced packet is skipped
+        ]);
+        expect(inspection.videoCodec).toBeUndefined();
+    });
+
+    it('should give the same result when the segment arrives in chunks that split packets', () => {
+        const data = Buffer.concat([segment({ skipContinuity: 10 }), Buffer.from([0x47, 0x00])]);
+        const inspector = new TransportStreamInspector();
+        for (let offset = 0; offset < data.length; offset += 1000) {
+            inspector.push(data.subarray(offset, offset + 1000));
+        }
+
+        expect(inspector.finish()).toEqual(inspectTransportStream(data));
+    });
+
+    it('should compare the payload duration with #EXTINF', () => {
+        const payload = inspectTransportStream(segment());
+        const declared = (duration: number): SegmentInfo => ({ uri: 'seg_1.ts', duration, received: true, payload });
+
+        expect(getDurationMismatch(declared(2.0))).toBeUndefined();
+        expect(getDurationMismatch(declared(2.1))).toBeUndefined();
+        expect(getDurationMismatch(declared(4.0))).toBeCloseTo(-2.0, 6);
+    });
+});
@@ -0,0 +1,70 @@
+import { summarizeUploads, UploadHistory } from '../../src/utils/uploadHistory';
+import { silentLogger } from '../helpers';
+
+describe('Upload History', () => {
+    let history: UploadHistory;
+
+    beforeEach(() => {
+        history = new UploadHistory(silentLogger);
+    });
+
+    function upload(uri: string, hash: string, size = 100, redundantId?: string) {
+        return history.record({ uri, channelId: 'channel1', redundantId, hash, size, receivedAt: Date.now() });
+    }
+
+    it('should classify retries by comparing content hashes with the previous upload', () => {
+        expect(upload('seg_1.ts', 'aaa').outcome).toBe('first');
+        expect(upload('seg_1.ts', 'aaa').outcome).toBe('identical');
+        expect(upload('seg_1.ts', 'bbb', 120).outcome).toBe('replaced');
+        expect(upload('seg_1.ts', 'bbb', 120).outcome).toBe('identical');
+
+        const segment = history.get('channel1', undefined, 'seg_1.ts')!;
+        expect(segment.attempts.map(attempt => attempt.size)).toEqual([100, 100, 120, 120]);
+        expect(segment).toMatchObject({ uploads: 4, identical: 2, replaced: 1 });
+    });
+
+    it('should keep histories per channel and pipeline', () => {
+        upload('seg_1.ts', 'aaa', 100, 'A');
+        expect(upload('seg_1.ts', 'bbb', 100, 'B').outcome).toBe('first');
+        expect(history.get('channel1', undefined, 'seg_1.ts')).toBeUndefined();
+    });
+
+    it('should summarize only segments uploaded more than once', () => {
+        upload('seg_1.ts', 'aaa');
+        upload('seg_2.ts', 'bbb');
+        upload('seg_2.ts', 'bbb');
+        upload('seg_3.ts', 'ccc');
+        upload('seg_3.ts', 'ddd');
+        upload('seg_3.ts', 'ddd');
+
+        const repeated = history.getRepeatedUploads().get('channel1')!;
+
+        expect(repeated.map(segment => segment.uri)).toEqual(['seg_2.ts', 'seg_3.ts']);
+        expect(summarizeUploads(repeated)).toEqual({ segments: 2, uploads: 5, retries: 3, identical: 2, replaced: 1 });
+    });
+
+    it('should keep counting attempts beyond the stored attempt limit', () => {
+        for (let i = 0; i < 60; i++) {
+            upload('seg_1.ts', 'aaa');
+        }
+
+        const segment = history.get('channel1', undefined, 'seg_1.ts')!;
+        expect(segment.attempts).toHaveLength(50);
+        expect(segment.attempts[0].outcome).toBe('first');
+        expect(segment).toMatchObject({ uploads: 60, identical: 59 });
+    });
+
+    it('should drop the least recently uploaded segment paths beyond the per-channel limit', () => {
+        history = new UploadHistory(silentLogger, { maxSegmentsPerChannel: 3 });
+        ['seg_1.ts', 'seg_2.ts', 'seg_3.ts'].forEach(uri => upload(uri, uri));
+        upload('seg_1.ts', 'seg_1.ts');
+        upload('seg_4.ts', 'seg_4.ts');
+        upload('seg_5.ts', 'seg_5.ts', 100, 'A');
+
+        expect(history.get('channel1', undefined, 'seg_2.ts')).toBeUndefined();
+        expect(history.get('channel1', undefined, 'seg_1.ts')).toMatchObject({ uploads: 2, identical: 1 });
+        expect(['seg_3.ts', 'seg_4.ts'].map(uri => history.get('channel1', undefined, uri)?.uploads)).toEqual([1, 1]);
+        // 파이프라인 기록은 별도로 제한
+        expect(history.get('channel1', 'A', 'seg_5.ts')).toBeDefined();
+    });
+});
@@ -0,0 +1,137 @@
+import fs from 'fs';
+import http from 'http';
+import os from 'os';
+import path from 'path';
+import { Writable } from 'stream';
+import { AddressInfo } from 'net';
+import express, { Request, Response } from 'express';
+import { SegmentHandler } from '../../src/handlers/segmentHandler';
+import { M3u8TrackingInfo, UploadedFile } from '../../src/types';
+import { UPLOAD_TEMP_DIR, createUploadMiddleware } from '../../src/utils/uploadStream';
+import { silentLogger } from '../helpers';
+
+function listTempFiles(storagePath: string): string[] {
+    const tempDir = path.join(storagePath, UPLOAD_TEMP_DIR);
+    return fs.existsSync(tempDir) ? fs.readdirSync(tempDir) : [];
+}
+
+// 임시 파일 정리는 비동기 unlink이므로 잠시 대기
+function settle(ms = 100): Promise<void> {
+    return new Promise(resolve => setTimeout(resolve, ms));
+}
+
+describe('Upload Stream Middleware', () => {
+    let storagePath: string;
+    let server: http.Server;
+    let port: number;
+
+    const put = (urlPath: string, body: Buffer): Promise<number> => new Promise((resolve, reject) => {
+        const req = http.request({ host: '127.0.0.1', port, path: urlPath, method: 'PUT' }, res => {
+            res.resume();
+            res.on('end', () => resolve(res.statusCode!));
+        });
+        req.on('error', reject);
+        req.end(body);
+    });
+
+    beforeEach(async () => {
+        storagePath = fs.mkdtempSync(path.join(os.tmpdir(), 'upload-stream-'));
+        const segmentHandler = new SegmentHandler(new Map<string, M3u8TrackingInfo>(), storagePath, silentLogger);
+        const app = express();
+        app.use(createUploadMiddleware(storagePath, silentLogger));
+        app.put('/live/:channelId/*', (req, res) => {
+            segmentHandler.handlePut(req, res);
+        });
+        server = app.listen(0, '127.0.0.1');
+        await new Promise(resolve => server.once('listening', resolve));
+        port = (server.address() as AddressInfo).port;
+    });
+
+    afterEach(async () => {
+        jest.restoreAllMocks();
+        server.closeAllConnections();
+        await new Promise(resolve => server.close(resolve));
+        fs.rmSync(storagePath, { recursive: true, force: true });
+    });
+
+    it('should rename the streamed body into place', async () => {
+        const body = Buffer.alloc(188 * 10, 1);
+
+        expect(await put('/live/channel1/video/seg_1.ts', body)).toBe(200);
+        await settle();
+
+        expect(fs.readFileSync(path.join(storagePath, 'channel1', 'video', 'seg_1.ts'))).toEqual(body);
+        expect(listTempFiles(storagePath)).toEqual([]);
+    });
+
+    it('should remove the temp file when the client aborts the upload', async () => {
+        const req = http.request({ host: '127.0.0.1', port, path: '/live/channel1/seg_1.ts', method: 'PUT', headers: { 'Content-Length': '10000' } });
+        req.on('error', () => undefined);
+        req.write(Buffer.alloc(1000));
+        await settle();
+        expect(listTempFiles(storagePath)).toHaveLength(1);
+
+        req.destroy();
+        await settle();
+
+        expect(listTempFiles(storagePath)).toEqual([]);
+        expect(fs.existsSync(path.join(storagePath, 'channel1', 'seg_1.ts'))).toBe(false);
+    });
+
+    it('should answer 500 and remove the temp file when writing fails', async () => {
+        jest.spyOn(fs, 'createWriteStream').mockImplementation(tempPath => {
+            fs.writeFileSync(tempPath, '');
+            return new Writable({
+                write: (chunk, encoding, callback) => callback(new Error('ENOSPC: no space left on device'))
+            }) as unknown as fs.WriteStream;
+        });
+
+        expect(await put('/live/channel1/seg_1.ts', Buffer.alloc(1000))).toBe(500);
+        await settle();
+
+        expect(listTempFiles(storagePath)).toEqual([]);
+    });
+
+    it('should remove temp files of uploads that are not renamed into place', async () => {
+        // 루트 밖 경로(400)와 매칭되는 라우트가 없는 경로(404, 이 앱에는 v2 라우트가 없음)
+        expect(await put('/live/channel1/../../seg_1.ts', Buffer.alloc(1000))).toBe(400);
+        expect(await put('/in/v2/channel1/0/seg_1.ts', Buffer.alloc(1000))).toBe(404);
+        await settle();
+
+        expect(listTempFiles(storagePath)).toEqual([]);
+    });
+
+    it('should inspect MPEG-TS bodies while streaming when inspection is enabled', async () => {
+        const uploads: (UploadedFile | undefined)[] = [];
+        const app = express();
+        app.use(createUploadMiddleware(storagePath, silentLogger, { inspectSegments: true }));
+        app.put('/live/:channelId/*', (req: Request, res: Response) => {
+            uploads.push(req.uploadedFile);
+            res.status(200).send('OK');
+        });
+        const inspectingServer = app.listen(0, '127.0.0.1');
+        await new Promise(resolve => inspectingServer.once('listening', resolve));
+        port = (inspectingServer.address() as AddressInfo).port;
+
+        try {
+            await put('/live/channel1/seg_1.ts', Buffer.alloc(188 * 3 + 10));
+            await put('/live/channel1/seg_1.m4s', Buffer.alloc(100));
+        } finally {
+            inspectingServer.closeAllConnections();
+            await new Promise(resolve => inspectingServer.close(resolve));
+        }
+
+        expect(uploads[0]?.payload).toMatchObject({ packets: 3, syncErrors: 3, trailingBytes: 10 });
+        expect(uploads[1]?.payload).toBeUndefined();
+    });
+
+    it('should clear temp files left by a previous run', () => {
+        const tempDir = path.join(storagePath, UPLOAD_TEMP_DIR);
+        fs.mkdirSync(tempDir, { recursive: true });
+        fs.writeFileSync(path.join(tempDir, 'stale.part'), 'data');
+
+        createUploadMiddleware(storagePath, silentLogger);
+
+        expect(listTempFiles(storagePath)).toEqual([]);
+    });
+});